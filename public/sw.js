@@ -0,0 +1,34 @@
+// Service worker for Web Push notifications about tracked aircraft.
+// Payload: { title, body, url, event } (see src/lib/notifications/channels.ts)
+
+self.addEventListener('push', (event) => {
+  let data = {}
+  try {
+    data = event.data ? event.data.json() : {}
+  } catch {
+    data = { title: 'Flight Tracker', body: event.data ? event.data.text() : '' }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Flight Tracker', {
+      body: data.body || '',
+      icon: '/plane.png',
+      tag: data.event ? `${data.event}-${data.url || ''}` : undefined,
+      data: { url: data.url || '/' },
+    })
+  )
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = event.notification.data?.url || '/'
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      for (const client of clients) {
+        if (client.url === url && 'focus' in client) return client.focus()
+      }
+      return self.clients.openWindow(url)
+    })
+  )
+})
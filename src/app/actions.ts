@@ -1,55 +1,40 @@
 'use server';
 
-import { FlightState, BoundingBox, Airport, AirportFilterType, FlightTrackPoint, FlightRouteInfo, AircraftMetadata } from '../types';
-import fs from 'fs/promises';
-import path from 'path';
-import countryCodeMap from '../data/country-name-to-code.json';
+import { FlightState, BoundingBox, Airport, AirportFilterType, FlightTrackPoint, FlightRouteInfo, AircraftMetadata, SearchResult, AircraftFlight } from '../types';
+import { getFlightDataProvider } from '../lib/flightProviders';
+import { fetchSnapshotTrack, fetchSnapshotsInBounds, fetchLastSnapshotState, fetchRecentEmergencySnapshots, getSnapshotRegions, SnapshotRegion, SnapshotReplay } from '../lib/snapshots';
+import { getAirportIndex } from '../lib/airportIndex';
+import { ALL_AIRPORTS_FILTER } from '../lib/airportFilters';
+import { FlightEvent, ingestFlightStates, getFlightEvents } from '../lib/flightEvents';
+import { callsignToFlightNumber } from '../lib/flightNumbers';
+import { searchEverything, getWorldStates } from '../lib/search';
+import { isEmergencySquawk } from '../lib/squawk';
+import { evaluateGeofences } from '../lib/geofences';
+import { assertSafeWebhookUrl } from '../lib/notifications/webhookUrl';
+import { checkWatchAreas } from '../lib/watchAreas';
+import { hasPosition } from '../lib/geo';
 
 // Log environment variables (without exposing secrets)
 console.log('Environment check:');
 console.log('- OPENSKY_CLIENT_ID available:', !!process.env.OPENSKY_CLIENT_ID);
 console.log('- OPENSKY_CLIENT_SECRET available:', !!process.env.OPENSKY_CLIENT_SECRET);
+console.log('- FLIGHT_DATA_PROVIDER:', process.env.FLIGHT_DATA_PROVIDER || 'opensky');
 console.log('- NODE_ENV:', process.env.NODE_ENV);
 
 // Simple cache for flight data
 const flightCache = new Map<string, { data: FlightState[]; timestamp: number }>();
 const FLIGHT_CACHE_DURATION = 30 * 1000; // 30 seconds
 
-// Helper function to map raw state vector to a structured FlightState object
-function mapStateToFlightState(state: any[]): FlightState {
-    const [
-        icao24, callsign, origin_country, time_position, last_contact,
-        longitude, latitude, baro_altitude, on_ground, velocity,
-        true_track, vertical_rate, sensors, geo_altitude, squawk,
-        spi, position_source, category
-    ] = state;
+const RECENT_FLIGHTS_DAYS = 7;
 
-    return {
-        icao24,
-        callsign: callsign?.trim() || null,
-        origin_country,
-        time_position,
-        last_contact,
-        longitude,
-        latitude,
-        baro_altitude,
-        on_ground,
-        velocity,
-        true_track,
-        vertical_rate,
-        sensors,
-        geo_altitude,
-        squawk,
-        spi,
-        position_source,
-        category,
-        origin_country_code: (countryCodeMap as any)[origin_country] || '',
-    };
-}
+// Snapshots are recorded about every minute; older ones may describe aircraft
+// that have landed or changed code since
+const EMERGENCY_SNAPSHOT_MAX_AGE_SECONDS = 10 * 60;
+// A world-wide download costs 4 OpenSky credits; refreshing it at most every
+// 15 minutes keeps the banner under 400 of the 4000 daily credits
+const EMERGENCY_WORLD_STATES_MAX_AGE_MS = 15 * 60 * 1000;
 
 export async function fetchAllFlights(bounds: BoundingBox): Promise<FlightState[]> {
-    const url = `https://opensky-network.org/api/states/all?lamin=${bounds.lamin}&lomin=${bounds.lomin}&lamax=${bounds.lamax}&lomax=${bounds.lomax}`;
-    
     // Check cache first
     const cacheKey = `${bounds.lamin}-${bounds.lomin}-${bounds.lamax}-${bounds.lomax}`;
     const cached = flightCache.get(cacheKey);
@@ -58,72 +43,24 @@ export async function fetchAllFlights(bounds: BoundingBox): Promise<FlightState[
         return cached.data;
     }
     
-    console.log('fetchAllFlights: Starting with bounds:', bounds);
-    
-    const clientId = process.env.OPENSKY_CLIENT_ID;
-    const clientSecret = process.env.OPENSKY_CLIENT_SECRET;
-    
-    console.log('fetchAllFlights: Client ID available:', !!clientId);
-    console.log('fetchAllFlights: Client Secret available:', !!clientSecret);
-    
-    if (clientId && clientSecret) {
-        try {
-            console.log('fetchAllFlights: Attempting to get token...');
-            const tokenResponse = await fetch('https://auth.opensky-network.org/auth/realms/opensky-network/protocol/openid-connect/token', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-                body: new URLSearchParams({
-                    'grant_type': 'client_credentials',
-                    'client_id': clientId,
-                    'client_secret': clientSecret,
-                }),
-            });
-
-            console.log('fetchAllFlights: Token response status:', tokenResponse.status);
-            
-            if (tokenResponse.ok) {
-                const tokenData = await tokenResponse.json();
-                const token = tokenData.access_token;
-                console.log('fetchAllFlights: Got token, length:', token ? token.length : 0);
-                
-                console.log('fetchAllFlights: Making authenticated request to:', url);
-                const response = await fetch(url, { headers: { 'Authorization': `Bearer ${token}` } });
-                console.log('fetchAllFlights: Authenticated response status:', response.status);
-                
-                if (response.ok) {
-                    const data = await response.json();
-                    console.log('fetchAllFlights: Got data, states count:', data.states ? data.states.length : 0);
-                    const flightStates = (data.states || []).map(mapStateToFlightState);
-                    flightCache.set(cacheKey, { data: flightStates, timestamp: Date.now() });
-                    return flightStates;
-                } else {
-                    console.log('fetchAllFlights: Authenticated request failed:', response.statusText);
-                }
-            } else {
-                console.log('fetchAllFlights: Token request failed:', tokenResponse.statusText);
-                const errorText = await tokenResponse.text();
-                console.log('fetchAllFlights: Token error details:', errorText);
-            }
-        } catch (error) {
-            console.warn('fetchAllFlights: Authenticated request failed, falling back to unauthenticated.', error);
-        }
-    } else {
-        console.log('fetchAllFlights: No credentials available, using unauthenticated request');
-    }
+    const provider = getFlightDataProvider();
+    console.log(`fetchAllFlights: Fetching from ${provider.name} with bounds:`, bounds);
 
     try {
-        console.log('fetchAllFlights: Making unauthenticated request to:', url);
-        const response = await fetch(url);
-        console.log('fetchAllFlights: Unauthenticated response status:', response.status);
-        
-        if (!response.ok) {
-            console.log('fetchAllFlights: Unauthenticated request failed:', response.statusText);
-            throw new Error(`Unauthenticated request failed: ${response.statusText}`);
-        }
-        const data = await response.json();
-        console.log('fetchAllFlights: Got unauthenticated data, states count:', data.states ? data.states.length : 0);
-        const flightStates = (data.states || []).map(mapStateToFlightState);
+        const flightStates = await provider.fetchStates(bounds);
+        console.log('fetchAllFlights: Got data, states count:', flightStates.length);
         flightCache.set(cacheKey, { data: flightStates, timestamp: Date.now() });
+        // Event detection shouldn't hold up the map
+        ingestFlightStates(flightStates, { bounds }).catch(error => {
+            console.error('fetchAllFlights: Event detection failed:', error);
+        });
+        evaluateGeofences(flightStates).catch(error => {
+            console.error('fetchAllFlights: Geofence evaluation failed:', error);
+        });
+        // Watch areas outside SNAPSHOT_REGIONS are only covered by map polls
+        checkWatchAreas(flightStates.filter(hasPosition)).catch(error => {
+            console.error('fetchAllFlights: Watch area check failed:', error);
+        });
         return flightStates;
     } catch (error) {
         console.error("fetchAllFlights: All flight fetching attempts failed:", error);
@@ -139,50 +76,54 @@ export async function fetchAllFlights(bounds: BoundingBox): Promise<FlightState[
     }
 }
 
-async function getAirportsData(): Promise<any[]> {
+export async function fetchAirports(bbox: BoundingBox, filter: AirportFilterType = ALL_AIRPORTS_FILTER): Promise<Airport[]> {
+    const index = await getAirportIndex();
+    return index.query(bbox, filter);
+}
+
+export async function fetchAirportByCode(code: string): Promise<Airport | null> {
+    const index = await getAirportIndex();
+    const airport = index.findByIata(code.trim());
+    if (!airport) {
+        console.log('fetchAirportByCode: No airport found for code:', code);
+    }
+    return airport;
+}
+
+export async function searchFlights(query: string): Promise<SearchResult[]> {
     try {
-        const filePath = path.join(process.cwd(), 'src', 'data', 'airports.json');
-        const fileContents = await fs.readFile(filePath, 'utf8');
-        const data = JSON.parse(fileContents);
-        // The JSON could be an object with ICAO codes as keys, convert it to an array
-        if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
-            return Object.values(data);
-        }
-        // If it's already an array, return it as is
-        return Array.isArray(data) ? data : [];
+        return await searchEverything(query);
     } catch (error) {
-        console.error("Failed to read or parse airports.json:", error);
-        // Return empty array on error instead of crashing
+        console.error('searchFlights: Error:', error);
         return [];
     }
 }
 
-export async function fetchAirports(bbox: BoundingBox, filter: AirportFilterType = 'all'): Promise<Airport[]> {
-    const allAirports: any[] = await getAirportsData();
-    
-    if (!Array.isArray(allAirports)) {
-        console.error("fetchAirports: allAirports is not an array, returning empty.");
+// Aircraft squawking 7500, 7600 or 7700 anywhere, for the emergency banner:
+// recent snapshots of the recorded regions, then the less often refreshed
+// world-wide states for everywhere else
+export async function fetchEmergencies(): Promise<FlightState[]> {
+    try {
+        const [recorded, world] = await Promise.all([
+            fetchRecentEmergencySnapshots(EMERGENCY_SNAPSHOT_MAX_AGE_SECONDS),
+            getWorldStates(EMERGENCY_WORLD_STATES_MAX_AGE_MS),
+        ]);
+        const recordedIcaos = new Set(recorded.map(state => state.icao24));
+        return [...recorded, ...world.filter(state => isEmergencySquawk(state.squawk) && !recordedIcaos.has(state.icao24))];
+    } catch (error) {
+        console.error('fetchEmergencies: Error:', error);
         return [];
     }
-    
-    const filteredByBounds = allAirports.filter(apt => 
-        apt && // ensure apt is not null/undefined
-        typeof apt.lat === 'number' &&
-        typeof apt.lon === 'number' &&
-        apt.lat >= bbox.lamin &&
-        apt.lat <= bbox.lamax &&
-        apt.lon >= bbox.lomin &&
-        apt.lon <= bbox.lomax
-    );
+}
 
-    if (filter === 'main') {
-        const main = filteredByBounds.filter(apt => apt.iata);
-        return main;
+export async function fetchFlightEvents(icao24: string): Promise<FlightEvent[]> {
+    try {
+        return await getFlightEvents(icao24);
+    } catch (error) {
+        console.error('fetchFlightEvents: Error loading events:', error);
+        return [];
     }
-
-    return filteredByBounds;
-};
-
+}
 
 export async function fetchAircraftMetadata(icao24: string, callsign?: string | null, registration?: string | null): Promise<AircraftMetadata | null> {
     try {
@@ -248,88 +189,63 @@ export async function fetchAircraftMetadata(icao24: string, callsign?: string |
 }
 
 export async function fetchFlightTrack(icao24: string): Promise<FlightTrackPoint[] | null> {
-    const clientId = process.env.OPENSKY_CLIENT_ID;
-    const clientSecret = process.env.OPENSKY_CLIENT_SECRET;
-
-    if (!clientId || !clientSecret) return null;
-
-    let token = null;
     try {
-        const tokenResponse = await fetch('https://auth.opensky-network.org/auth/realms/opensky-network/protocol/openid-connect/token', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-            body: new URLSearchParams({
-                'grant_type': 'client_credentials',
-                'client_id': clientId,
-                'client_secret': clientSecret,
-            }),
-        });
-        
-        if (!tokenResponse.ok) return null;
-        
-        const tokenData = await tokenResponse.json();
-        token = tokenData.access_token;
-
+        const track = await getFlightDataProvider().fetchTrack(icao24);
+        if (track && track.length > 0) return track;
     } catch (error) {
-        return null;
+        console.error('fetchFlightTrack: Error:', error);
     }
 
-    if (!token) return null;
+    // Fall back to our own recorded history
+    console.log(`fetchFlightTrack: No provider track for ${icao24}, trying snapshots`);
+    return fetchSnapshotTrack(icao24);
+}
 
+// Recorded states for replaying the map; from/to are Unix seconds
+export async function fetchReplaySnapshots(bounds: BoundingBox, from: number, to: number): Promise<SnapshotReplay> {
     try {
-        const url = `https://opensky-network.org/api/tracks/all?icao24=${icao24}&time=0`;
-        
-        const response = await fetch(url, {
-            headers: { 'Authorization': `Bearer ${token}` },
-        });
-
-        if (!response.ok) return null;
-        
-        const data = await response.json();
-
-        if (!data || !data.path || data.path.length === 0) return null;
-
-        return data.path.map((p: any) => ({
-            time: p[0],
-            latitude: p[1],
-            longitude: p[2],
-            baro_altitude: p[3],
-            true_track: p[4],
-            on_ground: p[5],
-            velocity: p[6],
-            vertical_rate: p[7],
-            callsign: data.callsign,
-        }));
+        const replay = await fetchSnapshotsInBounds(bounds, from, to);
+        console.log(`fetchReplaySnapshots: Loaded ${replay.states.length} snapshots${replay.truncated ? ' (truncated)' : ''}`);
+        return replay;
     } catch (error) {
-        return null;
+        console.error('fetchReplaySnapshots: Error:', error);
+        return { states: [], truncated: false };
     }
 }
 
 export async function fetchFlightPlan(icao24: string, callsign: string | null): Promise<FlightRouteInfo | null> {
     if (!callsign) return null;
 
-    try {
-        const response = await fetch(`https://aerodatabox.p.rapidapi.com/flights/callsign/${callsign.trim()}`, {
-            method: 'GET',
-            headers: {
-                'X-RapidAPI-Key': process.env.AERODATABOX_API_KEY!,
-                'X-RapidAPI-Host': 'aerodatabox.p.rapidapi.com',
-            },
-        });
-        if (response.ok) {
-            const data = await response.json();
-            if (data.length > 0) {
-                const flight = data[0];
-                if (flight.departure?.airport?.name && flight.arrival?.airport?.name) {
-                    return {
-                        departureAirport: flight.departure.airport.name,
-                        arrivalAirport: flight.arrival.airport.name,
-                    };
+    // AeroDataBox knows most flights by callsign; the commercial flight number
+    // (WZZ1699 -> W61699) covers the rest
+    const flightNumber = callsignToFlightNumber(callsign.trim());
+    const lookups = [`callsign/${callsign.trim()}`];
+    if (flightNumber && flightNumber !== callsign.trim()) lookups.push(`number/${flightNumber}`);
+
+    for (const lookup of lookups) {
+        try {
+            const response = await fetch(`https://aerodatabox.p.rapidapi.com/flights/${lookup}`, {
+                method: 'GET',
+                headers: {
+                    'X-RapidAPI-Key': process.env.AERODATABOX_API_KEY!,
+                    'X-RapidAPI-Host': 'aerodatabox.p.rapidapi.com',
+                },
+            });
+            if (response.ok) {
+                const data = await response.json();
+                if (data.length > 0) {
+                    const flight = data[0];
+                    if (flight.departure?.airport?.name && flight.arrival?.airport?.name) {
+                        return {
+                            departureAirport: flight.departure.airport.name,
+                            arrivalAirport: flight.arrival.airport.name,
+                        };
+                    }
                 }
             }
+        } catch (error) {
+            console.error('Error fetching from AeroDataBox:', error);
         }
-    } catch (error) {
-        console.error('Error fetching from AeroDataBox:', error);
     }
     return null;
 }
@@ -338,81 +254,56 @@ export async function fetchLatestFlightState(icao24: string): Promise<FlightStat
     try {
         // Clean ICAO24 - remove spaces and ensure proper format
         const cleanIcao24 = icao24.trim().toLowerCase();
-        console.log('fetchLatestFlightState: Original ICAO24:', icao24);
         console.log('fetchLatestFlightState: Cleaned ICAO24:', cleanIcao24);
         
-        const clientId = process.env.OPENSKY_CLIENT_ID;
-        const clientSecret = process.env.OPENSKY_CLIENT_SECRET;
-        
-        let headers = {};
-        
-        // Try authenticated request first if credentials are available
-        if (clientId && clientSecret) {
-            try {
-                const tokenResponse = await fetch('https://auth.opensky-network.org/auth/realms/opensky-network/protocol/openid-connect/token', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-                    body: new URLSearchParams({
-                        'grant_type': 'client_credentials',
-                        'client_id': clientId,
-                        'client_secret': clientSecret,
-                    }),
-                });
-
-                if (tokenResponse.ok) {
-                    const tokenData = await tokenResponse.json();
-                    const token = tokenData.access_token;
-                    headers = { 'Authorization': `Bearer ${token}` };
-                    console.log('fetchLatestFlightState: Using authenticated request');
-                    
-                    const response = await fetch(`https://opensky-network.org/api/states/all?icao24=${cleanIcao24}`, { headers });
-                    console.log('fetchLatestFlightState: Authenticated response status:', response.status);
-                    
-                    if (response.ok) {
-                        const data = await response.json();
-                        console.log('fetchLatestFlightState: Authenticated data received:', data);
-                        
-                        if (data.states && data.states.length > 0) {
-                            const state = data.states[0];
-                            const flightState = mapStateToFlightState(state);
-                            console.log('fetchLatestFlightState: Mapped flight state:', flightState);
-                            return flightState;
-                        }
-                    } else if (response.status === 429) {
-                        console.log('fetchLatestFlightState: Rate limit hit, falling back to unauthenticated request');
-                    } else {
-                        console.log('fetchLatestFlightState: Authenticated request failed:', response.statusText);
-                    }
-                }
-            } catch (error) {
-                console.warn('fetchLatestFlightState: Authentication failed, using unauthenticated request:', error);
-            }
-        }
-        
-        // Fallback to unauthenticated request
-        console.log('fetchLatestFlightState: Using unauthenticated request');
-        const response = await fetch(`https://opensky-network.org/api/states/all?icao24=${cleanIcao24}`);
-        console.log('fetchLatestFlightState: Unauthenticated response status:', response.status);
-        
-        if (!response.ok) {
-            console.log('fetchLatestFlightState: Unauthenticated response not ok:', response.statusText);
-            return null;
-        }
-        
-        const data = await response.json();
-        console.log('fetchLatestFlightState: Unauthenticated data received:', data);
+        const states = await getFlightDataProvider().fetchStatesByIcao24([cleanIcao24]);
         
-        if (!data.states || data.states.length === 0) {
+        if (states.length === 0) {
             console.log('fetchLatestFlightState: No states found for ICAO24:', cleanIcao24);
             return null;
         }
         
-        const state = data.states[0];
-        const flightState = mapStateToFlightState(state);
-        console.log('fetchLatestFlightState: Mapped flight state:', flightState);
-        return flightState;
+        return states[0];
     } catch (error) {
         console.error('fetchLatestFlightState: Error:', error);
         return null;
     }
-}
\ No newline at end of file
+}
+
+// Last recorded position of an aircraft that isn't reporting right now
+export async function fetchLastKnownFlightState(icao24: string): Promise<FlightState | null> {
+    try {
+        return await fetchLastSnapshotState(icao24);
+    } catch (error) {
+        console.error('fetchLastKnownFlightState: Error:', error);
+        return null;
+    }
+}
+
+// Flights of the aircraft over the last week, newest first
+export async function fetchRecentFlights(icao24: string): Promise<AircraftFlight[]> {
+    try {
+        const end = Math.floor(Date.now() / 1000);
+        const flights = await getFlightDataProvider().fetchFlights(icao24.trim().toLowerCase(), end - RECENT_FLIGHTS_DAYS * 24 * 3600, end);
+        return flights ?? [];
+    } catch (error) {
+        console.error('fetchRecentFlights: Error:', error);
+        return [];
+    }
+}
+
+// Checks a webhook URL before it's saved; returns why it can't be used, or null
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+    try {
+        await assertSafeWebhookUrl(url);
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : 'Webhook URL is not allowed';
+    }
+}
+
+// Regions recorded by /api/snapshots, where watch areas are checked even
+// while nobody has the map open
+export async function fetchSnapshotRegions(): Promise<SnapshotRegion[]> {
+    return getSnapshotRegions();
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import { Airport, FlightState } from '@/types';
+import { FlightFilters } from '@/components/ClientMap';
+import { fetchAirportByCode, fetchAllFlights } from '@/app/actions';
+import { ALL_POSITION_SOURCES } from '@/lib/positionSource';
+import { AirportBoardEntry, DEFAULT_AIRPORT_BOARD_OPTIONS, boundingBoxAround, buildAirportBoard } from '@/lib/airportBoard';
+import { splitAtAntimeridian } from '@/lib/geo';
+
+const MapView = dynamic(() => import('@/components/MapView'), {
+  ssr: false,
+  loading: () => <div className="h-full w-full bg-gray-800 flex items-center justify-center text-white">Loading map...</div>
+});
+
+interface AirportBoardClientProps {
+    code: string;
+}
+
+const REFRESH_INTERVAL_MS = 10000;
+
+const boardFilters: FlightFilters = {
+    hideOnGround: false,
+    category: 'all',
+    minAltitude: 0,
+    positionSources: ALL_POSITION_SOURCES,
+    animateAircraft: false,
+    maxExtrapolationSeconds: 0,
+    clusterAircraft: false,
+    showLabels: true,
+    showAirlineLogos: true,
+    showFlightNumbers: true,
+    showAltitude: true,
+    showSpeed: true,
+    autoFetchAircraftInfo: false
+};
+
+interface BoardSectionProps {
+    title: string;
+    entries: AirportBoardEntry[];
+    emptyText: string;
+    showEta?: boolean;
+}
+
+function BoardSection({ title, entries, emptyText, showEta = false }: BoardSectionProps) {
+    return (
+        <div className="bg-gray-800 shadow-xl rounded-lg overflow-hidden mb-6">
+            <div className="px-6 py-4 border-b border-gray-700 flex items-center justify-between">
+                <h2 className="text-lg font-bold">{title}</h2>
+                <span className="text-sm text-gray-400">{entries.length}</span>
+            </div>
+            {entries.length === 0 ? (
+                <p className="px-6 py-4 text-sm text-gray-500">{emptyText}</p>
+            ) : (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-gray-400 uppercase text-xs tracking-wider">
+                            <th className="text-left px-6 py-2">Flight</th>
+                            <th className="text-right px-2 py-2">Alt</th>
+                            <th className="text-right px-2 py-2">V/S</th>
+                            <th className="text-right px-6 py-2">{showEta ? 'ETA' : 'Dist'}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {entries.map(entry => (
+                            <tr key={entry.flight.icao24} className="border-t border-gray-700">
+                                <td className="px-6 py-2">
+                                    <Link href={`/flight/${entry.flight.icao24}`} className="text-blue-400 hover:text-blue-300 font-semibold">
+                                        {entry.flight.callsign?.trim() || entry.flight.icao24.toUpperCase()}
+                                    </Link>
+                                </td>
+                                <td className="text-right px-2 py-2">
+                                    {entry.altitudeFt !== null && entry.movement !== 'on_ground' ? `${entry.altitudeFt.toFixed(0)} ft` : '—'}
+                                </td>
+                                <td className="text-right px-2 py-2">
+                                    {entry.verticalRateFpm !== null && entry.movement !== 'on_ground' ? `${entry.verticalRateFpm.toFixed(0)}` : '—'}
+                                </td>
+                                <td className="text-right px-6 py-2">
+                                    {showEta && entry.etaMinutes !== null
+                                        ? `${Math.max(1, Math.round(entry.etaMinutes))} min`
+                                        : `${entry.distanceKm.toFixed(1)} km`}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
+
+export default function AirportBoardClient({ code }: AirportBoardClientProps) {
+    const [airport, setAirport] = useState<Airport | null>(null);
+    const [flights, setFlights] = useState<FlightState[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+    // Look the airport up once
+    useEffect(() => {
+        let isMounted = true;
+        setIsLoading(true);
+        fetchAirportByCode(decodeURIComponent(code)).then(result => {
+            if (!isMounted) return;
+            setAirport(result);
+            if (!result) setIsLoading(false);
+        });
+        return () => {
+            isMounted = false;
+        };
+    }, [code]);
+
+    // Poll the traffic around it
+    useEffect(() => {
+        if (!airport) return;
+
+        let isMounted = true;
+        // OpenSky takes no boxes across the antimeridian, so those are fetched in two parts
+        const boxes = splitAtAntimeridian(boundingBoxAround(airport.lat, airport.lon, DEFAULT_AIRPORT_BOARD_OPTIONS.radiusKm));
+
+        const loadTraffic = async () => {
+            try {
+                const flightData = (await Promise.all(boxes.map(box => fetchAllFlights(box)))).flat();
+                if (!isMounted) return;
+                setFlights(flightData);
+                setLastUpdated(new Date());
+            } catch (error) {
+                console.error('AirportBoardClient: Error fetching traffic:', error);
+            } finally {
+                if (isMounted) setIsLoading(false);
+            }
+        };
+
+        loadTraffic();
+        const intervalId = setInterval(loadTraffic, REFRESH_INTERVAL_MS);
+        return () => {
+            isMounted = false;
+            clearInterval(intervalId);
+        };
+    }, [airport]);
+
+    if (isLoading) {
+        return <div className="h-screen w-full bg-gray-900 flex items-center justify-center text-white">Loading airport...</div>;
+    }
+
+    if (!airport) {
+        return (
+            <div className="flex flex-col items-center justify-center h-screen bg-gray-900 text-white">
+                <div className="text-center">
+                    <h1 className="text-4xl font-bold">404</h1>
+                    <p className="text-xl mt-2">Airport not found.</p>
+                    <p className="text-sm text-gray-400 mt-2">Use the airport&apos;s IATA code, e.g. /airports/WAW.</p>
+                    <Link href="/" className="mt-6 inline-block bg-blue-600 text-white font-bold py-2 px-4 rounded hover:bg-blue-500 transition-colors">
+                        &larr; Back to Map
+                    </Link>
+                </div>
+            </div>
+        );
+    }
+
+    const board = buildAirportBoard(airport, flights);
+    const boardFlights = [...board.arrivals, ...board.departures, ...board.onGround].map(entry => entry.flight);
+
+    return (
+        <div className="flex flex-col md:flex-row h-screen bg-gray-900 text-white">
+            <div className="md:w-2/3 h-1/2 md:h-full">
+                <MapView
+                    flights={boardFlights}
+                    airports={[airport]}
+                    center={[airport.lat, airport.lon]}
+                    zoom={10}
+                    selectedTrack={null}
+                    selectedFlightIcao={null}
+                    isPopupOpen={false}
+                    isFlightDetailsLoading={false}
+                    selectedFlightRoute={null}
+                    flightFilters={boardFilters}
+                    onBoundsChange={() => {}}
+                    onFlightClick={() => {}}
+                    onPopupClose={() => {}}
+                />
+            </div>
+            <div className="md:w-1/3 h-1/2 md:h-full p-4 sm:p-6 lg:p-8 overflow-y-auto">
+                <div className="mb-6">
+                    <Link href="/" className="text-blue-400 hover:text-blue-300 transition-colors">
+                        &larr; Back to Map
+                    </Link>
+                </div>
+                <div className="mb-6">
+                    <h1 className="text-2xl sm:text-3xl font-bold">{airport.name}</h1>
+                    <p className="text-md text-gray-400 mt-1">
+                        {airport.iata} · {airport.country}{airport.size && ` · ${airport.size} ${airport.type}`}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-2">
+                        Inferred from traffic within {DEFAULT_AIRPORT_BOARD_OPTIONS.radiusKm} km below {DEFAULT_AIRPORT_BOARD_OPTIONS.maxAltitudeFt.toLocaleString()} ft
+                        {lastUpdated && ` · updated ${lastUpdated.toLocaleTimeString()}`}
+                    </p>
+                </div>
+                <BoardSection title="Arrivals" entries={board.arrivals} emptyText="No aircraft descending towards the field." showEta />
+                <BoardSection title="Departures" entries={board.departures} emptyText="No aircraft climbing out." />
+                <BoardSection title="On the Ground" entries={board.onGround} emptyText="No aircraft reporting on the ground." />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,11 @@
+import AirportBoardClient from "./AirportBoardClient";
+
+interface PageProps {
+  params: Promise<{ code: string }>;
+}
+
+export default async function AirportPage({ params }: PageProps) {
+  const { code } = await params;
+
+  return <AirportBoardClient code={code} />;
+}
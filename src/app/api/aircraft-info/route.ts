@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getOpenSkyAccessToken } from '@/lib/openskyAuth';
 
 // Simple in-memory cache for API responses
 const apiCache = new Map<string, { data: any; timestamp: number }>();
@@ -26,8 +27,11 @@ async function getOpenSkyInfo(icao24: string): Promise<Partial<AircraftInfo>> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 3000); // 3 second timeout
     
+    // Metadata is public, but authenticated requests get a higher rate limit
+    const token = await getOpenSkyAccessToken().catch(() => null);
     const response = await fetch(`https://opensky-network.org/api/metadata/aircraft/icao/${icao24.toLowerCase()}`, {
       signal: controller.signal,
+      headers: token ? { 'Authorization': `Bearer ${token}` } : undefined,
     });
     
     clearTimeout(timeoutId);
@@ -1,98 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-// The state vector from OpenSky API has a specific structure.
-// We are interested in these indices:
-// 0: icao24
-// 1: callsign (might be flight number or registration)
-// 2: origin_country
-// 8: on_ground
-// See OpenSky API docs for more details.
-type OpenSkyStateVector = [
-  string, // icao24
-  string | null, // callsign
-  string, // origin_country
-  number | null, // time_position
-  number, // last_contact
-  number | null, // longitude
-  number | null, // latitude
-  number | null, // baro_altitude
-  boolean, // on_ground
-  number | null, // velocity
-  number | null, // true_track
-  number | null, // vertical_rate
-  number[] | null, // sensors
-  number | null, // geo_altitude
-  string | null, // squawk
-  boolean, // spi
-  number, // position_source
-  number, // category
-];
-
-// --- Helper function moved directly into the API route file ---
-// This avoids any import/path issues.
-async function getOpenSkyAccessToken(): Promise<string | null> {
-  const clientId = process.env.OPENSKY_CLIENT_ID;
-  const clientSecret = process.env.OPENSKY_CLIENT_SECRET;
-
-  if (!clientId || !clientSecret) {
-    console.error('OpenSky credentials are not set in environment variables.');
-    return null;
-  }
-
-  try {
-    const response = await fetch('https://opensky-network.org/api/auth/v1/token', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: new URLSearchParams({
-        'grant_type': 'client_credentials',
-        'client_id': clientId,
-        'client_secret': clientSecret,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error(`Failed to get OpenSky token: ${response.statusText}`);
-      return null;
-    }
-
-    const data = await response.json();
-    return data.access_token;
-  } catch (error) {
-    console.error('Error fetching OpenSky token:', error);
-    return null;
-  }
+import { getFlightDataProvider } from '@/lib/flightProviders'
+import { isIcao24, normalizeRegistration, resolveRegistrations } from '@/lib/registrationResolver'
+import { flightNumberToCallsigns } from '@/lib/flightNumbers'
+import { getWorldStates } from '@/lib/search'
+import { findSnapshotIcao24ByCallsign } from '@/lib/snapshots'
+
+type TrackedItemType = 'REGISTRATION' | 'FLIGHT_NUMBER'
+
+// The watcher posts here every minute; a world-wide download costs 4 OpenSky
+// credits, so it is shared with search and the emergency banner and refreshed
+// at most this often (under 600 of the 4000 daily credits)
+const WORLD_STATES_MAX_AGE_MS = 10 * 60 * 1000
+// Snapshots are recorded about every minute; an older match may be yesterday's
+// aircraft on the same flight number
+const CALLSIGN_SNAPSHOT_MAX_AGE_SECONDS = 15 * 60
+
+type TrackedItemStatus = {
+  icao24: string
+  callsign: string | null
+  on_ground: boolean
+  origin_country: string
 }
-// --- End of helper function ---
 
 export async function POST(request: Request) {
   try {
     const body = await request.json();
     const { items, icao24, fetchAll } = body;
 
-    const token = await getOpenSkyAccessToken();
-    if (!token) {
-      return NextResponse.json({ error: 'Could not authenticate with OpenSky' }, { status: 500 });
-    }
-    const headers = new Headers({ 'Authorization': `Bearer ${token}` });
+    const provider = getFlightDataProvider();
 
     if (fetchAll) {
       // --- Fetch All Airborne Aircraft ---
-      const response = await fetch('https://opensky-network.org/api/states/all', { headers });
-      if (!response.ok) {
-        return NextResponse.json({ error: 'Failed to fetch all states from OpenSky' }, { status: response.status });
-      }
-      const data = await response.json();
-      const allStates: OpenSkyStateVector[] = data.states || [];
+      const allStates = await getWorldStates(WORLD_STATES_MAX_AGE_MS);
 
       const airborneStates = allStates
-        .filter(state => !state[8] && state[5] && state[6]) // Filter for aircraft that are not on ground and have position
+        .filter(state => !state.on_ground && state.longitude && state.latitude) // Filter for aircraft that are not on ground and have position
         .map(state => ({
-          icao24: state[0],
-          callsign: state[1],
-          longitude: state[5],
-          latitude: state[6],
-          true_track: state[10],
-          on_ground: state[8]
+          icao24: state.icao24,
+          callsign: state.callsign,
+          longitude: state.longitude,
+          latitude: state.latitude,
+          true_track: state.true_track,
+          on_ground: state.on_ground
         }));
       
       return NextResponse.json(airborneStates);
@@ -100,72 +49,69 @@ export async function POST(request: Request) {
     
     if (icao24) {
       // --- Single Aircraft Detail Fetch ---
-      const response = await fetch(`https://opensky-network.org/api/states/all?icao24=${icao24}`, {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
-
-      if (!response.ok) {
-        return NextResponse.json({ error: 'Failed to fetch data from OpenSky' }, { status: response.status });
-      }
-      
-      const data = await response.json();
+      const states = await provider.fetchStatesByIcao24([icao24]);
       
-      if (!data.states || data.states.length === 0) {
+      if (states.length === 0) {
         return NextResponse.json({ error: 'No state vector found for this aircraft.' }, { status: 404 });
       }
 
       // Return the detailed state vector for the single aircraft
-      const state = data.states[0];
-      const flightDetails = {
-        icao24: state[0]?.trim(),
-        callsign: state[1]?.trim(),
-        origin_country: state[2],
-        time_position: state[3],
-        last_contact: state[4],
-        longitude: state[5],
-        latitude: state[6],
-        baro_altitude: state[7],
-        on_ground: state[8],
-        velocity: state[9],
-        true_track: state[10], // Flight direction in degrees
-        vertical_rate: state[11],
-        sensors: state[12],
-        geo_altitude: state[13],
-        spi: state[14],
-        position_source: state[15],
-      };
-
-      return NextResponse.json(flightDetails);
+      return NextResponse.json(states[0]);
 
     } else if (items) {
       // --- Batch Status Fetch for List View ---
-      const response = await fetch('https://opensky-network.org/api/states/all', { headers });
-
-      if (!response.ok) {
-        return NextResponse.json({ error: `Failed to fetch from OpenSky: ${response.statusText}` }, { status: response.status });
+      // Items are { type, value }; plain strings (older clients) may be either kind
+      const trackedItems: { type: TrackedItemType | null; key: string; value: string }[] = items.map((item: string | { type: TrackedItemType; value: string }) => {
+        const value = typeof item === 'string' ? item : item.value;
+        return { type: typeof item === 'string' ? null : item.type, key: normalizeRegistration(value), value };
+      });
+      const registrations = trackedItems.filter(item => item.type !== 'FLIGHT_NUMBER');
+      const flightNumbers = trackedItems.filter(item => item.type !== 'REGISTRATION');
+
+      const resolved = await resolveRegistrations(registrations.map(item => item.value));
+      const icao24ByKey = new Map<string, string>();
+      for (const item of registrations) {
+        const icao24 = resolved.get(item.key) ?? (isIcao24(item.key) ? item.key.toLowerCase() : null);
+        if (icao24) icao24ByKey.set(item.key, icao24);
       }
-      const data = await response.json();
-      const allStates = data.states || [];
-      const statuses: { [key: string]: any } = {};
-      const cleanedTrackedItems = items.map((r: string) => r.replace(/[^A-Z0-9]/gi, '').toUpperCase());
 
-      for (const state of allStates) {
-        const callsign = state[1]?.trim().toUpperCase() || '';
-        const registration = state[0]?.trim().toUpperCase() || '';
-        if (cleanedTrackedItems.includes(callsign) || cleanedTrackedItems.includes(registration)) {
-          const status = {
-            icao24: state[0]?.trim(), callsign: state[1]?.trim(),
-            on_ground: state[8], origin_country: state[2],
+      // Recent snapshots name the aircraft flying a callsign, so most flight
+      // numbers are checked with the tracked hex codes instead of every
+      // aircraft in the air; its live callsign still has to match
+      const callsignsByKey = new Map(flightNumbers.map(item => [item.key, flightNumberToCallsigns(item.value)]));
+      const recorded = await Promise.all(
+        [...callsignsByKey.values()].map(callsigns => findSnapshotIcao24ByCallsign(callsigns, CALLSIGN_SNAPSHOT_MAX_AGE_SECONDS))
+      );
+      const trackedStates = await provider.fetchStatesByIcao24([
+        ...new Set([...icao24ByKey.values(), ...recorded.filter((icao24): icao24 is string => icao24 !== null)]),
+      ]);
+      const trackedCallsigns = new Set(trackedStates.map(state => state.callsign?.trim().toUpperCase()));
+      const unmatched = [...callsignsByKey.values()].filter(callsigns => !callsigns.some(callsign => trackedCallsigns.has(callsign)));
+      // The rest can only be matched against everything in the air
+      const states = unmatched.length > 0
+        ? [...trackedStates, ...await getWorldStates(WORLD_STATES_MAX_AGE_MS)]
+        : trackedStates;
+      const statesByIcao24 = new Map(states.map(state => [state.icao24.toLowerCase(), state]));
+      const statesByCallsign = new Map(states.filter(state => state.callsign).map(state => [state.callsign!.trim().toUpperCase(), state]));
+
+      const statuses: { [key: string]: TrackedItemStatus } = {};
+      for (const item of trackedItems) {
+        const icao24 = item.type !== 'FLIGHT_NUMBER' ? icao24ByKey.get(item.key) : undefined;
+        // Flight numbers are usually typed with the IATA prefix (W61699) while
+        // aircraft broadcast the ICAO one (WZZ1699)
+        const state = (icao24 && statesByIcao24.get(icao24)) || (item.type !== 'REGISTRATION'
+          ? flightNumberToCallsigns(item.value).map(callsign => statesByCallsign.get(callsign)).find(Boolean)
+          : undefined);
+        if (state) {
+          statuses[item.key] = {
+            icao24: state.icao24, callsign: state.callsign,
+            on_ground: state.on_ground, origin_country: state.origin_country,
           };
-          if(cleanedTrackedItems.includes(callsign)) statuses[callsign] = status;
-          if(cleanedTrackedItems.includes(registration)) statuses[registration] = status;
         }
       }
       return NextResponse.json({
         statuses: statuses,
-        diagnostics: { totalStatesReceived: allStates.length, timestamp: new Date().toISOString() }
+        diagnostics: { totalStatesReceived: states.length, timestamp: new Date().toISOString() }
       });
 
     } else {
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedCronRequest } from '@/lib/cronAuth'
+import { dispatchNotifications } from '@/lib/notifications'
+
+// Called by the flight-status-checker function right after it records status
+// changes, and by the scheduler every minute or so to retry failed deliveries.
+export async function POST(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await dispatchNotifications();
+    if (!result) {
+      return NextResponse.json({ error: 'Notifications are not configured' }, { status: 503 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error in notifications dispatch API:', error);
+    return NextResponse.json({ error: 'Failed to dispatch notifications' }, { status: 500 });
+  }
+}
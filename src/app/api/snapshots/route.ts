@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedCronRequest } from '@/lib/cronAuth'
+import { recordFlightSnapshots, applySnapshotRetention } from '@/lib/snapshots'
+
+// Called by the scheduler every minute or so to record flight states for the
+// configured regions and run takeoff/landing detection and watch areas on them. Pass
+// { "retention": true } (e.g. hourly) to also prune and downsample old snapshots.
+export async function POST(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const result = await recordFlightSnapshots();
+    const removed = body.retention ? await applySnapshotRetention() : null;
+
+    return NextResponse.json({ ...result, removed });
+  } catch (error) {
+    console.error('Error in snapshots API:', error);
+    return NextResponse.json({ error: 'Failed to record snapshots' }, { status: 500 });
+  }
+}
@@ -1,18 +1,12 @@
-'use client';
+import { redirect } from 'next/navigation';
 
-import React from 'react';
-import FlightDetailsClient from "./FlightDetailsClient";
-
-// This is now a very simple Server Component.
-// Its only job is to get the `icao` from the URL and pass it to the Client Component.
 interface PageProps {
   params: Promise<{ icao: string }>;
 }
 
+// Aircraft pages live at /flight/[icao24]; kept for links in notifications
+// sent before the move
 export default async function FlightDetailsPage({ params }: PageProps) {
   const { icao } = await params;
-  
-  console.log('Page component: ICAO from params:', icao);
-  
-  return <FlightDetailsClient icao={icao} />;
-}
\ No newline at end of file
+  redirect(`/flight/${icao}`);
+}
@@ -3,9 +3,13 @@
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
-import { FlightState, AircraftMetadata, FlightTrackPoint } from '@/types';
+import { FlightState, AircraftMetadata, FlightTrackPoint, AircraftFlight } from '@/types';
 import { FlightFilters } from '@/components/ClientMap';
-import { fetchLatestFlightState, fetchAircraftMetadata, fetchFlightTrack } from '@/app/actions';
+import FlightProfileCharts from '@/components/FlightProfileCharts';
+import { fetchLatestFlightState, fetchAircraftMetadata, fetchFlightTrack, fetchFlightEvents, fetchLastKnownFlightState, fetchRecentFlights } from '@/app/actions';
+import { ALL_POSITION_SOURCES, getPositionSourceInfo } from '@/lib/positionSource';
+import { FlightEvent } from '@/lib/flightEvents/types';
+import { describeSquawkChange, getSquawkAlert, isEmergencySquawk } from '@/lib/squawk';
 
 const MapView = dynamic(() => import('@/components/MapView'), { 
   ssr: false,
@@ -16,6 +20,30 @@ interface FlightDetailsClientProps {
     icao: string;
 }
 
+const formatDuration = (seconds: number): string => {
+    const minutes = Math.round(seconds / 60);
+    return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+const RecentFlights = ({ flights }: { flights: AircraftFlight[] }) => (
+    <div>
+        <p className="text-sm text-gray-400 uppercase tracking-wider mb-2">Recent Flights</p>
+        <ul className="space-y-2 text-sm">
+            {flights.map(recent => (
+                <li key={`${recent.firstSeen}-${recent.callsign}`} className="flex justify-between gap-4">
+                    <span>
+                        <span className="font-semibold text-white">{recent.callsign || 'Unknown'}</span>
+                        <span className="text-gray-300 ml-2">{recent.departureAirport ?? '?'} &rarr; {recent.arrivalAirport ?? '?'}</span>
+                    </span>
+                    <span className="text-gray-500 shrink-0">
+                        {new Date(recent.firstSeen * 1000).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })} · {formatDuration(recent.lastSeen - recent.firstSeen)}
+                    </span>
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
 // Function to get readable aircraft name from model code
 const getReadableAircraftName = (model: string | null, manufacturer?: string | null): string => {
   if (!model) return 'Unknown Aircraft';
@@ -145,6 +173,11 @@ export default function FlightDetailsClient({ icao }: FlightDetailsClientProps)
     const [flight, setFlight] = useState<FlightState | null>(null);
     const [metadata, setMetadata] = useState<AircraftMetadata | null>(null);
     const [track, setTrack] = useState<FlightTrackPoint[] | null>(null);
+    const [squawkHistory, setSquawkHistory] = useState<FlightEvent[]>([]);
+    const [recentFlights, setRecentFlights] = useState<AircraftFlight[]>([]);
+    // False while showing the last recorded state of an aircraft that isn't reporting
+    const [isLive, setIsLive] = useState(false);
+    const [hoveredTrackPoint, setHoveredTrackPoint] = useState<FlightTrackPoint | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
@@ -160,27 +193,29 @@ export default function FlightDetailsClient({ icao }: FlightDetailsClientProps)
                 setError(null);
                 
                 // Use Promise.all to fetch data concurrently
-                const [flightData, trackData] = await Promise.all([
+                const [liveData, trackData, recentFlightsData] = await Promise.all([
                     fetchLatestFlightState(icao),
-                    fetchFlightTrack(icao)
+                    fetchFlightTrack(icao),
+                    fetchRecentFlights(icao)
                 ]);
                 
                 if (!isMounted) return;
                 
-                // Fetch metadata after we have flight data
-                let metadataData = null;
-                if (flightData) {
-                    // First try to get metadata with ICAO24
-                    metadataData = await fetchAircraftMetadata(icao, flightData?.callsign || null, flightData?.callsign || null);
-                    
-                    if (!isMounted) return;
-                    
-                    // If no registration found, try with callsign as registration
-                    if (!metadataData?.registration || metadataData.registration === 'Unknown') {
-                        if (flightData?.callsign) {
-                            console.log('FlightDetailsClient: No registration found, trying with callsign as registration');
-                            metadataData = await fetchAircraftMetadata(icao, flightData.callsign, flightData.callsign);
-                        }
+                // Not reporting right now: fall back to the last recorded position
+                const flightData = liveData ?? await fetchLastKnownFlightState(icao);
+                
+                if (!isMounted) return;
+                
+                // First try to get metadata with ICAO24
+                let metadataData = await fetchAircraftMetadata(icao, flightData?.callsign || null, flightData?.callsign || null);
+                
+                if (!isMounted) return;
+                
+                // If no registration found, try with callsign as registration
+                if (!metadataData?.registration || metadataData.registration === 'Unknown') {
+                    if (flightData?.callsign) {
+                        console.log('FlightDetailsClient: No registration found, trying with callsign as registration');
+                        metadataData = await fetchAircraftMetadata(icao, flightData.callsign, flightData.callsign);
                     }
                 }
                 
@@ -193,8 +228,10 @@ export default function FlightDetailsClient({ icao }: FlightDetailsClientProps)
                 console.log('FlightDetailsClient: Track data:', trackData);
                 
                 setFlight(flightData);
+                setIsLive(liveData !== null);
                 setMetadata(metadataData);
                 setTrack(trackData);
+                setRecentFlights(recentFlightsData);
                 setIsLoading(false);
             } catch (error) {
                 console.error('FlightDetailsClient: Error fetching data:', error);
@@ -216,6 +253,17 @@ export default function FlightDetailsClient({ icao }: FlightDetailsClientProps)
         };
     }, [icao]);
 
+    // Squawk changes recorded by the event detector, newest first
+    useEffect(() => {
+        let isMounted = true;
+        fetchFlightEvents(icao).then(events => {
+            if (isMounted) setSquawkHistory(events.filter(event => event.type === 'SQUAWK_CHANGE' && event.squawk));
+        });
+        return () => {
+            isMounted = false;
+        };
+    }, [icao]);
+
     // Separate effect for periodic updates
     useEffect(() => {
         if (!flight) return; // Only start interval if we have flight data
@@ -232,7 +280,10 @@ export default function FlightDetailsClient({ icao }: FlightDetailsClientProps)
                 ]);
                 
                 if (isMounted) {
-                    if (flightData) setFlight(flightData);
+                    if (flightData) {
+                        setFlight(flightData);
+                        setIsLive(true);
+                    }
                     if (trackData) setTrack(trackData);
                 }
             } catch (error) {
@@ -265,24 +316,25 @@ export default function FlightDetailsClient({ icao }: FlightDetailsClientProps)
     }
 
     if (!flight) {
-        // Fallback: jeśli nie ma aktywnego lotu, ale mamy metadane z rejestracji
-        if (metadata && metadata.registration && metadata.registration !== 'Unknown') {
+        // Fallback: brak aktywnego lotu i zapisanej pozycji, ale mamy metadane z rejestracji lub ostatnie loty
+        const hasRegistration = metadata?.registration && metadata.registration !== 'Unknown';
+        if (hasRegistration || recentFlights.length > 0) {
             return (
                 <div className="flex flex-col items-center justify-center h-screen bg-gray-900 text-white">
                     <div className="text-center max-w-2xl mx-auto p-8">
                         <h1 className="text-3xl font-bold mb-4">Aircraft Information</h1>
-                        <p className="text-xl mb-6">This aircraft is not currently in flight, but we have registration data.</p>
+                        <p className="text-xl mb-6">This aircraft is not currently in flight and has no recorded position.</p>
                         
                         <div className="bg-gray-800 rounded-lg p-6 mb-6">
-                            <h2 className="text-2xl font-bold mb-4">Registration: {metadata.registration}</h2>
-                            {metadata.model && (
+                            <h2 className="text-2xl font-bold mb-4">{hasRegistration ? `Registration: ${metadata?.registration}` : `ICAO24: ${icao}`}</h2>
+                            {metadata?.model && (
                                 <p className="text-lg text-gray-300 mb-2">
                                     Model: {getReadableAircraftName(metadata.model, metadata.manufacturer)}
                                 </p>
                             )}
                             
                             {/* Aircraft Image */}
-                            {metadata.photoUrl && metadata.photoUrl.trim() !== '' && (
+                            {metadata?.photoUrl && metadata.photoUrl.trim() !== '' && (
                                 <div className="mt-4">
                                     <img 
                                         src={metadata.photoUrl} 
@@ -294,6 +346,12 @@ export default function FlightDetailsClient({ icao }: FlightDetailsClientProps)
                                     />
                                 </div>
                             )}
+                            
+                            {recentFlights.length > 0 && (
+                                <div className="mt-6 text-left">
+                                    <RecentFlights flights={recentFlights} />
+                                </div>
+                            )}
                         </div>
                         
                         <Link href="/" className="inline-block bg-blue-600 text-white font-bold py-2 px-4 rounded hover:bg-blue-500 transition-colors">
@@ -308,8 +366,8 @@ export default function FlightDetailsClient({ icao }: FlightDetailsClientProps)
              <div className="flex flex-col items-center justify-center h-screen bg-gray-900 text-white">
                 <div className="text-center">
                     <h1 className="text-4xl font-bold">404</h1>
-                    <p className="text-xl mt-2">Flight not found.</p>
-                    <p className="text-sm text-gray-400 mt-2">This aircraft may not be currently in flight or the ICAO24 code may be incorrect.</p>
+                    <p className="text-xl mt-2">Aircraft not found.</p>
+                    <p className="text-sm text-gray-400 mt-2">No aircraft matches &quot;{icao}&quot; as an ICAO24 code, registration or callsign.</p>
                     <Link href="/" className="mt-6 inline-block bg-blue-600 text-white font-bold py-2 px-4 rounded hover:bg-blue-500 transition-colors">
                         &larr; Back to Map
                     </Link>
@@ -319,12 +377,18 @@ export default function FlightDetailsClient({ icao }: FlightDetailsClientProps)
     }
 
     const center: [number, number] = [flight.latitude, flight.longitude];
+    const positionSource = getPositionSourceInfo(flight.position_source);
+    const squawkAlert = getSquawkAlert(flight);
 
     // Default flight filters for details page
     const defaultFilters: FlightFilters = {
         hideOnGround: false,
         category: 'all',
         minAltitude: 0,
+        positionSources: ALL_POSITION_SOURCES,
+        animateAircraft: false,
+        maxExtrapolationSeconds: 0,
+        clusterAircraft: false,
         showLabels: true,
         showAirlineLogos: true,
         showFlightNumbers: true,
@@ -350,6 +414,7 @@ export default function FlightDetailsClient({ icao }: FlightDetailsClientProps)
                     onBoundsChange={() => {}}
                     onFlightClick={() => {}}
                     onPopupClose={() => {}}
+                    highlightedPoint={hoveredTrackPoint}
                 />
             </div>
             <div className="md:w-1/3 h-1/2 md:h-full p-4 sm:p-6 lg:p-8 overflow-y-auto">
@@ -359,6 +424,11 @@ export default function FlightDetailsClient({ icao }: FlightDetailsClientProps)
                     </Link>
                 </div>
                 <div className="bg-gray-800 shadow-xl rounded-lg overflow-hidden">
+                    {!isLive && (
+                        <div className="px-6 py-3 bg-yellow-900/60 text-yellow-200 text-sm">
+                            Not reporting right now. Last seen {new Date(flight.last_contact * 1000).toLocaleString()}.
+                        </div>
+                    )}
                     <div className="p-6 border-b border-gray-700">
                         <h1 className="text-2xl sm:text-3xl font-bold text-white">
                             {flight.callsign || 'Unknown Callsign'}
@@ -469,7 +539,62 @@ export default function FlightDetailsClient({ icao }: FlightDetailsClientProps)
                                 <p className="text-xl font-semibold text-white">{flight.origin_country}</p>
                             </div>
                         </div>
+                        <div className="flex flex-col col-span-2">
+                            <p className="text-sm text-gray-400 uppercase tracking-wider">Squawk</p>
+                            <p className="text-xl font-semibold text-white mt-1">
+                                {flight.squawk ?? 'N/A'}
+                                {squawkAlert && (
+                                    <span className="text-sm font-bold ml-2" style={{ color: squawkAlert.color }}>{squawkAlert.label}</span>
+                                )}
+                            </p>
+                        </div>
+                        <div className="flex flex-col col-span-2">
+                            <p className="text-sm text-gray-400 uppercase tracking-wider">Position Source</p>
+                            {positionSource ? (
+                                <>
+                                    <p className="text-xl font-semibold mt-1" style={{ color: positionSource.color }}>
+                                        {positionSource.label}
+                                        {!positionSource.precise && (
+                                            <span className="text-sm font-normal text-yellow-400 ml-2">(reduced accuracy)</span>
+                                        )}
+                                    </p>
+                                    <p className="text-sm text-gray-500 mt-1">{positionSource.description}</p>
+                                </>
+                            ) : (
+                                <p className="text-xl font-semibold text-white mt-1">N/A</p>
+                            )}
+                            {flight.sensors && flight.sensors.length > 0 && (
+                                <p className="text-sm text-gray-500 mt-1">
+                                    Received by {flight.sensors.length} {flight.sensors.length === 1 ? 'sensor' : 'sensors'}: {flight.sensors.join(', ')}
+                                </p>
+                            )}
+                        </div>
                     </div>
+                    {track && track.length > 1 && (
+                        <div className="p-6 border-t border-gray-700">
+                            <FlightProfileCharts track={track} onHover={setHoveredTrackPoint} />
+                        </div>
+                    )}
+                    {squawkHistory.length > 0 && (
+                        <div className="p-6 border-t border-gray-700">
+                            <p className="text-sm text-gray-400 uppercase tracking-wider mb-2">Squawk History</p>
+                            <ul className="space-y-1 text-sm">
+                                {squawkHistory.map(event => (
+                                    <li key={event.id} className="flex justify-between gap-4">
+                                        <span className={isEmergencySquawk(event.squawk) ? 'font-semibold text-red-400' : 'text-gray-300'}>
+                                            {describeSquawkChange(event.previousSquawk, event.squawk!)}
+                                        </span>
+                                        <span className="text-gray-500 shrink-0">{new Date(event.time * 1000).toLocaleString()}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {recentFlights.length > 0 && (
+                        <div className="p-6 border-t border-gray-700">
+                            <RecentFlights flights={recentFlights} />
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
@@ -0,0 +1,19 @@
+import { redirect } from 'next/navigation';
+import FlightDetailsClient from "./FlightDetailsClient";
+import { resolveAircraftIdentifier } from '@/lib/aircraftLookup';
+
+interface PageProps {
+  params: Promise<{ icao24: string }>;
+}
+
+// Also reachable by registration or callsign (/flight/SP-LRD, /flight/LOT282),
+// which redirect to the aircraft's icao24 so the address always names the airframe
+export default async function AircraftPage({ params }: PageProps) {
+  const identifier = decodeURIComponent((await params).icao24);
+  const resolved = await resolveAircraftIdentifier(identifier);
+
+  if (resolved && resolved.icao24 !== identifier) {
+    redirect(`/flight/${resolved.icao24}`);
+  }
+  return <FlightDetailsClient icao={resolved?.icao24 ?? identifier} />;
+}
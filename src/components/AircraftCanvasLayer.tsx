@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { FlightState } from '../types';
+import { getAircraftIconStyle, ARROW_UP_PATH, ARROW_DOWN_PATH } from '../lib/aircraftIconStyle';
+import { getPositionSourceInfo } from '../lib/positionSource';
+
+interface AircraftCanvasLayerProps {
+  flights: FlightState[];
+  // ADS-B emitter category from the aircraft info cache, used for sizing
+  getCategory: (icao24: string) => string | null | undefined;
+  selectedFlightIcao: string | null;
+  onFlightClick: (flight: FlightState) => void;
+  onFlightHover: (flight: FlightState | null) => void;
+}
+
+interface HitTarget {
+  flight: FlightState;
+  x: number;
+  y: number;
+  radius: number;
+}
+
+// Aircraft just outside the viewport are still drawn so they don't pop in while panning
+const VIEWPORT_MARGIN = 50;
+// Fingers are less precise than a mouse, so taps reach a bit past the icon
+const TOUCH_HIT_PADDING = 12;
+// A touch that moves less than this is a tap; Leaflet already treats a 3 px
+// move as a drag and drops the click
+const TAP_TOLERANCE = 10;
+
+// Draws every aircraft onto a single canvas instead of one DOM marker each.
+// Sizes, climb/descent arrows and position source styling match airplaneIcon.
+export default function AircraftCanvasLayer({ flights, getCategory, selectedFlightIcao, onFlightClick, onFlightHover }: AircraftCanvasLayerProps) {
+  const map = useMap();
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const spriteRef = useRef<HTMLImageElement | null>(null);
+  const hitTargetsRef = useRef<HitTarget[]>([]);
+  const hoveredIcaoRef = useRef<string | null>(null);
+  const drawRef = useRef<() => void>(() => {});
+  const callbacksRef = useRef({ onFlightClick, onFlightHover });
+
+  callbacksRef.current = { onFlightClick, onFlightHover };
+
+  drawRef.current = () => {
+    const canvas = canvasRef.current;
+    const sprite = spriteRef.current;
+    if (!canvas || !sprite || !sprite.complete) return;
+
+    const size = map.getSize();
+    const pixelRatio = window.devicePixelRatio || 1;
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+    if (canvas.width !== size.x * pixelRatio || canvas.height !== size.y * pixelRatio) {
+      canvas.width = size.x * pixelRatio;
+      canvas.height = size.y * pixelRatio;
+      canvas.style.width = `${size.x}px`;
+      canvas.style.height = `${size.y}px`;
+    }
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, size.x, size.y);
+
+    const arrowUp = new Path2D(ARROW_UP_PATH);
+    const arrowDown = new Path2D(ARROW_DOWN_PATH);
+    const targets: HitTarget[] = [];
+
+    // Selected aircraft last, so it's drawn (and hit-tested) on top
+    const ordered = selectedFlightIcao
+      ? [...flights.filter(f => f.icao24 !== selectedFlightIcao), ...flights.filter(f => f.icao24 === selectedFlightIcao)]
+      : flights;
+
+    for (const flight of ordered) {
+      const point = map.latLngToContainerPoint([flight.latitude, flight.longitude]);
+      if (point.x < -VIEWPORT_MARGIN || point.y < -VIEWPORT_MARGIN || point.x > size.x + VIEWPORT_MARGIN || point.y > size.y + VIEWPORT_MARGIN) {
+        continue;
+      }
+
+      const { size: iconSize, arrowDirection, arrowColor, arrowSize } = getAircraftIconStyle(flight, getCategory(flight.icao24));
+      const positionSource = getPositionSourceInfo(flight.position_source);
+      const isApproximate = positionSource !== null && !positionSource.precise;
+      const half = iconSize / 2;
+
+      if (flight.icao24 === selectedFlightIcao) {
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, half + 6, 0, Math.PI * 2);
+        ctx.fillStyle = 'rgba(249, 115, 22, 0.25)';
+        ctx.fill();
+      }
+
+      if (isApproximate) {
+        ctx.beginPath();
+        ctx.setLineDash([4, 3]);
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = positionSource.color;
+        ctx.arc(point.x, point.y, half + 3, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+
+      ctx.save();
+      ctx.translate(point.x, point.y);
+      ctx.rotate(((flight.true_track || 0) * Math.PI) / 180);
+      ctx.globalAlpha = isApproximate ? 0.7 : 1;
+      ctx.drawImage(sprite, -half, -half, iconSize, iconSize);
+      ctx.restore();
+
+      if (arrowDirection !== 'none') {
+        ctx.save();
+        ctx.translate(point.x + half + 4, point.y - arrowSize / 2);
+        ctx.scale(arrowSize / 24, arrowSize / 24);
+        ctx.fillStyle = arrowColor;
+        ctx.fill(arrowDirection === 'up' ? arrowUp : arrowDown);
+        ctx.restore();
+      }
+
+      if (positionSource?.badge) {
+        ctx.beginPath();
+        ctx.arc(point.x - half, point.y - half, 6, 0, Math.PI * 2);
+        ctx.fillStyle = positionSource.color;
+        ctx.fill();
+        ctx.fillStyle = 'white';
+        ctx.font = 'bold 8px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(positionSource.badge, point.x - half, point.y - half);
+      }
+
+      targets.push({ flight, x: point.x, y: point.y, radius: half + 2 });
+    }
+
+    hitTargetsRef.current = targets;
+  };
+
+  // Create the canvas once and keep it in sync with the map
+  useEffect(() => {
+    const canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide') as HTMLCanvasElement;
+    canvas.style.pointerEvents = 'none';
+    map.getPanes().overlayPane.appendChild(canvas);
+    canvasRef.current = canvas;
+
+    const sprite = new Image();
+    sprite.onload = () => drawRef.current();
+    sprite.src = '/plane.png';
+    spriteRef.current = sprite;
+
+    // Topmost aircraft under the pointer; with padding (touch) the closest one
+    // within reach, since a finger easily covers several icons
+    const hitTest = (containerPoint: L.Point, padding = 0): FlightState | null => {
+      const targets = hitTargetsRef.current;
+      let best: FlightState | null = null;
+      let bestDistance = Infinity;
+      for (let i = targets.length - 1; i >= 0; i--) {
+        const target = targets[i];
+        const dx = containerPoint.x - target.x;
+        const dy = containerPoint.y - target.y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance > target.radius + padding) continue;
+        if (padding === 0) return target.flight;
+        if (distance < bestDistance) {
+          best = target.flight;
+          bestDistance = distance;
+        }
+      }
+      return best;
+    };
+
+    // Touch and pen taps are handled on pointerup, mouse clicks through Leaflet
+    let pointerDown: { type: string; x: number; y: number } | null = null;
+    const handlePointerDown = (e: PointerEvent) => {
+      // A second finger means a pinch, not a tap
+      pointerDown = e.isPrimary ? { type: e.pointerType, x: e.clientX, y: e.clientY } : null;
+    };
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!pointerDown || pointerDown.type === 'mouse' || !e.isPrimary) return;
+      const moved = Math.hypot(e.clientX - pointerDown.x, e.clientY - pointerDown.y);
+      if (moved > TAP_TOLERANCE) return;
+      const flight = hitTest(map.mouseEventToContainerPoint(e), TOUCH_HIT_PADDING);
+      if (flight) callbacksRef.current.onFlightClick(flight);
+    };
+
+    const setHovered = (flight: FlightState | null) => {
+      const icao24 = flight?.icao24 ?? null;
+      if (icao24 === hoveredIcaoRef.current) return;
+      hoveredIcaoRef.current = icao24;
+      map.getContainer().style.cursor = flight ? 'pointer' : '';
+      callbacksRef.current.onFlightHover(flight);
+    };
+
+    const handleRedraw = () => drawRef.current();
+    const handleMouseMove = (e: L.LeafletMouseEvent) => setHovered(hitTest(e.containerPoint));
+    const handleMouseOut = () => setHovered(null);
+    const handleClick = (e: L.LeafletMouseEvent) => {
+      // Browsers without pointer events leave pointerDown unset and select here
+      if (pointerDown && pointerDown.type !== 'mouse') return;
+      const flight = hitTest(e.containerPoint);
+      if (flight) callbacksRef.current.onFlightClick(flight);
+    };
+
+    map.on('moveend zoomend resize viewreset', handleRedraw);
+    map.on('mousemove', handleMouseMove);
+    map.on('mouseout', handleMouseOut);
+    map.on('click', handleClick);
+    map.getContainer().addEventListener('pointerdown', handlePointerDown);
+    map.getContainer().addEventListener('pointerup', handlePointerUp);
+
+    return () => {
+      map.off('moveend zoomend resize viewreset', handleRedraw);
+      map.off('mousemove', handleMouseMove);
+      map.off('mouseout', handleMouseOut);
+      map.off('click', handleClick);
+      map.getContainer().removeEventListener('pointerdown', handlePointerDown);
+      map.getContainer().removeEventListener('pointerup', handlePointerUp);
+      map.getContainer().style.cursor = '';
+      canvas.remove();
+      canvasRef.current = null;
+    };
+  }, [map]);
+
+  // Redraw whenever the flights (or their animated positions) change
+  useEffect(() => {
+    drawRef.current();
+  });
+
+  return null;
+}
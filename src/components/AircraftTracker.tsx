@@ -5,6 +5,9 @@ import { Session } from '@supabase/supabase-js'
 import { createClient } from '@/utils/supabase/client'
 import { FiLoader, FiCheckCircle, FiXCircle, FiInfo, FiBell, FiBellOff } from 'react-icons/fi';
 import Link from 'next/link';
+import NotificationSettings from './NotificationSettings';
+import EmergencyAlertSettings from './EmergencyAlertSettings';
+import { flightNumberToCallsigns } from '../lib/flightNumbers';
 
 type TrackedItem = {
   id: number
@@ -40,6 +43,7 @@ export default function AircraftTracker({ session }: { session: Session }) {
   const [newItemValue, setNewItemValue] = useState('')
   const [newItemType, setNewItemType] = useState<'REGISTRATION' | 'FLIGHT_NUMBER'>('REGISTRATION')
   const [diagnostics, setDiagnostics] = useState<{ totalStatesReceived: number, timestamp: string } | null>(null)
+  const [settingsItem, setSettingsItem] = useState<TrackedItem | null>(null)
   const user = session.user
 
   const getFlightStatuses = useCallback(async (items: TrackedItem[]) => {
@@ -47,14 +51,14 @@ export default function AircraftTracker({ session }: { session: Session }) {
     
     setLoadingStatuses(true);
     try {
-      const itemValues = items.map(item => item.value);
+      const trackedItems = items.map(({ type, value }) => ({ type, value }));
 
       const response = await fetch('/api/flight-status', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ items: itemValues }),
+        body: JSON.stringify({ items: trackedItems }),
       });
 
       if (!response.ok) {
@@ -164,24 +168,12 @@ export default function AircraftTracker({ session }: { session: Session }) {
     }
   }
 
-  async function handleToggleNotify(id: number, currentValue: boolean) {
-    try {
-      const { error } = await supabase
-        .from('tracked_items')
-        .update({ notify_on_land: !currentValue })
-        .eq('id', id)
-        .eq('user_id', user.id)
-
-      if (error) throw error;
-
-      setItemList(currentList =>
-        currentList.map(item =>
-          item.id === id ? { ...item, notify_on_land: !currentValue } : item
-        )
-      );
-    } catch (error: any) {
-      alert('Error updating notification preference: ' + error.message);
-    }
+  function handleNotificationsSaved(id: number, notifyOnLand: boolean) {
+    setItemList(currentList =>
+      currentList.map(item =>
+        item.id === id ? { ...item, notify_on_land: notifyOnLand } : item
+      )
+    );
   }
 
   return (
@@ -199,7 +191,7 @@ export default function AircraftTracker({ session }: { session: Session }) {
               <input
                 id="itemValue"
                 type="text"
-                placeholder={newItemType === 'REGISTRATION' ? 'e.g., SP-LRD' : 'e.g., WZZ61699'}
+                placeholder={newItemType === 'REGISTRATION' ? 'e.g., SP-LRD' : 'e.g., W61699 or WZZ1699'}
                 value={newItemValue}
                 onChange={(e) => setNewItemValue(e.target.value)}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
@@ -250,20 +242,28 @@ export default function AircraftTracker({ session }: { session: Session }) {
             {itemList.map((item) => {
               const cleanedValue = item.value.replace(/[^A-Z0-9]/gi, '').toUpperCase();
               const status = statuses[cleanedValue];
-              const hasDetails = status && status.icao24;
+              // Callsign the flight broadcasts, e.g. WZZ1699 for W61699
+              const callsign = status?.callsign?.trim() || (item.type === 'FLIGHT_NUMBER' ? flightNumberToCallsigns(item.value)[0] : null);
 
               const cardContent = (
                 <div className="bg-white p-4 rounded-xl shadow-lg border border-gray-200 transition hover:shadow-xl hover:border-blue-300">
                   <div className="flex justify-between items-start">
                     <div>
                       <p className="font-mono text-lg font-bold text-gray-900">{item.value}</p>
-                      <p className="text-xs font-semibold uppercase text-gray-400">{item.type.replace('_', ' ')}</p>
+                      <p className="text-xs font-semibold uppercase text-gray-400">
+                        {item.type.replace('_', ' ')}
+                        {item.type === 'FLIGHT_NUMBER' && callsign && callsign !== cleanedValue && <span className="font-mono normal-case"> · {callsign}</span>}
+                      </p>
                     </div>
                     <div className="flex items-center gap-1">
                       <button
-                        onClick={() => handleToggleNotify(item.id, item.notify_on_land)}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          e.preventDefault();
+                          setSettingsItem(item)
+                        }}
                         className={`p-2 rounded-full transition ${item.notify_on_land ? 'text-blue-600 bg-blue-50 hover:bg-blue-100' : 'text-gray-400 hover:bg-gray-100'}`}
-                        aria-label="Toggle notifications"
+                        aria-label="Notification settings"
                       >
                         {item.notify_on_land ? <FiBell size={20} /> : <FiBellOff size={20} />}
                       </button>
@@ -289,19 +289,25 @@ export default function AircraftTracker({ session }: { session: Session }) {
 
               return (
                 <li key={item.id}>
-                  {hasDetails ? (
-                    <Link href={`/flight/${status.icao24}`}>
-                      {cardContent}
-                    </Link>
-                  ) : (
-                    <div>{cardContent}</div>
-                  )}
+                  {/* The aircraft page resolves registrations and flight numbers itself */}
+                  <Link href={`/flight/${status?.icao24 || encodeURIComponent(item.value)}`}>
+                    {cardContent}
+                  </Link>
                 </li>
               );
             })}
           </ul>
         )}
       </div>
+      <EmergencyAlertSettings userId={user.id} />
+      {settingsItem && (
+        <NotificationSettings
+          userId={user.id}
+          item={settingsItem}
+          onClose={() => setSettingsItem(null)}
+          onSaved={(notifyOnLand) => handleNotificationsSaved(settingsItem.id, notifyOnLand)}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
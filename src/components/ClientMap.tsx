@@ -1,10 +1,26 @@
 'use client'
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import dynamic from 'next/dynamic';
-import { fetchAllFlights, fetchAirports, fetchFlightTrack, fetchFlightPlan } from '../app/actions';
-import { FlightState, BoundingBox, Airport, AirportFilterType, FlightTrackPoint, FlightRouteInfo } from '../types';
+import { useRouter } from 'next/navigation';
+import { fetchAllFlights, fetchAirports, fetchFlightTrack, fetchFlightPlan, fetchReplaySnapshots, fetchLatestFlightState } from '../app/actions';
+import { FlightState, BoundingBox, Airport, AirportFilterType, FlightTrackPoint, FlightRouteInfo, PositionSource, SearchResult, MapFocusTarget, MapViewport } from '../types';
 import FilterPanel from './FilterPanel';
+import SearchBar from './SearchBar';
+import EmergencyBanner from './EmergencyBanner';
+import SavedViewsPanel from './SavedViewsPanel';
+import GeofencePanel from './GeofencePanel';
+import { GeofenceDraft } from './GeofenceLayer';
+import { Geofence } from '../lib/geofences/types';
+import ReplayControls from './ReplayControls';
+import { ReplayTimeline, buildReplayTimeline, getReplayFrame, getReplayTrack } from '../lib/replay';
+import { DEFAULT_DEAD_RECKONING_OPTIONS } from '../lib/deadReckoning';
+import { useDeadReckoning } from '../hooks/useDeadReckoning';
+import { ALL_POSITION_SOURCES } from '../lib/positionSource';
+import { matchesFlightFilters } from '../lib/flightFilters';
+import { MAIN_AIRPORTS_FILTER } from '../lib/airportFilters';
+import { parseMapUrlState, serializeMapUrlState } from '../lib/mapUrlState';
+import { SavedView, savedViewViewport } from '../lib/savedViews';
 
 const MapView = dynamic(() => import('./MapView'), { 
   ssr: false,
@@ -15,6 +31,10 @@ export interface FlightFilters {
   hideOnGround: boolean;
   category: string;
   minAltitude: number;
+  positionSources: PositionSource[];
+  animateAircraft: boolean;
+  maxExtrapolationSeconds: number;
+  clusterAircraft: boolean;
   showLabels: boolean;
   showAirlineLogos: boolean;
   showFlightNumbers: boolean;
@@ -23,30 +43,59 @@ export interface FlightFilters {
   autoFetchAircraftInfo: boolean;
 }
 
+const DEFAULT_FLIGHT_FILTERS: FlightFilters = {
+  hideOnGround: true, 
+  category: 'all', 
+  minAltitude: 0, 
+  positionSources: ALL_POSITION_SOURCES,
+  animateAircraft: true,
+  maxExtrapolationSeconds: DEFAULT_DEAD_RECKONING_OPTIONS.maxExtrapolationSeconds,
+  clusterAircraft: false,
+  showLabels: true, 
+  showAirlineLogos: true, 
+  showFlightNumbers: true, 
+  showAltitude: true, 
+  showSpeed: true,
+  autoFetchAircraftInfo: false
+};
+
+// Zoom used when flying to a search result
+const SEARCH_FLIGHT_ZOOM = 9;
+const SEARCH_AIRPORT_ZOOM = 12;
+
 export default function ClientMap() {
+  const router = useRouter();
+  // View, selection and filters shared through the query string
+  const [initialUrlState] = useState(() => parseMapUrlState(new URLSearchParams(window.location.search)));
   const [allFlights, setAllFlights] = useState<FlightState[]>([]);
   const [filteredFlights, setFilteredFlights] = useState<FlightState[]>([]);
   const [airports, setAirports] = useState<Airport[]>([]);
-  const [center, setCenter] = useState<[number, number]>([52.237, 21.017]);
+  const [center] = useState<[number, number]>(() =>
+    initialUrlState.view ? [initialUrlState.view.latitude, initialUrlState.view.longitude] : [52.237, 21.017]
+  );
+  const [mapView, setMapView] = useState<MapViewport | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [airportFilter, setAirportFilter] = useState<AirportFilterType>('main');
-  const [flightFilters, setFlightFilters] = useState<FlightFilters>({ 
-    hideOnGround: true, 
-    category: 'all', 
-    minAltitude: 0, 
-    showLabels: true, 
-    showAirlineLogos: true, 
-    showFlightNumbers: true, 
-    showAltitude: true, 
-    showSpeed: true,
-    autoFetchAircraftInfo: false
-  });
+  const [airportFilter, setAirportFilter] = useState<AirportFilterType>(MAIN_AIRPORTS_FILTER);
+  const [flightFilters, setFlightFilters] = useState<FlightFilters>({ ...DEFAULT_FLIGHT_FILTERS, ...initialUrlState.filters });
   const [currentBounds, setCurrentBounds] = useState<BoundingBox | null>(null);
   const [selectedTrack, setSelectedTrack] = useState<FlightTrackPoint[] | null>(null);
   const [selectedFlightRoute, setSelectedFlightRoute] = useState<FlightRouteInfo | null>(null);
-  const [selectedFlightIcao, setSelectedFlightIcao] = useState<string | null>(null);
+  const [selectedFlightIcao, setSelectedFlightIcao] = useState<string | null>(initialUrlState.selectedIcao24);
   const [isPopupOpen, setIsPopupOpen] = useState(false); // NEW STATE for popup visibility
   const [isFlightDetailsLoading, setIsFlightDetailsLoading] = useState(false);
+  const [focusTarget, setFocusTarget] = useState<MapFocusTarget | null>(null);
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [geofenceDraft, setGeofenceDraft] = useState<GeofenceDraft | null>(null);
+
+  // Replay mode: recorded snapshots for the current bounds instead of live data
+  const [isReplayMode, setIsReplayMode] = useState(false);
+  const [replayWindowHours, setReplayWindowHours] = useState(1);
+  const [replayTimeline, setReplayTimeline] = useState<ReplayTimeline | null>(null);
+  const [replayTime, setReplayTime] = useState(0);
+  const [isReplayPlaying, setIsReplayPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(10);
+  const [isReplayLoading, setIsReplayLoading] = useState(false);
+  const [isReplayTruncated, setIsReplayTruncated] = useState(false);
 
   const selectedIcaoRef = useRef<string | null>(null);
   useEffect(() => {
@@ -69,8 +118,9 @@ export default function ClientMap() {
     setSelectedTrack(null);
     setSelectedFlightRoute(null);
 
+    // In replay mode the track comes from the recorded timeline
     const [trackData, routeData] = await Promise.all([
-        fetchFlightTrack(icao24),
+        isReplayMode ? Promise.resolve(null) : fetchFlightTrack(icao24),
         fetchFlightPlan(icao24, flight.callsign)
     ]);
 
@@ -80,16 +130,85 @@ export default function ClientMap() {
     }
     
     setIsFlightDetailsLoading(false);
-  }, []); 
+  }, [isReplayMode]); 
+
+  // A circle takes its center and one edge point; later clicks move the edge
+  const handleGeofenceDraftClick = useCallback((point: [number, number]) => {
+    setGeofenceDraft(draft => {
+      if (!draft) return draft;
+      if (draft.type === 'circle' && draft.points.length >= 2) return { ...draft, points: [draft.points[0], point] };
+      return { ...draft, points: [...draft.points, point] };
+    });
+  }, []);
+
+  const handleApplySavedView = useCallback((view: SavedView) => {
+    setFocusTarget(savedViewViewport(view));
+    setFlightFilters(filters => ({ ...filters, ...view.flightFilters }));
+    if (view.airportFilter) setAirportFilter(view.airportFilter);
+  }, []);
+
+  // Selects a flight known only by icao24 (from the URL); it may not be in
+  // the current view yet
+  const allFlightsRef = useRef(allFlights);
+  allFlightsRef.current = allFlights;
+  const selectFlightByIcao = useCallback(async (icao24: string) => {
+    const flight = allFlightsRef.current.find(candidate => candidate.icao24 === icao24) ?? await fetchLatestFlightState(icao24);
+    if (flight) {
+      handleFlightClick(flight);
+    } else {
+      setSelectedFlightIcao(icao24);
+    }
+    return flight;
+  }, [handleFlightClick]);
+
+  const clearSelection = useCallback(() => {
+    setSelectedFlightIcao(null);
+    setIsPopupOpen(false);
+    setSelectedTrack(null);
+    setSelectedFlightRoute(null);
+  }, []);
+
+  const handleSearchSelect = useCallback((result: SearchResult) => {
+    if (result.kind === 'flight') {
+      setFocusTarget({ latitude: result.flight.latitude, longitude: result.flight.longitude, zoom: SEARCH_FLIGHT_ZOOM });
+      handleFlightClick(result.flight);
+    } else if (result.kind === 'airport') {
+      setFocusTarget({ latitude: result.airport.lat, longitude: result.airport.lon, zoom: SEARCH_AIRPORT_ZOOM, airportId: result.airport.id });
+    } else {
+      // Not reporting a position, so there's nothing to fly to
+      router.push(`/flight/${result.icao24}`);
+    }
+  }, [handleFlightClick, router]);
+
+  const handleEmergencySelect = useCallback((flight: FlightState) => {
+    setFocusTarget({ latitude: flight.latitude, longitude: flight.longitude, zoom: SEARCH_FLIGHT_ZOOM });
+    handleFlightClick(flight);
+  }, [handleFlightClick]);
 
   const handlePopupClose = useCallback(() => {
     setIsPopupOpen(false); // ONLY close popup, do not deselect flight
   }, []);
 
+  const handleReplayToggle = useCallback(() => {
+    setIsReplayMode(active => !active);
+    setIsReplayPlaying(false);
+    setReplayTimeline(null);
+    setSelectedTrack(null);
+  }, []);
+
   // Effect for fetching data
   useEffect(() => {
     if (!currentBounds) return;
     let isMounted = true;
+    if (isReplayMode) {
+      // Live polling is paused while replaying; airports still follow the map
+      fetchAirports(currentBounds, airportFilter).then(airportData => {
+        if (isMounted) setAirports(airportData);
+      });
+      return () => {
+        isMounted = false;
+      };
+    }
     const refreshFlightData = async () => {
       const flightData = await fetchAllFlights(currentBounds);
       if (isMounted) setAllFlights(flightData);
@@ -112,51 +231,203 @@ export default function ClientMap() {
       isMounted = false;
       clearInterval(intervalId);
     };
-  }, [currentBounds, airportFilter]);
+  }, [currentBounds, airportFilter, isReplayMode]);
 
-  // Effect for filtering flights
+  // Effect for loading replay history
   useEffect(() => {
-    let flightsToDisplay = [...allFlights];
-    if (flightFilters.hideOnGround) {
-      flightsToDisplay = flightsToDisplay.filter(flight => !flight.on_ground);
+    if (!isReplayMode || !currentBounds) return;
+    let isMounted = true;
+    const end = Math.floor(Date.now() / 1000);
+    const start = end - replayWindowHours * 3600;
+
+    const loadReplay = async () => {
+      setIsReplayLoading(true);
+      const replay = await fetchReplaySnapshots(currentBounds, start, end);
+      if (isMounted) {
+        setReplayTimeline(buildReplayTimeline(replay.states, start, end));
+        setIsReplayTruncated(replay.truncated);
+        // Keep the scrubber position when panning, unless it fell out of the window
+        setReplayTime(time => (time >= start && time <= end ? time : start));
+        setIsReplayLoading(false);
+      }
+    };
+    loadReplay();
+    return () => {
+      isMounted = false;
+    };
+  }, [isReplayMode, currentBounds, replayWindowHours]);
+
+  // Effect for replay playback
+  useEffect(() => {
+    if (!isReplayPlaying || !replayTimeline) return;
+    const tickMs = 200;
+    const intervalId = setInterval(() => {
+      setReplayTime(time => Math.min(replayTimeline.end, time + (replaySpeed * tickMs) / 1000));
+    }, tickMs);
+    return () => clearInterval(intervalId);
+  }, [isReplayPlaying, replaySpeed, replayTimeline]);
+
+  // Stop at the end of the window
+  useEffect(() => {
+    if (isReplayPlaying && replayTimeline && replayTime >= replayTimeline.end) {
+      setIsReplayPlaying(false);
     }
-    if (flightFilters.minAltitude > 0) {
-      const minAltitudeInMeters = flightFilters.minAltitude * 0.3048;
-      flightsToDisplay = flightsToDisplay.filter(flight => flight.baro_altitude != null && flight.baro_altitude >= minAltitudeInMeters);
+  }, [isReplayPlaying, replayTimeline, replayTime]);
+
+  const handleReplayPlayPause = useCallback(() => {
+    // Playing from the end starts over
+    if (!isReplayPlaying && replayTimeline && replayTime >= replayTimeline.end) {
+      setReplayTime(replayTimeline.start);
     }
-    setFilteredFlights(flightsToDisplay);
-  }, [allFlights, flightFilters]);
+    setIsReplayPlaying(playing => !playing);
+  }, [isReplayPlaying, replayTimeline, replayTime]);
+
+  const replayFlights = useMemo(
+    () => (replayTimeline ? getReplayFrame(replayTimeline, replayTime) : []),
+    [replayTimeline, replayTime]
+  );
 
-  // Effect for initial centering
+  const replayTrack = useMemo(
+    () => (replayTimeline && selectedFlightIcao ? getReplayTrack(replayTimeline, selectedFlightIcao, replayTime) : null),
+    [replayTimeline, selectedFlightIcao, replayTime]
+  );
+
+  // Effect for filtering flights
   useEffect(() => {
+    const flightsToDisplay = isReplayMode ? replayFlights : allFlights;
+    setFilteredFlights(flightsToDisplay.filter(flight => matchesFlightFilters(flight, flightFilters)));
+  }, [allFlights, replayFlights, isReplayMode, flightFilters]);
+
+  // Replay positions are already interpolated, so only live data is extrapolated
+  const deadReckoningOptions = useMemo(() => ({
+    ...DEFAULT_DEAD_RECKONING_OPTIONS,
+    // Clustered markers are regrouped whenever one moves, so they aren't animated
+    enabled: flightFilters.animateAircraft && !flightFilters.clusterAircraft && !isReplayMode,
+    maxExtrapolationSeconds: flightFilters.maxExtrapolationSeconds,
+  }), [flightFilters.animateAircraft, flightFilters.clusterAircraft, flightFilters.maxExtrapolationSeconds, isReplayMode]);
+  const animatedFlights = useDeadReckoning(filteredFlights, deadReckoningOptions);
+
+  // Effect for initial centering; a view or selection from the URL wins over
+  // the user's location. Runs once, even when selectFlightByIcao changes later.
+  const hasAppliedInitialViewRef = useRef(false);
+  useEffect(() => {
+    if (hasAppliedInitialViewRef.current) return;
+    hasAppliedInitialViewRef.current = true;
+    if (initialUrlState.selectedIcao24) {
+      selectFlightByIcao(initialUrlState.selectedIcao24).then(flight => {
+        if (flight && !initialUrlState.view) {
+          setFocusTarget({ latitude: flight.latitude, longitude: flight.longitude, zoom: SEARCH_FLIGHT_ZOOM });
+        }
+      });
+    }
+    if (initialUrlState.view || initialUrlState.selectedIcao24) return;
+
     navigator.geolocation.getCurrentPosition(
-      (position) => setCenter([position.coords.latitude, position.coords.longitude]),
+      (position) => setFocusTarget({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
       () => console.log("Geolocation permission denied.")
     );
-  }, []);
+  }, [initialUrlState, selectFlightByIcao]);
+
+  // Effect for writing the URL. Selecting a flight adds a history entry, so
+  // Back returns to the previous selection; panning and filters only update
+  // the current entry.
+  useEffect(() => {
+    // Wait for the map to report its view so a shared link isn't trimmed
+    if (!mapView) return;
+    const search = serializeMapUrlState({ view: mapView, selectedIcao24: selectedFlightIcao, filters: flightFilters }, DEFAULT_FLIGHT_FILTERS);
+    if (search === window.location.search.replace(/^\?/, '')) return;
+
+    const url = search ? `?${search}` : window.location.pathname;
+    const previousSelection = new URLSearchParams(window.location.search).get('sel');
+    if (selectedFlightIcao && selectedFlightIcao !== previousSelection) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [mapView, selectedFlightIcao, flightFilters]);
+
+  // Effect for Back / Forward: apply the state of the restored entry
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = parseMapUrlState(new URLSearchParams(window.location.search));
+      if (state.view) {
+        setFocusTarget({ latitude: state.view.latitude, longitude: state.view.longitude, zoom: state.view.zoom ?? undefined });
+      }
+      // Filters missing from the restored URL are back at their defaults;
+      // display options aren't part of the URL and stay as they are
+      const { hideOnGround, category, minAltitude, positionSources, clusterAircraft, animateAircraft } = DEFAULT_FLIGHT_FILTERS;
+      setFlightFilters(filters => ({
+        ...filters, hideOnGround, category, minAltitude, positionSources, clusterAircraft, animateAircraft, ...state.filters
+      }));
+      if (state.selectedIcao24 !== selectedIcaoRef.current) {
+        if (state.selectedIcao24) selectFlightByIcao(state.selectedIcao24);
+        else clearSelection();
+      }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [selectFlightByIcao, clearSelection]);
 
   return (
     <div style={{ position: 'relative', height: '100vh', width: '100%' }}>
-      {isLoading && <div style={{position: 'absolute', top: '10px', left: '50%', transform: 'translateX(-50%)', zIndex: 1000, background: 'rgba(255, 255, 255, 0.8)', padding: '5px 15px', borderRadius: '5px' }}>Loading data...</div> }
+      {isLoading && <div style={{position: 'absolute', top: '60px', left: '50%', transform: 'translateX(-50%)', zIndex: 1000, background: 'rgba(255, 255, 255, 0.8)', padding: '5px 15px', borderRadius: '5px' }}>Loading data...</div> }
+      <SearchBar flights={filteredFlights} onSelect={handleSearchSelect} />
+      <EmergencyBanner flights={allFlights} onSelect={handleEmergencySelect} />
       <FilterPanel 
         airportFilter={airportFilter} 
         onAirportFilterChange={setAirportFilter} 
         flightFilters={flightFilters} 
         onFlightFilterChange={setFlightFilters} 
       />
+      <SavedViewsPanel
+        bounds={currentBounds}
+        zoom={mapView?.zoom ?? null}
+        flightFilters={flightFilters}
+        airportFilter={airportFilter}
+        onApply={handleApplySavedView}
+      />
+      <GeofencePanel
+        geofences={geofences}
+        onGeofencesChange={setGeofences}
+        draft={geofenceDraft}
+        onDraftChange={setGeofenceDraft}
+      />
       <MapView 
-        flights={filteredFlights} 
+        flights={animatedFlights} 
         airports={airports}
         center={center} 
+        zoom={initialUrlState.view?.zoom ?? undefined}
         onBoundsChange={handleBoundsChange} 
+        onViewChange={setMapView}
         onFlightClick={handleFlightClick}
         onPopupClose={handlePopupClose}
-        selectedTrack={selectedTrack}
+        selectedTrack={isReplayMode ? replayTrack : selectedTrack}
         selectedFlightIcao={selectedFlightIcao}
         isPopupOpen={isPopupOpen} // Pass new state
         selectedFlightRoute={selectedFlightRoute}
         isFlightDetailsLoading={isFlightDetailsLoading}
         flightFilters={flightFilters}
+        focusTarget={focusTarget}
+        geofences={geofences}
+        geofenceDraft={geofenceDraft}
+        onGeofenceDraftClick={handleGeofenceDraftClick}
+      />
+      <ReplayControls
+        isActive={isReplayMode}
+        onToggle={handleReplayToggle}
+        windowHours={replayWindowHours}
+        onWindowChange={setReplayWindowHours}
+        start={replayTimeline?.start ?? replayTime}
+        end={replayTimeline?.end ?? replayTime}
+        time={replayTime}
+        onTimeChange={setReplayTime}
+        isPlaying={isReplayPlaying}
+        onPlayPause={handleReplayPlayPause}
+        speed={replaySpeed}
+        onSpeedChange={setReplaySpeed}
+        isLoading={isReplayLoading}
+        aircraftCount={replayFlights.length}
+        isTruncated={isReplayTruncated}
       />
     </div>
   );
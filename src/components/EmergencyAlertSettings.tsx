@@ -0,0 +1,106 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/utils/supabase/client'
+import { FiAlertTriangle, FiLoader } from 'react-icons/fi'
+import { NOTIFICATION_CHANNELS } from '../lib/notifications/preferences'
+import { NotificationChannel } from '../lib/notifications/types'
+import { EMERGENCY_SQUAWKS, EMERGENCY_SUBSCRIPTIONS_TABLE, EmergencyAlertSubscription, EmergencySquawk } from '../lib/squawk'
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(existing => existing !== value) : [...values, value]
+
+// Opt-in alerts whenever any aircraft starts squawking an emergency code.
+// Delivery addresses are the ones set in the tracked items' notification settings.
+export default function EmergencyAlertSettings({ userId }: { userId: string }) {
+  const supabase = createClient()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [enabled, setEnabled] = useState(false)
+  const [squawks, setSquawks] = useState<EmergencySquawk[]>(EMERGENCY_SQUAWKS.map(info => info.code))
+  const [channels, setChannels] = useState<NotificationChannel[]>(['push'])
+
+  useEffect(() => {
+    let ignore = false
+    async function load() {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from(EMERGENCY_SUBSCRIPTIONS_TABLE)
+        .select('user_id, squawks, channels, enabled')
+        .eq('user_id', userId)
+        .maybeSingle()
+      if (ignore) return
+      if (error) console.warn(error)
+      if (data) {
+        const subscription = data as EmergencyAlertSubscription
+        setEnabled(subscription.enabled)
+        setSquawks(subscription.squawks)
+        setChannels(subscription.channels)
+      }
+      setLoading(false)
+    }
+
+    load()
+    return () => {
+      ignore = true
+    }
+  }, [userId, supabase])
+
+  async function handleSave() {
+    try {
+      setSaving(true)
+      const subscription: EmergencyAlertSubscription = { user_id: userId, squawks, channels, enabled }
+      const { error } = await supabase
+        .from(EMERGENCY_SUBSCRIPTIONS_TABLE)
+        .upsert({ ...subscription, updated_at: new Date().toISOString() }, { onConflict: 'user_id' })
+      if (error) throw error
+    } catch (error) {
+      alert('Error saving emergency alerts: ' + (error as Error).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="mt-8 bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2"><FiAlertTriangle className="text-red-600" /> Emergency Alerts</h2>
+      <p className="text-sm text-gray-500 mt-1">Get notified when any aircraft starts squawking an emergency code.</p>
+
+      {loading ? (
+        <div className="flex justify-center py-6"><FiLoader className="animate-spin text-gray-400" size={24} /></div>
+      ) : (
+        <div className="mt-4 space-y-4">
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+            Send emergency alerts
+          </label>
+
+          <div className={`grid grid-cols-1 md:grid-cols-2 gap-4 text-sm ${enabled ? '' : 'opacity-50'}`}>
+            <div>
+              <p className="text-xs font-semibold uppercase text-gray-400 mb-1">Codes</p>
+              {EMERGENCY_SQUAWKS.map(info => (
+                <label key={info.code} className="flex items-center gap-2 py-1 text-gray-700">
+                  <input type="checkbox" checked={squawks.includes(info.code)} onChange={() => setSquawks(current => toggle(current, info.code))} disabled={!enabled} />
+                  <span className="font-mono font-bold" style={{ color: info.color }}>{info.code}</span> {info.label}
+                </label>
+              ))}
+            </div>
+            <div>
+              <p className="text-xs font-semibold uppercase text-gray-400 mb-1">Channels</p>
+              {NOTIFICATION_CHANNELS.map(channel => (
+                <label key={channel.value} className="flex items-center gap-2 py-1 text-gray-700">
+                  <input type="checkbox" checked={channels.includes(channel.value)} onChange={() => setChannels(current => toggle(current, channel.value))} disabled={!enabled} />
+                  {channel.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <button onClick={handleSave} disabled={saving} className="px-4 py-2 text-sm bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition flex items-center gap-2">
+            {saving && <FiLoader className="animate-spin" />} Save
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
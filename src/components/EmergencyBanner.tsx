@@ -0,0 +1,86 @@
+'use client'
+
+import { useState, useEffect } from 'react';
+import { FiAlertTriangle, FiChevronDown, FiChevronUp } from 'react-icons/fi';
+import { FlightState } from '../types';
+import { fetchEmergencies } from '../app/actions';
+import { getEmergencySquawkInfo, isEmergencySquawk } from '../lib/squawk';
+
+interface EmergencyBannerProps {
+  // Flights currently on the map; their squawks show up without waiting for the next world-wide poll
+  flights: FlightState[];
+  onSelect: (flight: FlightState) => void;
+}
+
+// The server refreshes its world-wide list at most every 15 minutes; polling
+// more often only picks up new snapshots
+const EMERGENCY_POLL_MS = 5 * 60 * 1000;
+
+export default function EmergencyBanner({ flights, onSelect }: EmergencyBannerProps) {
+  const [worldEmergencies, setWorldEmergencies] = useState<FlightState[]>([]);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    const load = async () => {
+      const emergencies = await fetchEmergencies();
+      if (isMounted) setWorldEmergencies(emergencies);
+    };
+    load();
+    const interval = setInterval(load, EMERGENCY_POLL_MS);
+    return () => {
+      isMounted = false;
+      clearInterval(interval);
+    };
+  }, []);
+
+  // Visible flights are fresher than the last world-wide poll, so they win
+  const local = flights.filter(flight => isEmergencySquawk(flight.squawk));
+  const localIcaos = new Set(local.map(flight => flight.icao24));
+  const emergencies = [
+    ...local,
+    ...worldEmergencies.filter(flight => !localIcaos.has(flight.icao24)),
+  ];
+
+  if (emergencies.length === 0) return null;
+
+  const renderEntry = (flight: FlightState) => {
+    const info = getEmergencySquawkInfo(flight.squawk);
+    return (
+      <button
+        key={flight.icao24}
+        onClick={() => onSelect(flight)}
+        className="w-full text-left px-3 py-1 flex items-center gap-2 hover:bg-red-700"
+      >
+        <span className="font-mono font-bold rounded px-1" style={{ background: info?.color }}>{flight.squawk}</span>
+        <span className="font-semibold">{flight.callsign?.trim() || flight.icao24}</span>
+        <span className="text-red-100 text-xs truncate">{info?.label} · {flight.origin_country}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="absolute top-16 left-1/2 -translate-x-1/2 z-[1000] w-[90%] max-w-md bg-red-600 text-white rounded-lg shadow-lg text-sm overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(expanded => !expanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 font-bold"
+        aria-expanded={isExpanded}
+      >
+        <FiAlertTriangle className="shrink-0" />
+        <span className="flex-1 text-left">
+          {emergencies.length === 1 ? '1 aircraft squawking emergency' : `${emergencies.length} aircraft squawking emergency`}
+        </span>
+        {isExpanded ? <FiChevronUp /> : <FiChevronDown />}
+      </button>
+      {isExpanded ? (
+        <div className="max-h-60 overflow-y-auto border-t border-red-500 pb-1">
+          {emergencies.map(renderEntry)}
+        </div>
+      ) : (
+        <div className="border-t border-red-500 pb-1">
+          {renderEntry(emergencies[0])}
+        </div>
+      )}
+    </div>
+  );
+}
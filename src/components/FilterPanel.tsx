@@ -2,8 +2,10 @@
 
 import { useState, useEffect } from 'react';
 import { FiFilter, FiX } from 'react-icons/fi';
-import { AirportFilterType } from '../types';
+import { AirportFilterType, Continent, PositionSource } from '../types';
 import { FlightFilters } from './ClientMap';
+import { POSITION_SOURCES } from '../lib/positionSource';
+import { AIRPORT_SIZES, AIRPORT_KINDS, CONTINENTS, MAIN_AIRPORTS_FILTER, ALL_AIRPORTS_FILTER } from '../lib/airportFilters';
 
 interface FilterPanelProps {
   airportFilter: AirportFilterType;
@@ -23,9 +25,8 @@ export default function FilterPanel({ airportFilter, onAirportFilterChange, flig
     }
   }, []);
 
-  const handleAirportFilterChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    onAirportFilterChange(event.target.value as AirportFilterType);
-  };
+  const toggleValue = <T,>(values: T[], value: T, checked: boolean): T[] =>
+    checked ? [...values, value] : values.filter(v => v !== value);
 
   const handleFlightFilterChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const { name, type, checked, value } = event.target;
@@ -35,6 +36,15 @@ export default function FilterPanel({ airportFilter, onAirportFilterChange, flig
     });
   };
 
+  const handlePositionSourceChange = (source: PositionSource, checked: boolean) => {
+    onFlightFilterChange({
+      ...flightFilters,
+      positionSources: checked
+        ? [...flightFilters.positionSources, source]
+        : flightFilters.positionSources.filter(s => s !== source),
+    });
+  };
+
   const FT_IN_M = 3.28084;
 
   return (
@@ -58,33 +68,66 @@ export default function FilterPanel({ airportFilter, onAirportFilterChange, flig
         
         {/* Airport Filters */}
         <div className="space-y-4 border-b pb-4 mb-4">
-          <p className="font-semibold text-gray-700">Airport Types</p>
-          <div className="flex flex-col space-y-2">
-            <label className="flex items-center space-x-3">
-              <input
-                type="radio"
-                name="airportFilter"
-                value="all"
-                checked={airportFilter === 'all'}
-                onChange={handleAirportFilterChange}
-                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
-              />
-              <span>Show All Airports</span>
-            </label>
-            <label className="flex items-center space-x-3">
-              <input
-                type="radio"
-                name="airportFilter"
-                value="main"
-                checked={airportFilter === 'main'}
-                onChange={handleAirportFilterChange}
-                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
-              />
-              <span>Show Main Airports Only</span>
-            </label>
+          <p className="font-semibold text-gray-700">Airport Filters</p>
+          <div className="space-y-2">
+            <p className="font-medium text-gray-600">Size</p>
+            <div className="flex flex-col space-y-2">
+              {AIRPORT_SIZES.map(({ size, label }) => (
+                <label key={size} className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={airportFilter.sizes.includes(size)}
+                    onChange={(event) => onAirportFilterChange({ ...airportFilter, sizes: toggleValue(airportFilter.sizes, size, event.target.checked) })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <p className="font-medium text-gray-600">Type</p>
+            <div className="flex flex-col space-y-2">
+              {AIRPORT_KINDS.map(({ type, label }) => (
+                <label key={type} className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={airportFilter.types.includes(type)}
+                    onChange={(event) => onAirportFilterChange({ ...airportFilter, types: toggleValue(airportFilter.types, type, event.target.checked) })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="airportContinent" className="font-medium text-gray-600">Continent</label>
+            <select
+              id="airportContinent"
+              value={airportFilter.continents[0] ?? ''}
+              onChange={(event) => onAirportFilterChange({
+                ...airportFilter,
+                continents: event.target.value ? [event.target.value as Continent] : [],
+              })}
+              className="w-full border border-gray-300 rounded p-1 text-sm"
+            >
+              <option value="">All continents</option>
+              {CONTINENTS.map(({ continent, label }) => (
+                <option key={continent} value={continent}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex space-x-3 text-xs">
+            <button className="text-blue-500 hover:underline" onClick={() => onAirportFilterChange(MAIN_AIRPORTS_FILTER)}>
+              Main airports
+            </button>
+            <button className="text-blue-500 hover:underline" onClick={() => onAirportFilterChange(ALL_AIRPORTS_FILTER)}>
+              Show all
+            </button>
           </div>
           <p className="text-xs text-gray-500 pt-1">
-            'Main airports' are those with an IATA code.
+            Nothing ticked in a group means no filtering on it. Size only applies to airports.
           </p>
         </div>
 
@@ -125,6 +168,76 @@ export default function FilterPanel({ airportFilter, onAirportFilterChange, flig
               <span>50,000 ft</span>
             </div>
           </div>
+
+          {/* Clustering */}
+          <div className="space-y-2 pt-2">
+            <label className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                name="clusterAircraft"
+                checked={flightFilters.clusterAircraft}
+                onChange={handleFlightFilterChange}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span>Group dense traffic into clusters</span>
+            </label>
+            {flightFilters.clusterAircraft && (
+              <p className="text-xs text-gray-500">
+                Clustered aircraft are not animated between updates.
+              </p>
+            )}
+          </div>
+
+          {/* Dead Reckoning */}
+          <div className="space-y-2 pt-2">
+            <label className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                name="animateAircraft"
+                checked={flightFilters.animateAircraft}
+                onChange={handleFlightFilterChange}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span>Animate aircraft between updates</span>
+            </label>
+            {flightFilters.animateAircraft && (
+              <>
+                <label htmlFor="maxExtrapolationSeconds" className="font-medium text-gray-600">
+                  Stop after {flightFilters.maxExtrapolationSeconds} s without contact
+                </label>
+                <input
+                  type="range"
+                  id="maxExtrapolationSeconds"
+                  name="maxExtrapolationSeconds"
+                  min="10"
+                  max="300"
+                  step="10"
+                  value={flightFilters.maxExtrapolationSeconds}
+                  onChange={handleFlightFilterChange}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </>
+            )}
+          </div>
+
+          {/* Position Source Filter */}
+          <div className="space-y-2 pt-2">
+            <p className="font-medium text-gray-600">Position Source</p>
+            <div className="flex flex-col space-y-2">
+              {POSITION_SOURCES.map(info => (
+                <label key={info.source} className="flex items-center space-x-3" title={info.description}>
+                  <input
+                    type="checkbox"
+                    checked={flightFilters.positionSources.includes(info.source)}
+                    onChange={(event) => handlePositionSourceChange(info.source, event.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span style={{ color: info.color }}>{info.label}</span>
+                  {!info.precise && <span className="text-xs text-gray-500">(approximate)</span>}
+                </label>
+              ))}
+            </div>
+          </div>
         </div>
 
         {/* Display Options */}
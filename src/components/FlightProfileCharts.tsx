@@ -0,0 +1,166 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { FlightTrackPoint } from '../types';
+import { FlightPhase, FlightProfilePoint, buildFlightProfile, detectFlightPhases, nearestProfileIndex } from '../lib/flightProfile';
+
+interface FlightProfileChartsProps {
+  track: FlightTrackPoint[];
+  // Called with the track point under the cursor, null when it leaves the charts
+  onHover: (point: FlightTrackPoint | null) => void;
+}
+
+type ProfileValueKey = 'altitudeFt' | 'speedKt' | 'verticalRateFpm';
+
+const CHARTS: { key: ProfileValueKey; label: string; unit: string; color: string }[] = [
+  { key: 'altitudeFt', label: 'Altitude', unit: 'ft', color: '#60a5fa' },
+  { key: 'speedKt', label: 'Ground speed', unit: 'kt', color: '#34d399' },
+  { key: 'verticalRateFpm', label: 'V/S', unit: 'ft/min', color: '#fbbf24' },
+];
+
+const PHASE_STYLES: Record<FlightPhase, { label: string; color: string }> = {
+  ground: { label: 'Ground', color: '#9ca3af' },
+  climb: { label: 'Climb', color: '#22c55e' },
+  cruise: { label: 'Cruise', color: '#3b82f6' },
+  descent: { label: 'Descent', color: '#f97316' },
+};
+
+// SVG user units; the charts scale to the sidebar width
+const VIEW_WIDTH = 300;
+const CHART_HEIGHT = 64;
+const AXIS_WIDTH = 36;
+const PLOT_WIDTH = VIEW_WIDTH - AXIS_WIDTH;
+// Phases narrower than this get a band but no label
+const MIN_LABEL_WIDTH = 30;
+
+const formatTime = (time: number) =>
+  new Date(time * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatValue = (value: number | null, unit: string) =>
+  value === null ? 'N/A' : `${Math.round(value).toLocaleString()} ${unit}`;
+
+// Value range of one series; V/S stays centred on zero so climbs and descents compare
+function valueRange(profile: FlightProfilePoint[], key: ProfileValueKey): [number, number] {
+  const values = profile.map(point => point[key]).filter((value): value is number => value !== null);
+  if (values.length === 0) return [0, 1];
+  if (key === 'verticalRateFpm') {
+    const extent = Math.max(500, ...values.map(Math.abs));
+    return [-extent, extent];
+  }
+  return [0, Math.max(1, ...values)];
+}
+
+export default function FlightProfileCharts({ track, onHover }: FlightProfileChartsProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const profile = useMemo(() => buildFlightProfile(track), [track]);
+  const phases = useMemo(() => detectFlightPhases(track, profile), [track, profile]);
+
+  if (profile.length < 2) return null;
+
+  const start = profile[0].time;
+  const end = profile[profile.length - 1].time;
+  const toX = (time: number) => AXIS_WIDTH + ((time - start) / Math.max(1, end - start)) * PLOT_WIDTH;
+  // The track refreshes while the page is open, so an old index may be gone
+  const activeIndex = hoverIndex !== null && hoverIndex < profile.length ? hoverIndex : null;
+  const shownIndex = activeIndex ?? profile.length - 1;
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * VIEW_WIDTH;
+    const time = start + ((x - AXIS_WIDTH) / PLOT_WIDTH) * (end - start);
+    const index = nearestProfileIndex(profile, time);
+    if (index !== hoverIndex) {
+      setHoverIndex(index);
+      onHover(track[index]);
+    }
+  };
+
+  const handlePointerLeave = () => {
+    setHoverIndex(null);
+    onHover(null);
+  };
+
+  const renderChart = ({ key, label, unit, color }: typeof CHARTS[number], isFirst: boolean) => {
+    const [min, max] = valueRange(profile, key);
+    const toY = (value: number) => CHART_HEIGHT - ((value - min) / (max - min)) * CHART_HEIGHT;
+
+    // Gaps in the data break the line instead of bridging them
+    let path = '';
+    let isDrawing = false;
+    for (const point of profile) {
+      const value = point[key];
+      if (value === null) {
+        isDrawing = false;
+        continue;
+      }
+      path += `${isDrawing ? 'L' : 'M'}${toX(point.time).toFixed(1)},${toY(value).toFixed(1)} `;
+      isDrawing = true;
+    }
+
+    return (
+      <div key={key}>
+        <div className="flex justify-between text-xs mb-1">
+          <span className="text-gray-400 uppercase tracking-wider">{label}</span>
+          <span className="font-semibold" style={{ color }}>{formatValue(profile[shownIndex][key], unit)}</span>
+        </div>
+        <svg
+          viewBox={`0 0 ${VIEW_WIDTH} ${CHART_HEIGHT}`}
+          className="w-full touch-none"
+          onPointerMove={handlePointerMove}
+          onPointerLeave={handlePointerLeave}
+        >
+          {phases.map(segment => {
+            const x = toX(segment.start);
+            const width = Math.max(1, toX(segment.end) - x);
+            const style = PHASE_STYLES[segment.phase];
+            return (
+              <g key={segment.startIndex}>
+                <rect x={x} y={0} width={width} height={CHART_HEIGHT} fill={style.color} fillOpacity={0.12} />
+                {isFirst && width >= MIN_LABEL_WIDTH && (
+                  <text x={x + width / 2} y={9} textAnchor="middle" fontSize={8} fill={style.color}>{style.label}</text>
+                )}
+              </g>
+            );
+          })}
+          {key === 'verticalRateFpm' && (
+            <line x1={AXIS_WIDTH} x2={VIEW_WIDTH} y1={toY(0)} y2={toY(0)} stroke="#4b5563" strokeDasharray="2 2" />
+          )}
+          <text x={AXIS_WIDTH - 3} y={8} textAnchor="end" fontSize={7} fill="#9ca3af">{Math.round(max).toLocaleString()}</text>
+          <text x={AXIS_WIDTH - 3} y={CHART_HEIGHT - 2} textAnchor="end" fontSize={7} fill="#9ca3af">{Math.round(min).toLocaleString()}</text>
+          <path d={path} fill="none" stroke={color} strokeWidth={1.5} />
+          {activeIndex !== null && (
+            <line
+              x1={toX(profile[activeIndex].time)}
+              x2={toX(profile[activeIndex].time)}
+              y1={0}
+              y2={CHART_HEIGHT}
+              stroke="#f9fafb"
+              strokeWidth={1}
+            />
+          )}
+        </svg>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-baseline">
+        <p className="text-sm text-gray-400 uppercase tracking-wider">Flight Profile</p>
+        <span className="text-xs text-gray-500">{formatTime(profile[shownIndex].time)}</span>
+      </div>
+      {CHARTS.map((chart, i) => renderChart(chart, i === 0))}
+      <div className="flex justify-between text-xs text-gray-500" style={{ paddingLeft: `${(AXIS_WIDTH / VIEW_WIDTH) * 100}%` }}>
+        <span>{formatTime(start)}</span>
+        <span>{formatTime(end)}</span>
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs">
+        {phases.filter(segment => segment.phase !== 'ground').map(segment => (
+          <span key={segment.startIndex} style={{ color: PHASE_STYLES[segment.phase].color }}>
+            {PHASE_STYLES[segment.phase].label} {formatTime(segment.start)}–{formatTime(segment.end)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import { Polygon, Circle, Tooltip, CircleMarker, useMapEvents } from 'react-leaflet'
+import { distanceMeters } from '../lib/geo'
+import { Geofence, GeofenceShape } from '../lib/geofences/types'
+import { unwrapLongitudes } from '../lib/geofences/geometry'
+
+// Shape being drawn: polygon vertices in click order, or for a circle the
+// center followed by a point on the edge
+export interface GeofenceDraft {
+  type: GeofenceShape['type']
+  points: [number, number][]
+}
+
+// Null until enough points are placed
+export function draftToShape(draft: GeofenceDraft): GeofenceShape | null {
+  if (draft.type === 'polygon') {
+    return draft.points.length >= 3 ? { type: 'polygon', points: draft.points } : null
+  }
+  if (draft.points.length < 2) return null
+  const [center, edge] = draft.points
+  return { type: 'circle', center, radiusMeters: Math.round(distanceMeters(center[0], center[1], edge[0], edge[1])) }
+}
+
+interface GeofenceLayerProps {
+  geofences: Geofence[]
+  draft: GeofenceDraft | null
+  onDraftClick: (point: [number, number]) => void
+}
+
+const DraftClicks = ({ onClick }: { onClick: (point: [number, number]) => void }) => {
+  useMapEvents({
+    click: (event: { latlng: { lat: number; lng: number } }) => onClick([event.latlng.lat, event.latlng.lng]),
+  })
+  return null
+}
+
+const ShapeLayer = ({ shape, color, dashed, children }: { shape: GeofenceShape; color: string; dashed?: boolean; children?: React.ReactNode }) => {
+  const pathOptions = { color, weight: 2, fillOpacity: 0.08, dashArray: dashed ? '6 6' : undefined }
+  if (shape.type === 'circle') {
+    return <Circle center={shape.center} radius={shape.radiusMeters} pathOptions={pathOptions}>{children}</Circle>
+  }
+  // Unwrapped so a polygon across the antimeridian is drawn the short way round
+  return <Polygon positions={unwrapLongitudes(shape.points)} pathOptions={pathOptions}>{children}</Polygon>
+}
+
+// Stored geofences plus the one being drawn. Map clicks go to onDraftClick
+// while drawing.
+export default function GeofenceLayer({ geofences, draft, onDraftClick }: GeofenceLayerProps) {
+  const draftShape = draft ? draftToShape(draft) : null
+
+  return (
+    <>
+      {geofences.map(geofence => (
+        <ShapeLayer key={geofence.id} shape={geofence.shape} color={geofence.enabled ? '#7c3aed' : '#9ca3af'}>
+          <Tooltip sticky>{geofence.name}</Tooltip>
+        </ShapeLayer>
+      ))}
+
+      {draft && (
+        <>
+          <DraftClicks onClick={onDraftClick} />
+          {draftShape && <ShapeLayer shape={draftShape} color="#f97316" dashed />}
+          {draft.points.map((point, index) => (
+            <CircleMarker key={index} center={point} radius={4} pathOptions={{ color: '#f97316', fillOpacity: 1 }} />
+          ))}
+        </>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,294 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Session } from '@supabase/supabase-js'
+import { createClient } from '@/utils/supabase/client'
+import { FiHexagon, FiCircle, FiX, FiTrash2, FiPlus, FiToggleLeft, FiToggleRight } from 'react-icons/fi'
+import { Geofence, GeofenceEventType, GeofenceRule } from '../lib/geofences/types'
+import { DEFAULT_GEOFENCE_RULE, describeGeofenceConditions, parseGeofenceRules } from '../lib/geofences/rules'
+import { GEOFENCES_TABLE, GEOFENCE_EVENTS_TABLE, GeofenceEventRow, GeofenceRow, geofenceFromRow } from '../lib/geofences/rows'
+import { GeofenceDraft, draftToShape } from './GeofenceLayer'
+
+interface GeofencePanelProps {
+  geofences: Geofence[]
+  onGeofencesChange: (geofences: Geofence[]) => void
+  draft: GeofenceDraft | null
+  onDraftChange: (draft: GeofenceDraft | null) => void
+}
+
+// Rule as edited in the form; numbers and lists are typed in as text
+type RuleForm = {
+  name: string
+  triggers: GeofenceEventType[]
+  minAltitudeFt: string
+  maxAltitudeFt: string
+  squawks: string
+  categories: string
+  callsignPrefix: string
+}
+
+const EMPTY_RULE: RuleForm = { name: '', triggers: ['ENTER'], minAltitudeFt: '', maxAltitudeFt: '', squawks: '', categories: '', callsignPrefix: '' }
+
+const splitList = (value: string) => value.split(/[\s,]+/).filter(Boolean)
+const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value))
+
+const formToRules = (forms: RuleForm[]): GeofenceRule[] => parseGeofenceRules(forms.map((form, index) => ({
+  id: `rule-${index + 1}`,
+  name: form.name,
+  triggers: form.triggers,
+  conditions: {
+    minAltitudeFt: toNumber(form.minAltitudeFt),
+    maxAltitudeFt: toNumber(form.maxAltitudeFt),
+    squawks: splitList(form.squawks),
+    categories: splitList(form.categories),
+    callsignPrefix: form.callsignPrefix,
+  },
+})))
+
+const formatEventTime = (time: string) =>
+  new Date(time).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+
+export default function GeofencePanel({ geofences, onGeofencesChange, draft, onDraftChange }: GeofencePanelProps) {
+  const supabase = createClient()
+  const [isOpen, setIsOpen] = useState(false)
+  const [session, setSession] = useState<Session | null>(null)
+  const [name, setName] = useState('')
+  const [rules, setRules] = useState<RuleForm[]>([EMPTY_RULE])
+  const [events, setEvents] = useState<GeofenceEventRow[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setSession(data.session))
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => setSession(newSession))
+    return () => subscription.unsubscribe()
+  }, [supabase])
+
+  const loadGeofences = useCallback(async () => {
+    if (!session) {
+      onGeofencesChange([])
+      return
+    }
+    const [geofencesResult, eventsResult] = await Promise.all([
+      supabase.from(GEOFENCES_TABLE).select('id, user_id, name, shape, rules, enabled').eq('user_id', session.user.id).order('name'),
+      supabase.from(GEOFENCE_EVENTS_TABLE).select('*').eq('user_id', session.user.id).order('occurred_at', { ascending: false }).limit(10),
+    ])
+    if (geofencesResult.error) {
+      console.warn(geofencesResult.error)
+      setError('Could not load geofences.')
+      return
+    }
+    onGeofencesChange((geofencesResult.data as GeofenceRow[]).map(geofenceFromRow).filter((geofence): geofence is Geofence => geofence !== null))
+    setEvents((eventsResult.data ?? []) as GeofenceEventRow[])
+  }, [session, supabase, onGeofencesChange])
+
+  useEffect(() => {
+    loadGeofences()
+  }, [loadGeofences])
+
+  const startDrawing = (type: GeofenceDraft['type']) => {
+    setError(null)
+    setName('')
+    setRules([EMPTY_RULE])
+    onDraftChange({ type, points: [] })
+  }
+
+  const updateRule = (index: number, changes: Partial<RuleForm>) =>
+    setRules(current => current.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)))
+
+  const toggleTrigger = (index: number, trigger: GeofenceEventType) => {
+    const { triggers } = rules[index]
+    updateRule(index, { triggers: triggers.includes(trigger) ? triggers.filter(t => t !== trigger) : [...triggers, trigger] })
+  }
+
+  async function handleSave() {
+    const shape = draft ? draftToShape(draft) : null
+    if (!session || !shape || !name.trim()) return
+
+    const { error } = await supabase
+      .from(GEOFENCES_TABLE)
+      .insert({ user_id: session.user.id, name: name.trim(), shape, rules: formToRules(rules) })
+    if (error) {
+      console.warn(error)
+      setError('Could not save the geofence.')
+      return
+    }
+    onDraftChange(null)
+    await loadGeofences()
+  }
+
+  async function handleToggle(geofence: Geofence) {
+    const { error } = await supabase
+      .from(GEOFENCES_TABLE)
+      .update({ enabled: !geofence.enabled, updated_at: new Date().toISOString() })
+      .eq('id', geofence.id)
+    if (error) {
+      console.warn(error)
+      setError('Could not update the geofence.')
+      return
+    }
+    onGeofencesChange(geofences.map(item => (item.id === geofence.id ? { ...item, enabled: !item.enabled } : item)))
+  }
+
+  async function handleDelete(id: number) {
+    const { error } = await supabase.from(GEOFENCES_TABLE).delete().eq('id', id)
+    if (error) {
+      console.warn(error)
+      setError('Could not delete the geofence.')
+      return
+    }
+    onGeofencesChange(geofences.filter(geofence => geofence.id !== id))
+  }
+
+  const draftReady = draft ? draftToShape(draft) !== null : false
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="absolute bottom-52 right-4 z-[1001] p-3 bg-white rounded-full shadow-lg text-gray-700 hover:bg-gray-100 transition-all"
+        aria-label={isOpen ? 'Close geofences' : 'Open geofences'}
+        title="Geofences"
+      >
+        {isOpen ? <FiX size={20} /> : <FiHexagon size={20} />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-52 right-20 z-[1001] w-80 max-h-[70vh] overflow-y-auto bg-white rounded-lg shadow-2xl p-4 text-sm">
+          <h2 className="font-bold text-gray-800 mb-3">Geofences</h2>
+
+          {!session ? (
+            <p className="text-gray-500">Sign in to draw geofences and get entry / exit alerts.</p>
+          ) : draft ? (
+            <div className="space-y-3">
+              <p className="text-gray-600">
+                {draft.type === 'polygon'
+                  ? `Click the map to add corners (${draft.points.length} so far, at least 3).`
+                  : draft.points.length === 0 ? 'Click the map to place the center.' : 'Click again to set the radius.'}
+              </p>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name, e.g. EPWA CTR"
+                maxLength={80}
+                className="w-full border rounded px-2 py-1"
+                aria-label="Geofence name"
+              />
+
+              {rules.map((rule, index) => (
+                <div key={index} className="border rounded p-2 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={rule.name}
+                      onChange={(e) => updateRule(index, { name: e.target.value })}
+                      placeholder={`Rule ${index + 1}`}
+                      maxLength={80}
+                      className="flex-1 min-w-0 border rounded px-2 py-1"
+                      aria-label="Rule name"
+                    />
+                    {rules.length > 1 && (
+                      <button onClick={() => setRules(rules.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-600" aria-label="Remove rule">
+                        <FiTrash2 />
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex gap-3 text-xs text-gray-600">
+                    {(['ENTER', 'EXIT'] as GeofenceEventType[]).map(trigger => (
+                      <label key={trigger} className="flex items-center gap-1">
+                        <input type="checkbox" checked={rule.triggers.includes(trigger)} onChange={() => toggleTrigger(index, trigger)} />
+                        {trigger === 'ENTER' ? 'On entry' : 'On exit'}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 text-xs">
+                    <input type="number" min={0} value={rule.minAltitudeFt} onChange={(e) => updateRule(index, { minAltitudeFt: e.target.value })} placeholder="Above (ft)" className="border rounded px-2 py-1" />
+                    <input type="number" min={0} value={rule.maxAltitudeFt} onChange={(e) => updateRule(index, { maxAltitudeFt: e.target.value })} placeholder="Below (ft)" className="border rounded px-2 py-1" />
+                    <input type="text" value={rule.squawks} onChange={(e) => updateRule(index, { squawks: e.target.value })} placeholder="Squawks, e.g. 7700" className="border rounded px-2 py-1" />
+                    <input type="text" value={rule.categories} onChange={(e) => updateRule(index, { categories: e.target.value })} placeholder="Categories, e.g. B1" className="border rounded px-2 py-1" />
+                    <input type="text" value={rule.callsignPrefix} onChange={(e) => updateRule(index, { callsignPrefix: e.target.value })} placeholder="Callsign prefix" className="col-span-2 border rounded px-2 py-1" />
+                  </div>
+                </div>
+              ))}
+              <button onClick={() => setRules([...rules, EMPTY_RULE])} className="flex items-center gap-1 text-blue-600 hover:underline">
+                <FiPlus /> Add rule
+              </button>
+
+              {error && <p className="text-red-600">{error}</p>}
+              <div className="flex gap-2">
+                <button
+                  onClick={handleSave}
+                  disabled={!draftReady || !name.trim()}
+                  className="flex-1 px-3 py-1 rounded bg-blue-600 text-white disabled:bg-gray-300"
+                >
+                  Save
+                </button>
+                <button onClick={() => onDraftChange(null)} className="flex-1 px-3 py-1 rounded border text-gray-700">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="flex gap-2 mb-3">
+                <button onClick={() => startDrawing('polygon')} className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded border hover:bg-gray-50">
+                  <FiHexagon /> Polygon
+                </button>
+                <button onClick={() => startDrawing('circle')} className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded border hover:bg-gray-50">
+                  <FiCircle /> Circle
+                </button>
+              </div>
+              {error && <p className="text-red-600 mb-2">{error}</p>}
+
+              {geofences.length === 0 ? (
+                <p className="text-gray-500">No geofences yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {geofences.map(geofence => (
+                    <li key={geofence.id} className="border rounded p-2">
+                      <div className="flex items-center gap-2">
+                        <span className="flex-1 font-semibold text-gray-800 truncate">{geofence.name}</span>
+                        <button
+                          onClick={() => handleToggle(geofence)}
+                          className={geofence.enabled ? 'text-purple-600' : 'text-gray-400'}
+                          aria-label={geofence.enabled ? 'Disable geofence' : 'Enable geofence'}
+                        >
+                          {geofence.enabled ? <FiToggleRight size={18} /> : <FiToggleLeft size={18} />}
+                        </button>
+                        <button onClick={() => handleDelete(geofence.id)} className="text-gray-400 hover:text-red-600" aria-label={`Delete ${geofence.name}`}>
+                          <FiTrash2 />
+                        </button>
+                      </div>
+                      <ul className="mt-1 text-xs text-gray-500">
+                        {(geofence.rules.length > 0 ? geofence.rules : [DEFAULT_GEOFENCE_RULE]).map(rule => (
+                          <li key={rule.id}>
+                            {rule.name}: {describeGeofenceConditions(rule.conditions)} ({rule.triggers.map(t => t.toLowerCase()).join(', ')})
+                          </li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {events.length > 0 && (
+                <>
+                  <h3 className="font-semibold text-gray-700 mt-4 mb-1">Recent events</h3>
+                  <ul className="space-y-1 text-xs text-gray-600">
+                    {events.map(event => (
+                      <li key={event.id}>
+                        <span className="text-gray-400">{formatEventTime(event.occurred_at)}</span>{' '}
+                        {event.callsign ?? event.icao24} {event.type === 'ENTER' ? 'entered' : 'left'}{' '}
+                        {geofences.find(geofence => geofence.id === event.geofence_id)?.name ?? 'a geofence'} ({event.rule_name})
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </>
+  )
+}
@@ -1,11 +1,15 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import dynamic from 'next/dynamic';
 import { fetchAllFlights, fetchAirports, fetchFlightTrack, fetchFlightPlan } from '../app/actions';
-import { FlightState, BoundingBox, Airport, AirportFilterType, FlightTrackPoint, FlightRouteInfo } from '../types';
+import { FlightState, BoundingBox, Airport, AirportFilterType, FlightTrackPoint, FlightRouteInfo, PositionSource } from '../types';
 import FilterPanel from './FilterPanel';
+import { ALL_POSITION_SOURCES, matchesPositionSources } from '../lib/positionSource';
+import { MAIN_AIRPORTS_FILTER } from '../lib/airportFilters';
+import { DEFAULT_DEAD_RECKONING_OPTIONS } from '../lib/deadReckoning';
+import { useDeadReckoning } from '../hooks/useDeadReckoning';
 
 const MapView = dynamic(() => import('./MapView'), { 
   ssr: false,
@@ -16,6 +20,10 @@ export interface FlightFilters {
   hideOnGround: boolean;
   category: string;
   minAltitude: number;
+  positionSources: PositionSource[];
+  animateAircraft: boolean;
+  maxExtrapolationSeconds: number;
+  clusterAircraft: boolean;
   showLabels: boolean;
   showAirlineLogos: boolean;
   showFlightNumbers: boolean;
@@ -31,11 +39,15 @@ export default function GlobalFlightMap() {
   const [airports, setAirports] = useState<Airport[]>([]);
   const [center, setCenter] = useState<[number, number]>([52.237, 21.017]);
   const [isLoading, setIsLoading] = useState(true);
-  const [airportFilter, setAirportFilter] = useState<AirportFilterType>('main');
+  const [airportFilter, setAirportFilter] = useState<AirportFilterType>(MAIN_AIRPORTS_FILTER);
   const [flightFilters, setFlightFilters] = useState<FlightFilters>({ 
     hideOnGround: true, 
     category: 'all',
     minAltitude: 0,
+    positionSources: ALL_POSITION_SOURCES,
+    animateAircraft: true,
+    maxExtrapolationSeconds: DEFAULT_DEAD_RECKONING_OPTIONS.maxExtrapolationSeconds,
+    clusterAircraft: false,
     showLabels: true,
     showAirlineLogos: true,
     showFlightNumbers: true,
@@ -120,9 +132,21 @@ export default function GlobalFlightMap() {
       flightsToDisplay = flightsToDisplay.filter(flight => !flight.on_ground);
     }
 
+    if (flightFilters.positionSources.length < ALL_POSITION_SOURCES.length) {
+      flightsToDisplay = flightsToDisplay.filter(flight => matchesPositionSources(flight.position_source, flightFilters.positionSources));
+    }
+
     setFilteredFlights(flightsToDisplay);
   }, [allFlights, flightFilters]);
 
+  const deadReckoningOptions = useMemo(() => ({
+    ...DEFAULT_DEAD_RECKONING_OPTIONS,
+    // Clustered markers are regrouped whenever one moves, so they aren't animated
+    enabled: flightFilters.animateAircraft && !flightFilters.clusterAircraft,
+    maxExtrapolationSeconds: flightFilters.maxExtrapolationSeconds,
+  }), [flightFilters.animateAircraft, flightFilters.clusterAircraft, flightFilters.maxExtrapolationSeconds]);
+  const animatedFlights = useDeadReckoning(filteredFlights, deadReckoningOptions);
+
   // Effect for initial centering
   useEffect(() => {
     navigator.geolocation.getCurrentPosition(
@@ -159,7 +183,7 @@ export default function GlobalFlightMap() {
         onFlightFilterChange={setFlightFilters} 
       />
       <MapView 
-        flights={filteredFlights} 
+        flights={animatedFlights} 
         airports={airports}
         center={center} 
         onBoundsChange={handleBoundsChange} 
@@ -4,10 +4,18 @@ import { useEffect, useState, useRef } from 'react'; // <--- FIX: Added useEffec
 import { MapContainer, TileLayer, Marker, Polyline, Popup, Tooltip, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { FlightState, Airport, FlightTrackPoint, BoundingBox, FlightRouteInfo } from '../types';
+import { FlightState, Airport, FlightTrackPoint, BoundingBox, FlightRouteInfo, MapFocusTarget, MapViewport } from '../types';
 import { FlightFilters } from './ClientMap';
 import MapControls from './MapControls';
+import AircraftCanvasLayer from './AircraftCanvasLayer';
+import GeofenceLayer, { GeofenceDraft } from './GeofenceLayer';
+import { Geofence } from '../lib/geofences/types';
+import MarkerClusterGroup from './MarkerClusterGroup';
 import { useRouter } from 'next/navigation';
+import { POSITION_SOURCES, getPositionSourceInfo } from '../lib/positionSource';
+import { getAircraftIconStyle, ARROW_UP_PATH, ARROW_DOWN_PATH } from '../lib/aircraftIconStyle';
+import { getSquawkAlert } from '../lib/squawk';
+import { DENSITY_COLORS, AIRCRAFT_CLUSTER_THRESHOLDS, AIRPORT_TRAFFIC_THRESHOLDS, AIRPORT_TRAFFIC_MARGIN_DEGREES, getDensityLevel, countFlightsNear } from '../lib/clusterDensity';
 
 // Fix for default icon issue with Webpack
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -17,89 +25,80 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-shadow.png',
 });
 
-// Custom airplane icon with different sizes and arrows based on vertical speed
-const airplaneIcon = (rotation: number, flight: FlightState) => {
-  let size = 24; // default size
-  let arrowDirection = 'none'; // default no arrow
-  let arrowColor = '#3b82f6'; // default blue
+const CANVAS_MARKER_THRESHOLD = 300;
 
-  // Check if we have cached aircraft info
-  const cachedInfo = aircraftCache.get(flight.icao24);
-  if (cachedInfo) {
-    // Set size based on category
-    switch (cachedInfo.category) {
-      case 'A5': // Heavy commercial jets
-        size = 36;
-        break;
-      case 'A3': // Medium commercial jets (Boeingi i Airbusy)
-        size = 32;
-        break;
-      case 'A2': // Regional jets (Embraer, Bombardier, ATR)
-        size = 24;
-        break;
-      case 'A1': // Small aircraft
-        size = 20;
-        break;
-      case 'B1': // Helicopters
-        size = 18;
-        break;
-      default:
-        // Fallback to altitude-based sizing
-        if (flight.baro_altitude) {
-          const altitudeFeet = flight.baro_altitude * 3.28084;
-          if (altitudeFeet > 35000) size = 36;
-          else if (altitudeFeet > 25000) size = 32;
-          else if (altitudeFeet > 15000) size = 28;
-          else if (altitudeFeet > 5000) size = 24;
-          else if (altitudeFeet > 1000) size = 20;
-          else size = 18;
-        }
-    }
-  } else {
-    // No cached info, use altitude-based sizing
-    if (flight.baro_altitude) {
-      const altitudeFeet = flight.baro_altitude * 3.28084;
-      if (altitudeFeet > 35000) size = 36;
-      else if (altitudeFeet > 25000) size = 32;
-      else if (altitudeFeet > 15000) size = 28;
-      else if (altitudeFeet > 5000) size = 24;
-      else if (altitudeFeet > 1000) size = 20;
-      else size = 18;
-    }
-  }
-  
-  // Determine arrow direction based on vertical speed
-  if (flight.vertical_rate !== null && flight.vertical_rate !== undefined) {
-    const vsFeetPerMin = flight.vertical_rate * 196.85; // Convert m/s to ft/min
-    
-    if (vsFeetPerMin > 100) {
-      arrowDirection = 'up';
-      arrowColor = '#16a34a'; // green for climbing
-    } else if (vsFeetPerMin < -100) {
-      arrowDirection = 'down';
-      arrowColor = '#dc2626'; // red for descending
-    } else {
-      arrowDirection = 'none'; // no arrow for near-zero V/S (-100 to +100 ft/min)
-    }
+// Markers are re-rendered on every animation frame; reusing the icon instance
+// keeps Leaflet from rebuilding the marker DOM when nothing visible changed
+const divIconCache = new Map<string, L.DivIcon>();
+const MAX_CACHED_ICONS = 2000;
+
+const getCachedDivIcon = (options: { html: string; className: string; iconSize: [number, number]; iconAnchor: [number, number] }) => {
+  const key = `${options.html}|${options.iconSize.join(',')}`;
+  let icon = divIconCache.get(key);
+  if (!icon) {
+    if (divIconCache.size >= MAX_CACHED_ICONS) divIconCache.clear();
+    icon = new L.DivIcon(options);
+    divIconCache.set(key, icon);
   }
+  return icon;
+};
+
+// Custom airplane icon with different sizes and arrows based on vertical speed
+const airplaneIcon = (rotation: number, flight: FlightState) => {
+  const { size, arrowDirection, arrowColor, arrowSize } = getAircraftIconStyle(flight, aircraftCache.get(flight.icao24)?.category);
 
   // Create arrow SVG based on direction
   let arrowSvg = '';
-  const arrowSize = Math.max(12, size * 0.4); // Smaller arrow, proportional to plane size
   
   if (arrowDirection === 'up') {
     arrowSvg = `<svg width="${arrowSize}" height="${arrowSize}" viewBox="0 0 24 24" fill="${arrowColor}">
-      <path d="M12 2L4 10h3v8h10v-8h3L12 2z"/>
+      <path d="${ARROW_UP_PATH}"/>
     </svg>`;
   } else if (arrowDirection === 'down') {
     arrowSvg = `<svg width="${arrowSize}" height="${arrowSize}" viewBox="0 0 24 24" fill="${arrowColor}">
-      <path d="M12 22L20 14h-3V6H7v8H4L12 22z"/>
+      <path d="${ARROW_DOWN_PATH}"/>
     </svg>`;
   }
 
+  // MLAT and radar positions get a dashed ring and faded plane so they stand
+  // out from reported GNSS positions; every non ADS-B source gets a badge
+  const positionSource = getPositionSourceInfo(flight.position_source);
+  const isApproximate = positionSource !== null && !positionSource.precise;
+  const sourceRing = isApproximate
+    ? `<div style="
+        position: absolute;
+        top: -3px;
+        left: -3px;
+        width: ${size + 6}px;
+        height: ${size + 6}px;
+        border: 2px dashed ${positionSource.color};
+        border-radius: 50%;
+        pointer-events: none;
+      "></div>`
+    : '';
+  const sourceBadge = positionSource?.badge
+    ? `<div style="
+        position: absolute;
+        top: -6px;
+        left: -6px;
+        min-width: 12px;
+        height: 12px;
+        padding: 0 2px;
+        border-radius: 6px;
+        background: ${positionSource.color};
+        color: white;
+        font-size: 8px;
+        font-weight: bold;
+        line-height: 12px;
+        text-align: center;
+        pointer-events: none;
+      ">${positionSource.badge}</div>`
+    : '';
+
   // Use airplane image with arrow beside it
-  return new L.DivIcon({
+  return getCachedDivIcon({
     html: `<div style="position: relative; display: inline-block;">
+            ${sourceRing}
             <img 
               src="/plane.png" 
               style="
@@ -108,8 +107,10 @@ const airplaneIcon = (rotation: number, flight: FlightState) => {
                 transform: rotate(${rotation}deg); 
                 transform-origin: center;
                 filter: drop-shadow(0 2px 4px rgba(0,0,0,0.4));
+                opacity: ${isApproximate ? 0.7 : 1};
               "
             />
+            ${sourceBadge}
             ${arrowSvg ? `<div style="
               position: absolute; 
               top: ${size/2 - arrowSize/2}px; 
@@ -128,8 +129,160 @@ const airplaneIcon = (rotation: number, flight: FlightState) => {
   });
 };
 
+// Aircraft drawn on the canvas layer have no marker of their own; this invisible
+// one follows the aircraft and carries its hover label or popup
+const emptyIcon = new L.DivIcon({ html: '', className: '', iconSize: [0, 0] });
+
+const CanvasFlightAnchor = ({ flight, openPopup = false, children }: { flight: FlightState; openPopup?: boolean; children: React.ReactNode }) => {
+  const markerRef = useRef<L.Marker | null>(null);
+
+  useEffect(() => {
+    if (openPopup) markerRef.current?.openPopup();
+  }, [openPopup]);
+
+  return (
+    <Marker ref={markerRef} position={[flight.latitude, flight.longitude]} icon={emptyIcon} interactive={false} keyboard={false}>
+      {children}
+    </Marker>
+  );
+};
+
+// Clustering is coarser when zoomed out and tightens as the map zooms in
+const airportClusterRadius = (zoom: number) => (zoom >= 10 ? 30 : zoom >= 7 ? 50 : 70);
+const aircraftClusterRadius = (zoom: number) => (zoom >= 9 ? 40 : zoom >= 6 ? 60 : 80);
+
+// Aircraft clusters split into single markers from this zoom, so the selected
+// flight and its popup are always reachable
+const AIRCRAFT_CLUSTERING_MAX_ZOOM = 11;
+
+const AIRPORT_CLUSTER_REFRESH_MS = 15000;
+
+// Dot on the selected track for the point hovered in the flight profile
+const TRACK_HIGHLIGHT_ICON = L.divIcon({
+  html: '<div style="width: 14px; height: 14px; border-radius: 50%; background: white; border: 3px solid orange; box-shadow: 0 0 4px rgba(0,0,0,0.5);"></div>',
+  className: '',
+  iconSize: [14, 14],
+  iconAnchor: [7, 7]
+});
+
+// Airport cluster badge: number of airports, ring coloured by how much traffic is around them
+const airportClusterIcon = (cluster: L.MarkerCluster, flights: FlightState[]) => {
+  const count = cluster.getChildCount();
+  const bounds = cluster.getBounds();
+  const traffic = countFlightsNear(
+    flights,
+    { south: bounds.getSouth(), west: bounds.getWest(), north: bounds.getNorth(), east: bounds.getEast() },
+    AIRPORT_TRAFFIC_MARGIN_DEGREES
+  );
+  const color = DENSITY_COLORS[getDensityLevel(traffic, AIRPORT_TRAFFIC_THRESHOLDS)];
+  const size = count >= 100 ? 44 : count >= 10 ? 38 : 32;
+
+  return new L.DivIcon({
+    html: `<div title="${count} airports, ${traffic} aircraft nearby" style="
+              position: relative;
+              width: ${size}px;
+              height: ${size}px;
+              border-radius: 50%;
+              background: white;
+              border: 3px solid ${color};
+              box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+              display: flex;
+              align-items: center;
+              justify-content: center;
+              font-weight: bold;
+              font-size: 12px;
+              color: #1f2937;
+            ">
+            ${count}
+            ${traffic > 0 ? `<span style="
+              position: absolute;
+              bottom: -8px;
+              right: -10px;
+              background: ${color};
+              color: white;
+              border-radius: 8px;
+              padding: 0 4px;
+              font-size: 9px;
+              line-height: 14px;
+              white-space: nowrap;
+            ">✈ ${traffic}</span>` : ''}
+          </div>`,
+    className: '',
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2]
+  });
+};
+
+// Aircraft cluster badge: number of aircraft, coloured by density
+const aircraftClusterIcon = (cluster: L.MarkerCluster) => {
+  const count = cluster.getChildCount();
+  const color = DENSITY_COLORS[getDensityLevel(count, AIRCRAFT_CLUSTER_THRESHOLDS)];
+  const size = count >= 100 ? 48 : count >= 10 ? 40 : 34;
+
+  return new L.DivIcon({
+    html: `<div title="${count} aircraft" style="
+              width: ${size}px;
+              height: ${size}px;
+              border-radius: 50%;
+              background: ${color};
+              opacity: 0.9;
+              border: 3px solid rgba(255,255,255,0.8);
+              box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+              display: flex;
+              align-items: center;
+              justify-content: center;
+              font-weight: bold;
+              font-size: 12px;
+              color: white;
+            ">✈ ${count}</div>`,
+    className: '',
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2]
+  });
+};
+
+// Flies the map to each new focus target
+const MapFocus = ({ target }: { target: MapFocusTarget | null }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!target) return;
+    map.flyTo([target.latitude, target.longitude], target.zoom ?? map.getZoom());
+  }, [map, target]);
+
+  return null;
+};
+
+// Pulsing ring and code badge around aircraft squawking an emergency code or
+// ident. Not interactive, so clicks still reach the aircraft underneath.
+const SquawkAlertLayer = ({ flights }: { flights: FlightState[] }) => (
+  <>
+    {flights.map(flight => {
+      const alert = getSquawkAlert(flight);
+      if (!alert) return null;
+      return (
+        <Marker
+          key={`squawk-${flight.icao24}`}
+          position={[flight.latitude, flight.longitude]}
+          interactive={false}
+          zIndexOffset={1000}
+          icon={L.divIcon({
+            html: `<div style="--squawk-alert-color: ${alert.color}; position: relative; width: 44px; height: 44px;">
+              <div class="squawk-alert-ring"></div>
+              <div class="squawk-alert-badge">${alert.kind === 'emergency' ? flight.squawk : 'IDENT'}</div>
+            </div>`,
+            className: '',
+            iconSize: [44, 44],
+            iconAnchor: [22, 22]
+          })}
+        />
+      );
+    })}
+  </>
+);
+
 // Component to handle map events
-const MapEvents = ({ onBoundsChange }: { onBoundsChange: (bounds: BoundingBox) => void; }) => {
+const MapEvents = ({ onBoundsChange, onViewChange }: { onBoundsChange: (bounds: BoundingBox) => void; onViewChange?: (view: MapViewport) => void; }) => {
   const map = useMap();
 
   const handleEvent = () => {
@@ -146,6 +299,10 @@ const MapEvents = ({ onBoundsChange }: { onBoundsChange: (bounds: BoundingBox) =
         lamax: bounds.getNorth(),
         lomax: bounds.getEast()
       });
+      if (onViewChange) {
+        const center = map.getCenter();
+        onViewChange({ latitude: center.lat, longitude: center.lng, zoom: map.getZoom() });
+      }
     } catch (error) {
       console.warn('Map bounds not available yet:', error);
     }
@@ -738,6 +895,12 @@ const createFlightLabel = (flight: FlightState, filters: FlightFilters, aircraft
     const speedKnots = Math.round(flight.velocity * 1.94384);
     parts.push(`<span style="color: #dc2626;">${speedKnots} kt</span>`);
   }
+
+  // Flag positions that aren't reported by the aircraft itself
+  const positionSource = getPositionSourceInfo(flight.position_source);
+  if (parts.length > 0 && positionSource && !positionSource.precise) {
+    parts.push(`<span style="color: ${positionSource.color}; font-size: 10px;">${positionSource.label}</span>`);
+  }
   
   if (parts.length === 0) return null;
   
@@ -768,16 +931,28 @@ interface MapViewProps {
   isFlightDetailsLoading: boolean;
   flightFilters: FlightFilters;
   mapCenter?: { lat: number; lng: number };
+  focusTarget?: MapFocusTarget | null;
+  onViewChange?: (view: MapViewport) => void;
+  geofences?: Geofence[];
+  geofenceDraft?: GeofenceDraft | null;
+  onGeofenceDraftClick?: (point: [number, number]) => void;
+  // Track point picked elsewhere (e.g. on the flight profile charts)
+  highlightedPoint?: FlightTrackPoint | null;
 }
 
 const MapView = ({ 
   flights, airports, center, zoom = 7, onBoundsChange, onFlightClick, onPopupClose, 
-  selectedTrack, selectedFlightIcao, isPopupOpen, selectedFlightRoute, isFlightDetailsLoading, flightFilters, mapCenter 
+  selectedTrack, selectedFlightIcao, isPopupOpen, selectedFlightRoute, isFlightDetailsLoading, flightFilters, mapCenter, focusTarget = null, onViewChange,
+  geofences = [], geofenceDraft = null, onGeofenceDraftClick = () => {}, highlightedPoint = null
 }: MapViewProps) => {
   const router = useRouter();
   const [aircraftInfoState, setAircraftInfoState] = useState<{[icao24: string]: string}>({});
   const [hoverTimeout, setHoverTimeout] = useState<NodeJS.Timeout | null>(null);
   const [isLegendVisible, setIsLegendVisible] = useState(false); // Default to hidden on mobile
+  const [hoveredFlightIcao, setHoveredFlightIcao] = useState<string | null>(null);
+  const [canvasPopupKey, setCanvasPopupKey] = useState(0);
+  const airportClusterRef = useRef<L.MarkerClusterGroup | null>(null);
+  const flightsRef = useRef(flights);
   const hasLoggedStatus = useRef(false);
   const hasLoggedAircraftCount = useRef(false);
   const isMounted = useRef(true);
@@ -935,6 +1110,31 @@ const MapView = ({
     hasLoggedAircraftCount.current = false;
   }, [flights.length]);
 
+  // Airport cluster badges count the aircraft around them; redraw them now and
+  // then rather than on every animation frame
+  flightsRef.current = flights;
+  useEffect(() => {
+    const intervalId = setInterval(() => airportClusterRef.current?.refreshClusters(), AIRPORT_CLUSTER_REFRESH_MS);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  // Open the popup of a searched airport once its marker has been loaded for
+  // the new view (the airport may be hidden by the current filter)
+  const openedFocusRef = useRef<MapFocusTarget | null>(null);
+  useEffect(() => {
+    const group = airportClusterRef.current;
+    if (!focusTarget?.airportId || !group || openedFocusRef.current === focusTarget) return;
+    const airport = airports.find(candidate => candidate.id === focusTarget.airportId);
+    if (!airport) return;
+
+    group.eachLayer((layer: L.Layer) => {
+      if (layer instanceof L.Marker && layer.getLatLng().equals([airport.lat, airport.lon])) {
+        openedFocusRef.current = focusTarget;
+        group.zoomToShowLayer(layer, () => layer.openPopup());
+      }
+    });
+  }, [airports, focusTarget]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -945,6 +1145,121 @@ const MapView = ({
     };
   }, [hoverTimeout]);
 
+  const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
+  // Past this many aircraft, DOM markers get too slow and we draw on a canvas
+  // (clustered aircraft stay DOM markers, the clustering keeps their number down)
+  const renderOnCanvas = !flightFilters.clusterAircraft && flights.length > CANVAS_MARKER_THRESHOLD;
+  const hoveredFlight = hoveredFlightIcao ? flights.find(f => f.icao24 === hoveredFlightIcao) : undefined;
+  const selectedFlight = selectedFlightIcao ? flights.find(f => f.icao24 === selectedFlightIcao) : undefined;
+
+  const renderSelectedFlightPopup = (flight: FlightState) => (
+    <div className="w-48">
+      <h3 className="font-bold text-lg">{flight.callsign || 'Unknown'}</h3>
+      {(() => {
+        const alert = getSquawkAlert(flight);
+        return alert && (
+          <p className="font-bold" style={{ color: alert.color }}>
+            {alert.kind === 'emergency' ? `Squawk ${alert.label}` : `Squawk ${flight.squawk ?? '—'} · ${alert.label}`}
+          </p>
+        );
+      })()}
+      {isFlightDetailsLoading ? (
+        <p>Loading details...</p>
+      ) : (
+        <>
+          {selectedFlightRoute ? (
+            <p>
+              Route: {selectedFlightRoute.departureAirport} to {selectedFlightRoute.arrivalAirport}
+            </p>
+          ) : (
+            <p>Route information not available.</p>
+          )}
+          <button 
+            className="text-blue-500 hover:underline mt-2" 
+            onClick={() => {
+              console.log('MapView: Navigating to details for ICAO24:', flight.icao24);
+              router.push(`/flight/${flight.icao24}`);
+            }}
+          >
+            Details &rarr;
+          </button>
+        </>
+      )}
+    </div>
+  );
+
+  const renderFlightMarker = (flight: FlightState) => {
+    const label = createFlightLabel(flight, flightFilters, aircraftInfoState, updateAircraftInfo);
+    return (
+      <Marker 
+        key={flight.icao24} 
+        position={[flight.latitude, flight.longitude]}
+        icon={airplaneIcon(flight.true_track || 0, flight)}
+        eventHandlers={{ 
+          click: () => {
+            onFlightClick(flight);
+          },
+          mouseover: () => {
+            if (!isMobile) {
+              handleHover(flight);
+            }
+          }
+        }}
+      >
+        {/* Show popup on mobile, tooltip on desktop */}
+        {isMobile ? (
+          <Popup>
+            <div className="w-48">
+              <h3 className="font-bold text-lg mb-2">{flight.callsign || 'Unknown'}</h3>
+              {label && (
+                <div className="mb-3" dangerouslySetInnerHTML={{ __html: label }} />
+              )}
+              <button 
+                className="w-full bg-blue-500 text-white font-bold py-2 px-4 rounded hover:bg-blue-600 transition-colors" 
+                onClick={() => {
+                  console.log('MapView: Navigating to details for ICAO24:', flight.icao24);
+                  router.push(`/flight/${flight.icao24}`);
+                }}
+              >
+                Details &rarr;
+              </button>
+            </div>
+          </Popup>
+        ) : (
+          label && (
+            <Tooltip 
+              direction="right"
+              offset={[10, 0]}
+              className="flight-label-tooltip"
+            >
+              <div>
+                <div dangerouslySetInnerHTML={{ __html: label }} />
+                <div className="mt-2 pt-2 border-t border-gray-200">
+                  <button 
+                    className="text-blue-500 hover:text-blue-700 text-xs font-medium" 
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      console.log('MapView: Navigating to details for ICAO24:', flight.icao24);
+                      router.push(`/flight/${flight.icao24}`);
+                    }}
+                  >
+                    Details &rarr;
+                  </button>
+                </div>
+              </div>
+            </Tooltip>
+          )
+        )}
+
+        {selectedFlightIcao === flight.icao24 && !isMobile && (
+          <Popup>
+            {renderSelectedFlightPopup(flight)}
+          </Popup>
+        )}
+      </Marker>
+    );
+  };
+
   return (
     <div style={{ position: 'relative', height: '100%', width: '100%' }}>
     <MapContainer 
@@ -958,116 +1273,101 @@ const MapView = ({
         attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
         url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
       />
-      <MapEvents onBoundsChange={onBoundsChange} />
+      <MapEvents onBoundsChange={onBoundsChange} onViewChange={onViewChange} />
+      <MapFocus target={focusTarget} />
       <MapControls />
+      <GeofenceLayer geofences={geofences} draft={geofenceDraft} onDraftClick={onGeofenceDraftClick} />
 
-      {airports.map(airport => (
-        <Marker key={airport.icao} position={[airport.lat, airport.lon]}>
-          <Popup>{airport.name}</Popup>
-        </Marker>
-      ))}
+      <MarkerClusterGroup
+        ref={airportClusterRef}
+        chunkedLoading
+        showCoverageOnHover={false}
+        spiderfyOnMaxZoom
+        spiderfyDistanceMultiplier={1.5}
+        maxClusterRadius={airportClusterRadius}
+        iconCreateFunction={(cluster: L.MarkerCluster) => airportClusterIcon(cluster, flightsRef.current)}
+      >
+        {airports.map(airport => (
+          <Marker key={airport.id} position={[airport.lat, airport.lon]}>
+            <Popup>
+              <div className="font-bold">{airport.name}</div>
+              <div className="text-xs text-gray-600">
+                {airport.iata} · {airport.country}{airport.size && ` · ${airport.size}`}{airport.type !== 'airport' && ` · ${airport.type}`}
+              </div>
+              <button
+                className="text-blue-500 hover:underline mt-2"
+                onClick={() => router.push(`/airports/${airport.iata}`)}
+              >
+                Arrivals &amp; departures &rarr;
+              </button>
+            </Popup>
+          </Marker>
+        ))}
+      </MarkerClusterGroup>
 
-        {flights.map(flight => {
-          const label = createFlightLabel(flight, flightFilters, aircraftInfoState, updateAircraftInfo);
-          const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
-          
-          return (
-        <Marker 
-          key={flight.icao24} 
-          position={[flight.latitude, flight.longitude]}
-              icon={airplaneIcon(flight.true_track || 0, flight)}
-              eventHandlers={{ 
-                click: () => {
-                  onFlightClick(flight);
-                },
-                mouseover: () => {
-                  if (!isMobile) {
-                    handleHover(flight);
-                  }
-                }
+        {renderOnCanvas ? (
+          <>
+            <AircraftCanvasLayer
+              flights={flights}
+              getCategory={(icao24) => aircraftCache.get(icao24)?.category}
+              selectedFlightIcao={selectedFlightIcao}
+              onFlightClick={(flight) => {
+                setCanvasPopupKey(key => key + 1);
+                onFlightClick(flight);
               }}
-            >
-              {/* Show popup on mobile, tooltip on desktop */}
-              {isMobile ? (
-                <Popup>
-                  <div className="w-48">
-                    <h3 className="font-bold text-lg mb-2">{flight.callsign || 'Unknown'}</h3>
-                    {label && (
-                      <div className="mb-3" dangerouslySetInnerHTML={{ __html: label }} />
-                    )}
-                    <button 
-                      className="w-full bg-blue-500 text-white font-bold py-2 px-4 rounded hover:bg-blue-600 transition-colors" 
-                      onClick={() => {
-                        console.log('MapView: Navigating to details for ICAO24:', flight.icao24);
-                        router.push(`/details/${flight.icao24}`);
-                      }}
-                    >
-                      Details &rarr;
-                    </button>
-                  </div>
-                </Popup>
-              ) : (
-                label && (
-                  <Tooltip 
-                    direction="right"
-                    offset={[10, 0]}
-                    className="flight-label-tooltip"
-                  >
-                    <div>
-                      <div dangerouslySetInnerHTML={{ __html: label }} />
-                      <div className="mt-2 pt-2 border-t border-gray-200">
-                        <button 
-                          className="text-blue-500 hover:text-blue-700 text-xs font-medium" 
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            console.log('MapView: Navigating to details for ICAO24:', flight.icao24);
-                            router.push(`/details/${flight.icao24}`);
-                          }}
-                        >
-                          Details &rarr;
-                        </button>
-                      </div>
-                    </div>
+              onFlightHover={(flight) => {
+                setHoveredFlightIcao(flight?.icao24 ?? null);
+                if (flight && !isMobile) handleHover(flight);
+              }}
+            />
+            {hoveredFlight && hoveredFlight.icao24 !== selectedFlightIcao && !isMobile && (() => {
+              const label = createFlightLabel(hoveredFlight, flightFilters, aircraftInfoState, updateAircraftInfo);
+              return label && (
+                <CanvasFlightAnchor flight={hoveredFlight}>
+                  <Tooltip permanent direction="right" offset={[10, 0]} className="flight-label-tooltip">
+                    <div dangerouslySetInnerHTML={{ __html: label }} />
                   </Tooltip>
-                )
-              )}
-              
-              {selectedFlightIcao === flight.icao24 && !isMobile && (
-                <Popup>
-              <div className="w-48">
-                <h3 className="font-bold text-lg">{flight.callsign || 'Unknown'}</h3>
-                {isFlightDetailsLoading ? (
-                  <p>Loading details...</p>
-                ) : (
-                  <>
-                    {selectedFlightRoute ? (
-                      <p>
-                        Route: {selectedFlightRoute.departureAirport} to {selectedFlightRoute.arrivalAirport}
-                      </p>
-                    ) : (
-                      <p>Route information not available.</p>
-                    )}
-                    <button 
-                      className="text-blue-500 hover:underline mt-2" 
-                          onClick={() => {
-                            console.log('MapView: Navigating to details for ICAO24:', flight.icao24);
-                            router.push(`/details/${flight.icao24}`);
-                          }}
-                    >
-                      Details &rarr;
-                    </button>
-                  </>
-                )}
-              </div>
-            </Popup>
-          )}
-        </Marker>
-          );
-        })}
+                </CanvasFlightAnchor>
+              );
+            })()}
+            {selectedFlight && (
+              <CanvasFlightAnchor key={`${selectedFlight.icao24}-${canvasPopupKey}`} flight={selectedFlight} openPopup>
+                <Popup autoClose={false} closeOnClick={false}>
+                  {renderSelectedFlightPopup(selectedFlight)}
+                </Popup>
+              </CanvasFlightAnchor>
+            )}
+          </>
+        ) : flightFilters.clusterAircraft ? (
+          <>
+            <MarkerClusterGroup
+              chunkedLoading
+              showCoverageOnHover={false}
+              spiderfyOnMaxZoom={false}
+              disableClusteringAtZoom={AIRCRAFT_CLUSTERING_MAX_ZOOM}
+              maxClusterRadius={aircraftClusterRadius}
+              iconCreateFunction={aircraftClusterIcon}
+            >
+              {flights.filter(flight => flight.icao24 !== selectedFlightIcao).map(renderFlightMarker)}
+            </MarkerClusterGroup>
+            {/* Kept out of the clusters so its popup stays on the map */}
+            {selectedFlight && renderFlightMarker(selectedFlight)}
+          </>
+        ) : flights.map(renderFlightMarker)}
+
+      <SquawkAlertLayer flights={flights} />
 
       {selectedTrack && (
         <Polyline pathOptions={{ color: 'orange' }} positions={selectedTrack.map(p => [p.latitude, p.longitude])} />
       )}
+      {highlightedPoint && (
+        <Marker
+          position={[highlightedPoint.latitude, highlightedPoint.longitude]}
+          interactive={false}
+          zIndexOffset={2000}
+          icon={TRACK_HIGHLIGHT_ICON}
+        />
+      )}
     </MapContainer>
       
       {/* Legend Toggle Button */}
@@ -1122,6 +1422,14 @@ const MapView = ({
             <div style={{ color: '#16a34a' }}>🟢 Low-medium (5k-15k ft)</div>
             <div style={{ color: '#0891b2' }}>🔵 Low (&lt;5k ft)</div>
           </div>
+          <div style={{ marginTop: '8px', fontSize: '10px' }}>
+            <div>Position source:</div>
+            {POSITION_SOURCES.map(info => (
+              <div key={info.source} style={{ color: info.color }}>
+                {info.badge ? `[${info.badge}]` : '●'} {info.label}{!info.precise && ' (dashed ring, approximate)'}
+              </div>
+            ))}
+          </div>
           <div style={{ marginTop: '8px', fontSize: '10px', color: '#6b7280' }}>
             💡 Hover for details
           </div>
@@ -1,3 +1,4 @@
 import MarkerClusterGroup from 'react-leaflet-markercluster';
+import 'react-leaflet-markercluster/styles';
 
-export default MarkerClusterGroup; 
\ No newline at end of file
+export default MarkerClusterGroup;
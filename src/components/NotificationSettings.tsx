@@ -0,0 +1,272 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/utils/supabase/client'
+import { FiLoader, FiX } from 'react-icons/fi'
+import { NOTIFICATION_CHANNELS, NOTIFICATION_EVENTS, DEFAULT_NOTIFICATION_PREFERENCES } from '../lib/notifications/preferences'
+import { NotificationChannel, NotificationEvent, NotificationPreference } from '../lib/notifications/types'
+import { checkWebhookUrl } from '../app/actions'
+
+type NotificationSettingsProps = {
+  userId: string
+  item: { id: number; value: string; notify_on_land: boolean }
+  onClose: () => void
+  onSaved: (notifyOnLand: boolean) => void
+}
+
+type PushState = 'unsupported' | 'unsubscribed' | 'subscribed' | 'denied'
+
+const selectionKey = (event: NotificationEvent, channel: NotificationChannel) => `${event}:${channel}`
+
+// VAPID public keys are base64url; PushManager wants the raw bytes
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/')
+  return Uint8Array.from(atob(padded), char => char.charCodeAt(0))
+}
+
+const isPushSupported = () =>
+  typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && !!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+
+export default function NotificationSettings({ userId, item, onClose, onSaved }: NotificationSettingsProps) {
+  const supabase = createClient()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [enabled, setEnabled] = useState(item.notify_on_land)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [email, setEmail] = useState('')
+  const [webhookUrl, setWebhookUrl] = useState('')
+  const [webhookSecret, setWebhookSecret] = useState('')
+  const [pushState, setPushState] = useState<PushState>('unsupported')
+
+  useEffect(() => {
+    let ignore = false
+    async function load() {
+      setLoading(true)
+      const [preferencesResult, channelsResult] = await Promise.all([
+        supabase.from('notification_preferences').select('event, channel, enabled').eq('tracked_item_id', item.id),
+        supabase.from('notification_channels').select('email, webhook_url, webhook_secret').eq('user_id', userId).maybeSingle(),
+      ])
+      if (ignore) return
+
+      if (preferencesResult.error) console.warn(preferencesResult.error)
+      const preferences = (preferencesResult.data ?? []) as Pick<NotificationPreference, 'event' | 'channel' | 'enabled'>[]
+      const active = preferences.length > 0 ? preferences.filter(preference => preference.enabled) : DEFAULT_NOTIFICATION_PREFERENCES
+      setSelected(new Set(active.map(preference => selectionKey(preference.event, preference.channel))))
+
+      if (channelsResult.data) {
+        setEmail(channelsResult.data.email ?? '')
+        setWebhookUrl(channelsResult.data.webhook_url ?? '')
+        setWebhookSecret(channelsResult.data.webhook_secret ?? '')
+      }
+
+      if (isPushSupported()) {
+        if (Notification.permission === 'denied') {
+          setPushState('denied')
+        } else {
+          const registration = await navigator.serviceWorker.getRegistration('/sw.js')
+          const subscription = await registration?.pushManager.getSubscription()
+          if (!ignore) setPushState(subscription ? 'subscribed' : 'unsubscribed')
+        }
+      }
+      setLoading(false)
+    }
+
+    load()
+    return () => {
+      ignore = true
+    }
+  }, [item.id, userId, supabase])
+
+  const toggleSelection = (key: string) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  async function handleEnablePush() {
+    try {
+      const permission = await Notification.requestPermission()
+      if (permission !== 'granted') {
+        setPushState(permission === 'denied' ? 'denied' : 'unsubscribed')
+        return
+      }
+
+      const registration = await navigator.serviceWorker.register('/sw.js')
+      await navigator.serviceWorker.ready
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!),
+      })
+      const json = subscription.toJSON()
+
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .upsert({ user_id: userId, endpoint: subscription.endpoint, p256dh: json.keys?.p256dh, auth: json.keys?.auth }, { onConflict: 'endpoint' })
+      if (error) throw error
+
+      setPushState('subscribed')
+    } catch (error) {
+      alert('Error enabling push notifications: ' + (error as Error).message)
+    }
+  }
+
+  async function handleSave() {
+    try {
+      setSaving(true)
+      // Delivery checks the URL again, this only catches mistakes before saving
+      if (webhookUrl.trim()) {
+        const problem = await checkWebhookUrl(webhookUrl.trim())
+        if (problem) throw new Error(problem)
+      }
+      // Every combination is stored so that "nothing selected" isn't read as the defaults
+      const preferences = NOTIFICATION_EVENTS.flatMap(event => NOTIFICATION_CHANNELS.map(channel => ({
+        user_id: userId,
+        tracked_item_id: item.id,
+        event: event.value,
+        channel: channel.value,
+        enabled: selected.has(selectionKey(event.value, channel.value)),
+      })))
+
+      const [preferencesResult, channelsResult, itemResult] = await Promise.all([
+        supabase.from('notification_preferences').upsert(preferences, { onConflict: 'tracked_item_id,event,channel' }),
+        supabase.from('notification_channels').upsert({
+          user_id: userId,
+          email: email.trim() || null,
+          webhook_url: webhookUrl.trim() || null,
+          webhook_secret: webhookSecret.trim() || null,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id' }),
+        supabase.from('tracked_items').update({ notify_on_land: enabled }).eq('id', item.id).eq('user_id', userId),
+      ])
+      const error = preferencesResult.error ?? channelsResult.error ?? itemResult.error
+      if (error) throw error
+
+      onSaved(enabled)
+      onClose()
+    } catch (error) {
+      alert('Error saving notification settings: ' + (error as Error).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div className="w-full max-w-lg bg-white rounded-xl shadow-xl border border-gray-200 p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800">Notifications</h3>
+            <p className="font-mono text-sm text-gray-500">{item.value}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:bg-gray-100 rounded-full transition" aria-label="Close">
+            <FiX size={20} />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12"><FiLoader className="animate-spin text-gray-400" size={24} /></div>
+        ) : (
+          <div className="mt-4 space-y-6">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+              Notify me about this item
+            </label>
+
+            <table className={`w-full text-sm ${enabled ? '' : 'opacity-50'}`}>
+              <thead>
+                <tr className="text-left text-xs uppercase text-gray-400">
+                  <th className="py-1 font-semibold">Event</th>
+                  {NOTIFICATION_CHANNELS.map(channel => (
+                    <th key={channel.value} className="py-1 font-semibold text-center">{channel.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {NOTIFICATION_EVENTS.map(event => (
+                  <tr key={event.value} className="border-t border-gray-100">
+                    <td className="py-2 text-gray-700">{event.label}</td>
+                    {NOTIFICATION_CHANNELS.map(channel => {
+                      const key = selectionKey(event.value, channel.value)
+                      return (
+                        <td key={channel.value} className="py-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={selected.has(key)}
+                            onChange={() => toggleSelection(key)}
+                            disabled={!enabled}
+                            aria-label={`${event.label} by ${channel.label}`}
+                          />
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="space-y-3">
+              <p className="text-xs font-semibold uppercase text-gray-400">Channels (all items)</p>
+              <div>
+                <label htmlFor="notificationEmail" className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                <input
+                  id="notificationEmail"
+                  type="email"
+                  placeholder="Account email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="md:col-span-2">
+                  <label htmlFor="webhookUrl" className="block text-sm font-medium text-gray-700 mb-1">Webhook URL</label>
+                  <input
+                    id="webhookUrl"
+                    type="url"
+                    placeholder="https://example.com/hooks/flights"
+                    value={webhookUrl}
+                    onChange={(e) => setWebhookUrl(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="webhookSecret" className="block text-sm font-medium text-gray-700 mb-1">Signing secret</label>
+                  <input
+                    id="webhookSecret"
+                    type="password"
+                    value={webhookSecret}
+                    onChange={(e) => setWebhookSecret(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-700">Push on this device</span>
+                {pushState === 'subscribed' && <span className="text-green-600 font-semibold">Enabled</span>}
+                {pushState === 'denied' && <span className="text-red-500">Blocked in browser settings</span>}
+                {pushState === 'unsupported' && <span className="text-gray-400">Not available</span>}
+                {pushState === 'unsubscribed' && (
+                  <button onClick={handleEnablePush} className="px-3 py-1 bg-gray-200 text-gray-700 font-semibold rounded-lg hover:bg-gray-300 transition">
+                    Enable
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <button onClick={onClose} className="px-4 py-2 text-sm bg-gray-200 text-gray-700 font-semibold rounded-lg hover:bg-gray-300 transition">
+                Cancel
+              </button>
+              <button onClick={handleSave} disabled={saving} className="px-4 py-2 text-sm bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition flex items-center gap-2">
+                {saving && <FiLoader className="animate-spin" />} Save
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
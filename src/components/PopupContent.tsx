@@ -48,7 +48,7 @@ const PopupContent = ({ flight, airlineInfo, routeInfo, isLoading }: PopupConten
                 <FlagAndCountry />
             )}
 
-            <Link href={`/details/${flight.icao24}`} className="block text-center mt-3 text-blue-600 hover:underline font-semibold" onClick={() => console.log('PopupContent: Navigating to details for ICAO24:', flight.icao24)}>
+            <Link href={`/flight/${flight.icao24}`} className="block text-center mt-3 text-blue-600 hover:underline font-semibold" onClick={() => console.log('PopupContent: Navigating to details for ICAO24:', flight.icao24)}>
                 Details →
             </Link>
         </div>
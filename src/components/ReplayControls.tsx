@@ -0,0 +1,126 @@
+'use client';
+
+import { FiPlay, FiPause, FiClock, FiX } from 'react-icons/fi';
+
+export const REPLAY_SPEEDS = [1, 5, 10, 30, 60];
+export const REPLAY_WINDOWS_HOURS = [1, 3, 6, 24];
+
+interface ReplayControlsProps {
+  isActive: boolean;
+  onToggle: () => void;
+  windowHours: number;
+  onWindowChange: (hours: number) => void;
+  start: number;
+  end: number;
+  time: number;
+  onTimeChange: (time: number) => void;
+  isPlaying: boolean;
+  onPlayPause: () => void;
+  speed: number;
+  onSpeedChange: (speed: number) => void;
+  isLoading: boolean;
+  aircraftCount: number;
+  // Busy periods hit the row cap and are missing samples
+  isTruncated: boolean;
+}
+
+const formatTime = (time: number) =>
+  new Date(time * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export default function ReplayControls({
+  isActive, onToggle, windowHours, onWindowChange, start, end, time, onTimeChange,
+  isPlaying, onPlayPause, speed, onSpeedChange, isLoading, aircraftCount, isTruncated
+}: ReplayControlsProps) {
+  if (!isActive) {
+    return (
+      <button
+        onClick={onToggle}
+        className="absolute bottom-28 right-4 z-[1001] p-3 bg-white rounded-full shadow-lg text-gray-700 hover:bg-gray-100 transition-all"
+        aria-label="Open replay"
+        title="Replay recorded traffic"
+      >
+        <FiClock size={20} />
+      </button>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1001] w-[95%] max-w-2xl bg-white rounded-lg shadow-2xl p-3 md:p-4">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <span className="px-2 py-0.5 text-xs font-bold text-white bg-orange-500 rounded">REPLAY</span>
+          <span className="font-mono text-sm text-gray-800">{formatTime(time)}</span>
+          <span className="text-xs text-gray-500">
+            {isLoading ? 'Loading history...' : `${aircraftCount} aircraft`}
+          </span>
+        </div>
+        <button
+          onClick={onToggle}
+          className="p-1 text-gray-500 hover:text-gray-800"
+          aria-label="Back to live map"
+          title="Back to live map"
+        >
+          <FiX size={18} />
+        </button>
+      </div>
+
+      {isTruncated && !isLoading && (
+        <p className="mb-2 text-xs text-orange-600">
+          Too much traffic to replay in full, so some aircraft positions are missing. Zoom in or pick a shorter window.
+        </p>
+      )}
+
+      <input
+        type="range"
+        min={start}
+        max={end}
+        step={1}
+        value={time}
+        onChange={(e) => onTimeChange(parseInt(e.target.value, 10))}
+        disabled={isLoading}
+        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+        aria-label="Replay time"
+      />
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>{formatTime(start)}</span>
+        <span>{formatTime(end)}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mt-2">
+        <button
+          onClick={onPlayPause}
+          disabled={isLoading}
+          className="p-2 bg-blue-500 text-white rounded-full hover:bg-blue-600 disabled:opacity-50 transition-colors"
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <FiPause size={16} /> : <FiPlay size={16} />}
+        </button>
+
+        <div className="flex items-center space-x-1">
+          {REPLAY_SPEEDS.map(option => (
+            <button
+              key={option}
+              onClick={() => onSpeedChange(option)}
+              className={`px-2 py-1 text-xs rounded ${speed === option ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center space-x-2 text-xs text-gray-600 ml-auto">
+          <span>Last</span>
+          <select
+            value={windowHours}
+            onChange={(e) => onWindowChange(parseInt(e.target.value, 10))}
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            {REPLAY_WINDOWS_HOURS.map(hours => (
+              <option key={hours} value={hours}>{hours} h</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Session } from '@supabase/supabase-js'
+import { createClient } from '@/utils/supabase/client'
+import { FiBookmark, FiX, FiLoader, FiTrash2, FiEye, FiEyeOff } from 'react-icons/fi'
+import { AirportFilterType, BoundingBox } from '../types'
+import { FlightFilters } from './ClientMap'
+import { NOTIFICATION_CHANNELS } from '../lib/notifications/preferences'
+import { NotificationChannel } from '../lib/notifications/types'
+import { SAVED_VIEWS_TABLE, SAVED_VIEW_COLUMNS, SavedView, SavedViewRow, normalizeViewBounds, savedViewFromRow } from '../lib/savedViews'
+import { containsBounds } from '../lib/geo'
+import { fetchSnapshotRegions } from '../app/actions'
+
+interface SavedViewsPanelProps {
+  bounds: BoundingBox | null
+  zoom: number | null
+  flightFilters: FlightFilters
+  airportFilter: AirportFilterType
+  onApply: (view: SavedView) => void
+}
+
+export default function SavedViewsPanel({ bounds, zoom, flightFilters, airportFilter, onApply }: SavedViewsPanelProps) {
+  const supabase = createClient()
+  const [isOpen, setIsOpen] = useState(false)
+  const [session, setSession] = useState<Session | null>(null)
+  const [views, setViews] = useState<SavedView[]>([])
+  const [loading, setLoading] = useState(false)
+  const [name, setName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  // Recorded regions; watch areas outside them are only checked while the map shows them
+  const [recordedRegions, setRecordedRegions] = useState<BoundingBox[] | null>(null)
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setSession(data.session))
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => setSession(newSession))
+    return () => subscription.unsubscribe()
+  }, [supabase])
+
+  const loadViews = useCallback(async () => {
+    if (!session) return
+    setLoading(true)
+    const { data, error } = await supabase
+      .from(SAVED_VIEWS_TABLE)
+      .select(SAVED_VIEW_COLUMNS)
+      .eq('user_id', session.user.id)
+      .order('name')
+    if (error) {
+      console.warn(error)
+      setError('Could not load saved views.')
+    } else {
+      setViews((data as SavedViewRow[]).map(savedViewFromRow))
+    }
+    setLoading(false)
+  }, [session, supabase])
+
+  useEffect(() => {
+    if (isOpen) loadViews()
+  }, [isOpen, loadViews])
+
+  useEffect(() => {
+    if (!isOpen || recordedRegions) return
+    fetchSnapshotRegions()
+      .then(regions => setRecordedRegions(regions.map(region => region.bounds)))
+      .catch(error => console.warn(error))
+  }, [isOpen, recordedRegions])
+
+  const isRecorded = (view: SavedView) =>
+    !recordedRegions || recordedRegions.some(region => containsBounds(region, view.bounds))
+
+  async function handleSave(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    const trimmed = name.trim()
+    if (!session || !bounds || zoom === null || !trimmed) return
+
+    setError(null)
+    const { error } = await supabase
+      .from(SAVED_VIEWS_TABLE)
+      .insert({
+        user_id: session.user.id,
+        name: trimmed,
+        ...normalizeViewBounds(bounds),
+        zoom,
+        flight_filters: flightFilters,
+        airport_filter: airportFilter,
+      })
+    if (error) {
+      setError(error.code === '23505' ? 'You already have a view with this name.' : 'Could not save the view.')
+      return
+    }
+    setName('')
+    await loadViews()
+  }
+
+  async function updateView(id: number, changes: Partial<Pick<SavedViewRow, 'is_watch_area' | 'watch_channels'>>) {
+    const { error } = await supabase
+      .from(SAVED_VIEWS_TABLE)
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+    if (error) {
+      console.warn(error)
+      setError('Could not update the view.')
+      return
+    }
+    await loadViews()
+  }
+
+  async function handleDelete(id: number) {
+    const { error } = await supabase.from(SAVED_VIEWS_TABLE).delete().eq('id', id)
+    if (error) {
+      console.warn(error)
+      setError('Could not delete the view.')
+      return
+    }
+    setViews(current => current.filter(view => view.id !== id))
+  }
+
+  const toggleChannel = (view: SavedView, channel: NotificationChannel) => {
+    const channels = view.watchChannels.includes(channel)
+      ? view.watchChannels.filter(c => c !== channel)
+      : [...view.watchChannels, channel]
+    updateView(view.id, { watch_channels: channels })
+  }
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="absolute bottom-40 right-4 z-[1001] p-3 bg-white rounded-full shadow-lg text-gray-700 hover:bg-gray-100 transition-all"
+        aria-label={isOpen ? 'Close saved views' : 'Open saved views'}
+        title="Saved views"
+      >
+        {isOpen ? <FiX size={20} /> : <FiBookmark size={20} />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-40 right-20 z-[1001] w-72 max-h-[60vh] overflow-y-auto bg-white rounded-lg shadow-2xl p-4 text-sm">
+          <h2 className="font-bold text-gray-800 mb-3">Saved views</h2>
+
+          {!session ? (
+            <p className="text-gray-500">Sign in to save map views and watch areas.</p>
+          ) : (
+            <>
+              <form onSubmit={handleSave} className="flex gap-2 mb-3">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., EPWA approach"
+                  maxLength={80}
+                  className="flex-1 min-w-0 border rounded px-2 py-1"
+                  aria-label="View name"
+                />
+                <button
+                  type="submit"
+                  disabled={!name.trim() || !bounds}
+                  className="px-3 py-1 rounded bg-blue-600 text-white disabled:bg-gray-300"
+                >
+                  Save
+                </button>
+              </form>
+              {error && <p className="text-red-600 mb-2">{error}</p>}
+
+              {loading && views.length === 0 ? (
+                <div className="flex justify-center py-2 text-gray-400"><FiLoader className="animate-spin" /></div>
+              ) : views.length === 0 ? (
+                <p className="text-gray-500">No saved views yet. Saving stores the current area, zoom and filters.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {views.map(view => (
+                    <li key={view.id} className="border rounded p-2">
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => onApply(view)}
+                          className="flex-1 text-left font-semibold text-gray-800 hover:text-blue-600 truncate"
+                          title="Show this view"
+                        >
+                          {view.name}
+                        </button>
+                        <button
+                          onClick={() => updateView(view.id, { is_watch_area: !view.isWatchArea })}
+                          className={view.isWatchArea ? 'text-orange-500' : 'text-gray-400 hover:text-gray-600'}
+                          aria-label={view.isWatchArea ? 'Stop watching this area' : 'Watch this area'}
+                          title={view.isWatchArea ? 'Watch area: alerts when a matching aircraft enters' : 'Use as watch area'}
+                        >
+                          {view.isWatchArea ? <FiEye /> : <FiEyeOff />}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(view.id)}
+                          className="text-gray-400 hover:text-red-600"
+                          aria-label={`Delete ${view.name}`}
+                        >
+                          <FiTrash2 />
+                        </button>
+                      </div>
+                      {view.isWatchArea && (
+                        <div className="flex gap-3 mt-1 text-xs text-gray-600">
+                          {NOTIFICATION_CHANNELS.map(({ value, label }) => (
+                            <label key={value} className="flex items-center gap-1">
+                              <input
+                                type="checkbox"
+                                checked={view.watchChannels.includes(value)}
+                                onChange={() => toggleChannel(view, value)}
+                              />
+                              {label}
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                      {view.isWatchArea && !isRecorded(view) && (
+                        <p className="mt-1 text-xs text-orange-600">
+                          Outside the recorded regions: entries are only noticed while someone has this area open on the map.
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </>
+  )
+}
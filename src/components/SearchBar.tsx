@@ -0,0 +1,145 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react';
+import { FiSearch, FiX, FiLoader } from 'react-icons/fi';
+import { FlightState, SearchResult } from '../types';
+import { searchFlights } from '../app/actions';
+import { searchFlightStates } from '../lib/flightSearch';
+
+interface SearchBarProps {
+  // Flights currently on the map, matched instantly while the world-wide search runs
+  flights: FlightState[];
+  onSelect: (result: SearchResult) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+const MAX_RESULTS = 12;
+
+const KIND_LABELS: Record<SearchResult['kind'], string> = {
+  flight: '✈',
+  aircraft: '⌁',
+  airport: '⊙',
+};
+
+export default function SearchBar({ flights, onSelect }: SearchBarProps) {
+  const [query, setQuery] = useState('');
+  // Kept with the query that produced them, so results of an earlier query
+  // never show (or get picked with Enter) while the next one is pending
+  const [remote, setRemote] = useState<{ query: string; results: SearchResult[] }>({ query: '', results: [] });
+  const [isSearching, setIsSearching] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const trimmed = query.trim();
+  const localResults = trimmed.length >= MIN_QUERY_LENGTH ? searchFlightStates(flights, trimmed) : [];
+  const remoteResults = remote.query === trimmed ? remote.results : [];
+  const seen = new Set(localResults.map(result => result.id));
+  const results = [...localResults, ...remoteResults.filter(result => !seen.has(result.id))].slice(0, MAX_RESULTS);
+
+  useEffect(() => {
+    if (trimmed.length < MIN_QUERY_LENGTH) return;
+    // Responses for an older query are dropped; the spinner belongs to the
+    // current one, so a cleared or changed query stops it
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await searchFlights(trimmed);
+        if (isCurrent) setRemote({ query: trimmed, results: found });
+      } catch (error) {
+        console.error('SearchBar: Search failed:', error);
+        if (isCurrent) setRemote({ query: trimmed, results: [] });
+      } finally {
+        if (isCurrent) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+      setIsSearching(false);
+    };
+  }, [trimmed]);
+
+  // Close the list when clicking elsewhere
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  const select = (result: SearchResult) => {
+    onSelect(result);
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(index => Math.min(results.length - 1, index + 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(index => Math.max(0, index - 1));
+    } else if (event.key === 'Enter' && results[activeIndex]) {
+      event.preventDefault();
+      select(results[activeIndex]);
+    } else if (event.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="absolute top-3 left-1/2 -translate-x-1/2 z-[1001] w-[90%] max-w-md">
+      <div className="flex items-center gap-2 bg-white rounded-lg shadow-lg px-3 py-2">
+        <FiSearch className="text-gray-400 shrink-0" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Callsign, flight, registration, hex, airline or airport"
+          className="flex-1 text-sm text-gray-800 outline-none bg-transparent"
+          aria-label="Search flights and airports"
+        />
+        {isSearching && <FiLoader className="animate-spin text-gray-400 shrink-0" />}
+        {query && (
+          <button onClick={() => setQuery('')} className="text-gray-400 hover:text-gray-600" aria-label="Clear search">
+            <FiX />
+          </button>
+        )}
+      </div>
+
+      {isOpen && trimmed.length >= MIN_QUERY_LENGTH && (
+        <ul className="mt-1 bg-white rounded-lg shadow-lg max-h-80 overflow-y-auto text-sm">
+          {results.length === 0 ? (
+            <li className="px-3 py-2 text-gray-500">{isSearching ? 'Searching...' : 'No matches'}</li>
+          ) : results.map((result, index) => (
+            <li key={result.id}>
+              <button
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => select(result)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`w-full text-left px-3 py-2 flex items-start gap-2 ${index === activeIndex ? 'bg-blue-50' : ''}`}
+              >
+                <span className="text-gray-400 w-4 shrink-0">{KIND_LABELS[result.kind]}</span>
+                <span>
+                  <span className="block font-semibold text-gray-800">{result.label}</span>
+                  <span className="block text-xs text-gray-500">{result.description}</span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { FlightState } from '../types';
+import { DeadReckoningOptions, extrapolateFlightState } from '../lib/deadReckoning';
+
+interface AnimatedAircraft {
+  state: FlightState;
+  // Offset from the extrapolated position that fades out after a new poll,
+  // so the marker glides to the corrected position instead of jumping
+  offset: { latitude: number; longitude: number };
+  blendStart: number;
+}
+
+const wrapLongitudeDelta = (delta: number) => ((delta + 540) % 360) - 180;
+
+// Smoothstep, so the correction starts and ends gently
+const ease = (t: number) => t * t * (3 - 2 * t);
+
+function currentPosition(aircraft: AnimatedAircraft, nowMs: number, options: DeadReckoningOptions): FlightState {
+  const extrapolated = extrapolateFlightState(aircraft.state, nowMs / 1000, options);
+  const progress = options.blendDurationMs > 0
+    ? Math.min(1, (nowMs - aircraft.blendStart) / options.blendDurationMs)
+    : 1;
+  if (progress >= 1) return extrapolated;
+
+  const remaining = 1 - ease(progress);
+  return {
+    ...extrapolated,
+    latitude: extrapolated.latitude + aircraft.offset.latitude * remaining,
+    longitude: wrapLongitudeDelta(extrapolated.longitude + aircraft.offset.longitude * remaining),
+  };
+}
+
+// Returns the flights with positions extrapolated from velocity, true_track and
+// time_position, re-rendering on animation frames. Flights from a new poll blend
+// in from wherever their marker currently is.
+export function useDeadReckoning(flights: FlightState[], options: DeadReckoningOptions): FlightState[] {
+  const aircraftRef = useRef(new Map<string, AnimatedAircraft>());
+  const optionsRef = useRef(options);
+  const [animatedFlights, setAnimatedFlights] = useState<FlightState[]>(flights);
+
+  optionsRef.current = options;
+
+  // Merge new poll results into the animation state
+  useEffect(() => {
+    const nowMs = Date.now();
+    const previous = aircraftRef.current;
+    const next = new Map<string, AnimatedAircraft>();
+
+    for (const flight of flights) {
+      const existing = previous.get(flight.icao24);
+      if (!existing || !optionsRef.current.enabled) {
+        next.set(flight.icao24, { state: flight, offset: { latitude: 0, longitude: 0 }, blendStart: nowMs });
+        continue;
+      }
+      if (existing.state === flight) {
+        next.set(flight.icao24, existing);
+        continue;
+      }
+
+      const displayed = currentPosition(existing, nowMs, optionsRef.current);
+      const corrected = extrapolateFlightState(flight, nowMs / 1000, optionsRef.current);
+      next.set(flight.icao24, {
+        state: flight,
+        offset: {
+          latitude: displayed.latitude - corrected.latitude,
+          longitude: wrapLongitudeDelta(displayed.longitude - corrected.longitude),
+        },
+        blendStart: nowMs,
+      });
+    }
+
+    aircraftRef.current = next;
+    setAnimatedFlights(flights.map(flight => currentPosition(next.get(flight.icao24)!, nowMs, optionsRef.current)));
+  }, [flights]);
+
+  // Animation loop
+  useEffect(() => {
+    if (!options.enabled) {
+      setAnimatedFlights(Array.from(aircraftRef.current.values()).map(aircraft => aircraft.state));
+      return;
+    }
+
+    let frameId: number;
+    let lastFrame = 0;
+    const animate = (timestamp: number) => {
+      if (timestamp - lastFrame >= optionsRef.current.frameIntervalMs) {
+        lastFrame = timestamp;
+        const nowMs = Date.now();
+        setAnimatedFlights(
+          Array.from(aircraftRef.current.values()).map(aircraft => currentPosition(aircraft, nowMs, optionsRef.current))
+        );
+      }
+      frameId = requestAnimationFrame(animate);
+    };
+    frameId = requestAnimationFrame(animate);
+    return () => cancelAnimationFrame(frameId);
+  }, [options.enabled]);
+
+  return animatedFlights;
+}
@@ -0,0 +1,73 @@
+import { FlightState } from '../types';
+
+// Climb/descent arrows, 24x24 viewBox
+export const ARROW_UP_PATH = 'M12 2L4 10h3v8h10v-8h3L12 2z';
+export const ARROW_DOWN_PATH = 'M12 22L20 14h-3V6H7v8H4L12 22z';
+
+export type VerticalTrend = 'up' | 'down' | 'none';
+
+export interface AircraftIconStyle {
+  size: number;
+  arrowDirection: VerticalTrend;
+  arrowColor: string;
+  arrowSize: number;
+}
+
+// Fallback sizing when the aircraft category isn't known yet
+const sizeFromAltitude = (baroAltitude: number | null): number => {
+  if (!baroAltitude) return 24;
+  const altitudeFeet = baroAltitude * 3.28084;
+  if (altitudeFeet > 35000) return 36;
+  if (altitudeFeet > 25000) return 32;
+  if (altitudeFeet > 15000) return 28;
+  if (altitudeFeet > 5000) return 24;
+  if (altitudeFeet > 1000) return 20;
+  return 18;
+};
+
+// Marker size and climb/descent arrow for an aircraft. category is the
+// ADS-B emitter category from the aircraft info cache ("A3", "B1", ...).
+export function getAircraftIconStyle(flight: FlightState, category: string | null | undefined): AircraftIconStyle {
+  let size: number;
+  switch (category) {
+    case 'A5': // Heavy commercial jets
+      size = 36;
+      break;
+    case 'A3': // Medium commercial jets (Boeingi i Airbusy)
+      size = 32;
+      break;
+    case 'A2': // Regional jets (Embraer, Bombardier, ATR)
+      size = 24;
+      break;
+    case 'A1': // Small aircraft
+      size = 20;
+      break;
+    case 'B1': // Helicopters
+      size = 18;
+      break;
+    default:
+      size = sizeFromAltitude(flight.baro_altitude);
+  }
+
+  let arrowDirection: VerticalTrend = 'none';
+  let arrowColor = '#3b82f6'; // default blue
+
+  // No arrow for near-zero V/S (-100 to +100 ft/min)
+  if (flight.vertical_rate !== null && flight.vertical_rate !== undefined) {
+    const vsFeetPerMin = flight.vertical_rate * 196.85; // Convert m/s to ft/min
+    if (vsFeetPerMin > 100) {
+      arrowDirection = 'up';
+      arrowColor = '#16a34a'; // green for climbing
+    } else if (vsFeetPerMin < -100) {
+      arrowDirection = 'down';
+      arrowColor = '#dc2626'; // red for descending
+    }
+  }
+
+  return {
+    size,
+    arrowDirection,
+    arrowColor,
+    arrowSize: Math.max(12, size * 0.4), // Smaller arrow, proportional to plane size
+  };
+}
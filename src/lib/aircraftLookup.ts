@@ -0,0 +1,41 @@
+import { flightNumberToCallsigns } from './flightNumbers';
+import { isIcao24, normalizeRegistration, resolveRegistrations } from './registrationResolver';
+import { peekWorldStates } from './search';
+import { findSnapshotIcao24ByCallsign } from './snapshots';
+
+export type AircraftIdentifierKind = 'icao24' | 'registration' | 'callsign';
+
+export interface ResolvedAircraft {
+  icao24: string;
+  matchedBy: AircraftIdentifierKind;
+}
+
+// World-wide states already downloaded for search or the emergency banner;
+// page renders never start a download of their own
+const CACHED_WORLD_STATES_MAX_AGE_MS = 15 * 60 * 1000;
+
+// Turns whatever identifies an aircraft in a URL into its transponder code:
+// a hex icao24 as is, then a callsign (or IATA flight number) in the cached
+// world-wide states, a registration through the resolver, and finally the
+// aircraft that last used the callsign in the recorded snapshots.
+// Six hex characters are always read as an icao24.
+export async function resolveAircraftIdentifier(identifier: string): Promise<ResolvedAircraft | null> {
+  const trimmed = identifier.trim();
+  if (!trimmed) return null;
+  if (isIcao24(trimmed)) return { icao24: trimmed.toLowerCase(), matchedBy: 'icao24' };
+
+  const callsigns = flightNumberToCallsigns(trimmed);
+  const airborne = peekWorldStates(CACHED_WORLD_STATES_MAX_AGE_MS)
+    .find(state => state.callsign && callsigns.includes(state.callsign.trim().toUpperCase()));
+  if (airborne) return { icao24: airborne.icao24, matchedBy: 'callsign' };
+
+  // Registrations have at least a prefix and three letters
+  const normalized = normalizeRegistration(trimmed);
+  if (normalized.length >= 4) {
+    const icao24 = (await resolveRegistrations([trimmed])).get(normalized);
+    if (icao24) return { icao24, matchedBy: 'registration' };
+  }
+
+  const recorded = await findSnapshotIcao24ByCallsign(callsigns);
+  return recorded ? { icao24: recorded, matchedBy: 'callsign' } : null;
+}
@@ -0,0 +1,117 @@
+import { Airport, BoundingBox, FlightState } from '../types';
+import { distanceMeters, bearingDegrees, headingDifference, normalizeLongitude } from './geo';
+
+export type AirportMovement = 'arrival' | 'departure' | 'on_ground';
+
+export interface AirportBoardEntry {
+  flight: FlightState;
+  movement: AirportMovement;
+  distanceKm: number;
+  altitudeFt: number | null;
+  verticalRateFpm: number | null;
+  // Arrivals only: minutes to the field at the current ground speed
+  etaMinutes: number | null;
+}
+
+export interface AirportBoard {
+  arrivals: AirportBoardEntry[];
+  departures: AirportBoardEntry[];
+  onGround: AirportBoardEntry[];
+}
+
+export interface AirportBoardOptions {
+  // Airborne traffic further away than this isn't considered
+  radiusKm: number;
+  // Only flights below this are arriving or departing
+  maxAltitudeFt: number;
+  // Climb/descent needed to count as departing/arriving
+  minVerticalRateFpm: number;
+  // Aircraft on the ground within this distance are at the field
+  groundRadiusKm: number;
+}
+
+export const DEFAULT_AIRPORT_BOARD_OPTIONS: AirportBoardOptions = {
+  radiusKm: 40,
+  maxAltitudeFt: 10000,
+  minVerticalRateFpm: 300,
+  groundRadiusKm: 5,
+};
+
+const M_TO_FT = 3.28084;
+const MS_TO_FPM = 196.85;
+
+// Bounding box around a point, wide enough to contain a circle of radiusKm.
+// Longitudes are wrapped, so a box across the antimeridian has lomin > lomax;
+// close to the poles it covers every longitude.
+export function boundingBoxAround(latitude: number, longitude: number, radiusKm: number): BoundingBox {
+  const latDelta = radiusKm / 111.32;
+  const lonDelta = radiusKm / (111.32 * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01));
+  const lamin = Math.max(-90, latitude - latDelta);
+  const lamax = Math.min(90, latitude + latDelta);
+  if (lonDelta >= 180) return { lamin, lomin: -180, lamax, lomax: 180 };
+  return {
+    lamin,
+    lamax,
+    lomin: normalizeLongitude(longitude - lonDelta),
+    lomax: normalizeLongitude(longitude + lonDelta),
+  };
+}
+
+// Guesses what each nearby aircraft is doing at the airport: low and descending
+// towards it is an arrival, low and climbing away is a departure.
+export function classifyAirportMovement(
+  airport: Airport,
+  flight: FlightState,
+  options: AirportBoardOptions = DEFAULT_AIRPORT_BOARD_OPTIONS
+): AirportBoardEntry | null {
+  const distanceKm = distanceMeters(airport.lat, airport.lon, flight.latitude, flight.longitude) / 1000;
+  const altitude = flight.baro_altitude ?? flight.geo_altitude;
+  const altitudeFt = altitude !== null ? altitude * M_TO_FT : null;
+  const verticalRateFpm = flight.vertical_rate !== null ? flight.vertical_rate * MS_TO_FPM : null;
+  const entry = { flight, distanceKm, altitudeFt, verticalRateFpm, etaMinutes: null };
+
+  if (flight.on_ground) {
+    return distanceKm <= options.groundRadiusKm ? { ...entry, movement: 'on_ground' } : null;
+  }
+
+  if (distanceKm > options.radiusKm) return null;
+  if (altitudeFt === null || altitudeFt > options.maxAltitudeFt) return null;
+  if (verticalRateFpm === null || Math.abs(verticalRateFpm) < options.minVerticalRateFpm) return null;
+
+  // Track relative to the line between aircraft and field; unknown track gives the benefit of the doubt
+  const towardsField = bearingDegrees(flight.latitude, flight.longitude, airport.lat, airport.lon);
+  const headingToField = flight.true_track === null || headingDifference(flight.true_track, towardsField) < 90;
+  // Close in, a departure may still be turning back over the field
+  const closeIn = distanceKm < options.groundRadiusKm * 2;
+
+  if (verticalRateFpm < 0 && headingToField) {
+    const etaMinutes = flight.velocity && flight.velocity > 0 ? (distanceKm * 1000) / flight.velocity / 60 : null;
+    return { ...entry, movement: 'arrival', etaMinutes };
+  }
+  if (verticalRateFpm > 0 && (!headingToField || closeIn)) {
+    return { ...entry, movement: 'departure' };
+  }
+  return null;
+}
+
+export function buildAirportBoard(
+  airport: Airport,
+  flights: FlightState[],
+  options: AirportBoardOptions = DEFAULT_AIRPORT_BOARD_OPTIONS
+): AirportBoard {
+  const board: AirportBoard = { arrivals: [], departures: [], onGround: [] };
+
+  for (const flight of flights) {
+    const entry = classifyAirportMovement(airport, flight, options);
+    if (!entry) continue;
+    if (entry.movement === 'arrival') board.arrivals.push(entry);
+    else if (entry.movement === 'departure') board.departures.push(entry);
+    else board.onGround.push(entry);
+  }
+
+  // Soonest arrival first; departures and ground traffic closest to the field first
+  board.arrivals.sort((a, b) => (a.etaMinutes ?? Infinity) - (b.etaMinutes ?? Infinity) || a.distanceKm - b.distanceKm);
+  board.departures.sort((a, b) => a.distanceKm - b.distanceKm);
+  board.onGround.sort((a, b) => a.distanceKm - b.distanceKm);
+  return board;
+}
@@ -0,0 +1,44 @@
+import { Airport, AirportFilterType, AirportKind, AirportSize, Continent } from '../types';
+
+export const AIRPORT_SIZES: { size: AirportSize; label: string }[] = [
+  { size: 'large', label: 'Large' },
+  { size: 'medium', label: 'Medium' },
+  { size: 'small', label: 'Small' },
+];
+
+export const AIRPORT_KINDS: { type: AirportKind; label: string }[] = [
+  { type: 'airport', label: 'Airports' },
+  { type: 'heliport', label: 'Heliports' },
+  { type: 'seaplane', label: 'Seaplane bases' },
+];
+
+export const CONTINENTS: { continent: Continent; label: string }[] = [
+  { continent: 'AF', label: 'Africa' },
+  { continent: 'AN', label: 'Antarctica' },
+  { continent: 'AS', label: 'Asia' },
+  { continent: 'EU', label: 'Europe' },
+  { continent: 'NA', label: 'North America' },
+  { continent: 'OC', label: 'Oceania' },
+  { continent: 'SA', label: 'South America' },
+];
+
+// What used to be 'main': airports big enough for scheduled traffic
+export const MAIN_AIRPORTS_FILTER: AirportFilterType = {
+  sizes: ['large', 'medium'],
+  types: ['airport'],
+  continents: [],
+};
+
+export const ALL_AIRPORTS_FILTER: AirportFilterType = {
+  sizes: [],
+  types: [],
+  continents: [],
+};
+
+export function matchesAirportFilter(airport: Airport, filter: AirportFilterType): boolean {
+  if (filter.types.length > 0 && !filter.types.includes(airport.type)) return false;
+  if (filter.continents.length > 0 && !filter.continents.includes(airport.continent)) return false;
+  // Heliports and seaplane bases have no size, so the size filter only applies to airports
+  if (filter.sizes.length > 0 && airport.type === 'airport' && (!airport.size || !filter.sizes.includes(airport.size))) return false;
+  return true;
+}
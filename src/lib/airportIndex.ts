@@ -0,0 +1,180 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Airport, AirportFilterType, AirportKind, AirportSize, BoundingBox, Continent } from '../types';
+import { ALL_AIRPORTS_FILTER, matchesAirportFilter } from './airportFilters';
+import { boundingBoxAround } from './airportBoard';
+import { distanceMeters } from './geo';
+
+// Entry as it appears in src/data/airports_utf8.json
+interface RawAirport {
+  iata: string;
+  name: string | null;
+  iso: string;
+  continent: string;
+  type: string;
+  size: string | null;
+  status: number;
+  lat?: string;
+  lon?: string;
+}
+
+export interface AirportIndex {
+  airports: Airport[];
+  query: (bbox: BoundingBox, filter: AirportFilterType) => Airport[];
+  findByIata: (iata: string) => Airport | null;
+  // Closest airport of any size or type within radiusKm
+  findNearest: (latitude: number, longitude: number, radiusKm: number) => { airport: Airport; distanceKm: number } | null;
+}
+
+// Grid cell size in degrees
+const CELL_SIZE = 1;
+
+const AIRPORT_KINDS: Record<string, AirportKind> = {
+  airport: 'airport',
+  heliport: 'heliport',
+  seaplanes: 'seaplane',
+};
+
+const AIRPORT_SIZES = new Set<string>(['large', 'medium', 'small']);
+const CONTINENTS = new Set<string>(['AF', 'AN', 'AS', 'EU', 'NA', 'OC', 'SA']);
+
+// Converts a raw entry, or returns null for closed airports and entries without a usable position
+function normalizeAirport(raw: RawAirport): Omit<Airport, 'id'> | null {
+  if (!raw || raw.status !== 1 || !raw.iata) return null;
+
+  const type = AIRPORT_KINDS[raw.type];
+  if (!type) return null;
+
+  const lat = raw.lat !== undefined ? parseFloat(raw.lat) : NaN;
+  const lon = raw.lon !== undefined ? parseFloat(raw.lon) : NaN;
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  if (!CONTINENTS.has(raw.continent)) return null;
+
+  return {
+    iata: raw.iata,
+    name: raw.name || raw.iata,
+    country: raw.iso,
+    continent: raw.continent as Continent,
+    type,
+    size: type === 'airport' && raw.size && AIRPORT_SIZES.has(raw.size) ? (raw.size as AirportSize) : null,
+    lat,
+    lon,
+  };
+}
+
+const cellIndex = (value: number) => Math.floor(value / CELL_SIZE);
+const cellKey = (latCell: number, lonCell: number) => `${latCell}:${lonCell}`;
+
+// Longitude ranges covered by a bounding box, split at the antimeridian
+function longitudeRanges(lomin: number, lomax: number): [number, number][] {
+  let span = lomax - lomin;
+  // lomin > lomax means the box already crosses the antimeridian
+  if (span < 0) span += 360;
+  if (span >= 360) return [[-180, 180]];
+
+  const start = ((lomin + 540) % 360) - 180;
+  const end = start + span;
+  if (end <= 180) return [[start, end]];
+  return [[start, 180], [-180, end - 360]];
+}
+
+export function buildAirportIndex(rawAirports: RawAirport[]): AirportIndex {
+  const airports: Airport[] = [];
+  const byIata = new Map<string, Airport>();
+  const seenCodes = new Map<string, number>();
+  const grid = new Map<string, Airport[]>();
+
+  for (const raw of rawAirports) {
+    const normalized = normalizeAirport(raw);
+    if (!normalized) continue;
+
+    // A few IATA codes appear twice in the source data
+    const seen = seenCodes.get(normalized.iata) ?? 0;
+    seenCodes.set(normalized.iata, seen + 1);
+    const airport: Airport = { id: seen === 0 ? normalized.iata : `${normalized.iata}-${seen + 1}`, ...normalized };
+
+    airports.push(airport);
+    if (!byIata.has(airport.iata)) byIata.set(airport.iata, airport);
+
+    const key = cellKey(cellIndex(airport.lat), cellIndex(airport.lon));
+    const cell = grid.get(key);
+    if (cell) cell.push(airport);
+    else grid.set(key, [airport]);
+  }
+
+  const query = (bbox: BoundingBox, filter: AirportFilterType): Airport[] => {
+    const lamin = Math.max(-90, bbox.lamin);
+    const lamax = Math.min(90, bbox.lamax);
+    if (lamin > lamax) return [];
+
+    const results: Airport[] = [];
+    for (const [lomin, lomax] of longitudeRanges(bbox.lomin, bbox.lomax)) {
+      for (let latCell = cellIndex(lamin); latCell <= cellIndex(lamax); latCell++) {
+        for (let lonCell = cellIndex(lomin); lonCell <= cellIndex(lomax); lonCell++) {
+          const cell = grid.get(cellKey(latCell, lonCell));
+          if (!cell) continue;
+          for (const airport of cell) {
+            if (
+              airport.lat >= lamin && airport.lat <= lamax &&
+              airport.lon >= lomin && airport.lon <= lomax &&
+              matchesAirportFilter(airport, filter)
+            ) {
+              results.push(airport);
+            }
+          }
+        }
+      }
+    }
+    return results;
+  };
+
+  const findNearest = (latitude: number, longitude: number, radiusKm: number) => {
+    let nearest: { airport: Airport; distanceKm: number } | null = null;
+    const candidates = query(boundingBoxAround(latitude, longitude, radiusKm), ALL_AIRPORTS_FILTER);
+    for (const airport of candidates) {
+      const distanceKm = distanceMeters(latitude, longitude, airport.lat, airport.lon) / 1000;
+      if (distanceKm <= radiusKm && (!nearest || distanceKm < nearest.distanceKm)) {
+        nearest = { airport, distanceKm };
+      }
+    }
+    return nearest;
+  };
+
+  return {
+    airports,
+    query,
+    findByIata: (iata: string) => byIata.get(iata.toUpperCase()) ?? null,
+    findNearest,
+  };
+}
+
+let airportIndexPromise: Promise<AirportIndex> | null = null;
+
+// Failures resolve to an empty index that stays cached: the file only changes
+// with a deploy, so retrying would re-read it and log the same error on every call
+async function loadAirportIndex(): Promise<AirportIndex> {
+  try {
+    const filePath = path.join(process.cwd(), 'src', 'data', 'airports_utf8.json');
+    const fileContents = await fs.readFile(filePath, 'utf8');
+    const data = JSON.parse(fileContents);
+    const rawAirports: RawAirport[] = Array.isArray(data) ? data : Object.values(data ?? {});
+    const index = buildAirportIndex(rawAirports);
+    if (index.airports.length === 0) {
+      console.error('getAirportIndex: airports_utf8.json has no usable airports');
+    } else {
+      console.log(`getAirportIndex: Indexed ${index.airports.length} of ${rawAirports.length} airports`);
+    }
+    return index;
+  } catch (error) {
+    console.error('getAirportIndex: Failed to read or parse airports_utf8.json:', error);
+    return buildAirportIndex([]);
+  }
+}
+
+// Airport index, loaded from disk on first use and kept in memory
+export function getAirportIndex(): Promise<AirportIndex> {
+  if (!airportIndexPromise) {
+    airportIndexPromise = loadAirportIndex();
+  }
+  return airportIndexPromise;
+}
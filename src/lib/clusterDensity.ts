@@ -0,0 +1,43 @@
+import { FlightState } from '../types';
+
+export type DensityLevel = 'low' | 'medium' | 'high';
+
+export const DENSITY_COLORS: Record<DensityLevel, string> = {
+  low: '#16a34a',
+  medium: '#ca8a04',
+  high: '#dc2626',
+};
+
+// Aircraft in a cluster at which the badge turns medium/high
+export const AIRCRAFT_CLUSTER_THRESHOLDS: [number, number] = [10, 50];
+// Aircraft around a group of airports at which the badge turns medium/high
+export const AIRPORT_TRAFFIC_THRESHOLDS: [number, number] = [5, 20];
+
+// How far around a group of airports aircraft still count as its traffic (~20 km)
+export const AIRPORT_TRAFFIC_MARGIN_DEGREES = 0.2;
+
+export function getDensityLevel(count: number, [medium, high]: [number, number]): DensityLevel {
+  if (count >= high) return 'high';
+  if (count >= medium) return 'medium';
+  return 'low';
+}
+
+// Aircraft inside the given bounds, widened by marginDegrees on every side
+export function countFlightsNear(
+  flights: FlightState[],
+  bounds: { south: number; west: number; north: number; east: number },
+  marginDegrees: number
+): number {
+  const south = bounds.south - marginDegrees;
+  const north = bounds.north + marginDegrees;
+  const west = bounds.west - marginDegrees;
+  const east = bounds.east + marginDegrees;
+
+  let count = 0;
+  for (const flight of flights) {
+    if (flight.latitude >= south && flight.latitude <= north && flight.longitude >= west && flight.longitude <= east) {
+      count++;
+    }
+  }
+  return count;
+}
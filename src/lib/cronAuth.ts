@@ -0,0 +1,11 @@
+// Scheduled jobs (Cloud Scheduler, cron) call our API routes with
+// "Authorization: Bearer <CRON_SECRET>". Without a configured secret the
+// routes refuse every request rather than run unprotected.
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.warn('isAuthorizedCronRequest: CRON_SECRET is not set');
+    return false;
+  }
+  return request.headers.get('authorization') === `Bearer ${secret}`;
+}
@@ -0,0 +1,68 @@
+import { FlightState } from '../types';
+import { EARTH_RADIUS_M, toRadians, toDegrees } from './geo';
+
+export interface DeadReckoningOptions {
+  enabled: boolean;
+  // Stop moving an aircraft this many seconds after its last contact
+  maxExtrapolationSeconds: number;
+  // Taxiing aircraft turn too often for straight-line extrapolation
+  extrapolateOnGround: boolean;
+  // Also climb/descend using vertical_rate
+  extrapolateAltitude: boolean;
+  // How long a marker takes to glide onto the position from a new poll
+  blendDurationMs: number;
+  // Minimum time between animation updates (0 = every animation frame)
+  frameIntervalMs: number;
+}
+
+export const DEFAULT_DEAD_RECKONING_OPTIONS: DeadReckoningOptions = {
+  enabled: true,
+  maxExtrapolationSeconds: 120,
+  extrapolateOnGround: false,
+  extrapolateAltitude: true,
+  blendDurationMs: 1500,
+  frameIntervalMs: 33,
+};
+
+// Great-circle destination from a start point, bearing (degrees) and distance (metres)
+export function projectPosition(latitude: number, longitude: number, bearing: number, distance: number): { latitude: number; longitude: number } {
+  const angular = distance / EARTH_RADIUS_M;
+  const lat1 = toRadians(latitude);
+  const lon1 = toRadians(longitude);
+  const theta = toRadians(bearing);
+
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta));
+  const lon2 = lon1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+
+  return {
+    latitude: toDegrees(lat2),
+    longitude: ((toDegrees(lon2) + 540) % 360) - 180,
+  };
+}
+
+// Where the aircraft should be at `now` (Unix seconds) if it kept its last
+// reported speed, track and vertical rate. Returns the state unchanged when it
+// can't or shouldn't be extrapolated.
+export function extrapolateFlightState(state: FlightState, now: number, options: DeadReckoningOptions): FlightState {
+  if (!options.enabled) return state;
+  if (state.on_ground && !options.extrapolateOnGround) return state;
+  if (state.time_position === null || state.velocity === null || state.true_track === null) return state;
+
+  const until = Math.min(now, state.last_contact + options.maxExtrapolationSeconds);
+  const elapsed = until - state.time_position;
+  if (elapsed <= 0) return state;
+
+  const position = projectPosition(state.latitude, state.longitude, state.true_track, state.velocity * elapsed);
+  const climb = options.extrapolateAltitude && state.vertical_rate !== null ? state.vertical_rate * elapsed : 0;
+
+  return {
+    ...state,
+    latitude: position.latitude,
+    longitude: position.longitude,
+    baro_altitude: state.baro_altitude !== null ? Math.max(0, state.baro_altitude + climb) : null,
+    geo_altitude: state.geo_altitude !== null ? Math.max(0, state.geo_altitude + climb) : null,
+  };
+}
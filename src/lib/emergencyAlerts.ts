@@ -0,0 +1,70 @@
+import { createAdminClient } from '../utils/supabase/admin';
+import { FlightEvent } from './flightEvents/types';
+import { DELIVERIES_TABLE, deliveryDedupKey, getBaseUrl } from './notifications/dispatcher';
+import { NotificationMessage } from './notifications/types';
+import { EMERGENCY_SUBSCRIPTIONS_TABLE, EmergencyAlertSubscription, EmergencySquawk, getEmergencySquawkInfo, isEmergencySquawk } from './squawk';
+
+export function buildEmergencyMessage(event: FlightEvent & { squawk: EmergencySquawk }): NotificationMessage {
+  const label = event.callsign ?? event.icao24;
+  const info = getEmergencySquawkInfo(event.squawk);
+  return {
+    event: 'EMERGENCY_SQUAWK',
+    title: `${label} squawking ${event.squawk}`,
+    body: `${label} (${event.icao24}) is squawking ${event.squawk}${info ? ` (${info.label.toLowerCase()})` : ''}.`,
+    url: `${getBaseUrl()}/flight/${event.icao24}`,
+    item: null,
+    icao24: event.icao24,
+    callsign: event.callsign,
+    time: new Date(event.time * 1000).toISOString(),
+  };
+}
+
+// Queues an EMERGENCY_SQUAWK notification for every subscriber of the code
+// an aircraft switched to. Other squawk changes are only kept as history.
+export async function enqueueEmergencyAlerts(events: FlightEvent[]): Promise<number> {
+  const emergencies = events.filter((event): event is FlightEvent & { squawk: EmergencySquawk } =>
+    event.type === 'SQUAWK_CHANGE' && isEmergencySquawk(event.squawk)
+  );
+  if (emergencies.length === 0) return 0;
+
+  const supabase = createAdminClient();
+  if (!supabase) return 0;
+
+  const { data, error } = await supabase
+    .from(EMERGENCY_SUBSCRIPTIONS_TABLE)
+    .select('user_id, squawks, channels, enabled')
+    .eq('enabled', true);
+  if (error) {
+    console.error('enqueueEmergencyAlerts: Failed to load subscriptions:', error);
+    return 0;
+  }
+
+  const rows = [];
+  for (const event of emergencies) {
+    const message = buildEmergencyMessage(event);
+    for (const subscription of data as EmergencyAlertSubscription[]) {
+      if (!subscription.squawks.includes(event.squawk)) continue;
+      for (const channel of subscription.channels) {
+        rows.push({
+          // The same emergency reaches each subscriber once per dedup window
+          dedup_key: deliveryDedupKey(`squawk-${event.icao24}-${event.squawk}-${subscription.user_id}`, 'EMERGENCY_SQUAWK', channel, message.time),
+          user_id: subscription.user_id,
+          event: 'EMERGENCY_SQUAWK',
+          channel,
+          payload: message,
+        });
+      }
+    }
+  }
+  if (rows.length === 0) return 0;
+
+  const { data: inserted, error: insertError } = await supabase
+    .from(DELIVERIES_TABLE)
+    .upsert(rows, { onConflict: 'dedup_key', ignoreDuplicates: true })
+    .select('id');
+  if (insertError) {
+    console.error('enqueueEmergencyAlerts: Failed to enqueue notifications:', insertError);
+    return 0;
+  }
+  return inserted?.length ?? 0;
+}
@@ -0,0 +1,90 @@
+import { FlightState } from '../../../types';
+import { distanceMeters } from '../../geo';
+import { NearestAirportLookup } from '../types';
+
+// Recorded-style tracks for the flight event detector. Samples are
+// [seconds after T0, latitude, longitude, altitude ft, vertical rate ft/min, on ground].
+
+type Sample = [number, number, number, number, number, boolean];
+
+export const T0 = 1760000000;
+
+const AIRPORTS = [
+  { code: 'WAW', lat: 52.1657, lon: 20.9671 },
+  { code: 'KRK', lat: 50.0777, lon: 19.7848 },
+];
+
+export const findNearestFixtureAirport: NearestAirportLookup = (latitude, longitude, radiusKm) => {
+  let nearest: { code: string; distanceKm: number } | null = null;
+  for (const airport of AIRPORTS) {
+    const distanceKm = distanceMeters(latitude, longitude, airport.lat, airport.lon) / 1000;
+    if (distanceKm <= radiusKm && (!nearest || distanceKm < nearest.distanceKm)) nearest = { code: airport.code, distanceKm };
+  }
+  return nearest;
+};
+
+export function buildTrack(icao24: string, samples: Sample[], squawk: string | null = '2000'): FlightState[] {
+  return samples.map(([offset, latitude, longitude, altitudeFt, verticalRateFpm, onGround]) => ({
+    icao24,
+    callsign: 'LOT3921 ',
+    origin_country: 'Poland',
+    origin_country_code: 'PL',
+    time_position: T0 + offset,
+    last_contact: T0 + offset,
+    latitude,
+    longitude,
+    baro_altitude: onGround ? null : altitudeFt / 3.28084,
+    on_ground: onGround,
+    velocity: onGround ? 5 : 120,
+    true_track: 200,
+    vertical_rate: onGround ? null : verticalRateFpm / 196.85,
+    sensors: null,
+    geo_altitude: null,
+    squawk,
+    spi: false,
+    position_source: 0,
+    category: 0,
+  }));
+}
+
+// Warsaw to Krakow: taxi, takeoff, cruise, approach and landing
+export const WAW_TO_KRK: Sample[] = [
+  [0, 52.1700, 20.9650, 0, 0, true],
+  [60, 52.1650, 20.9600, 0, 0, true],
+  [120, 52.1550, 20.9500, 600, 2200, false],
+  [300, 51.9000, 20.7000, 9000, 2000, false],
+  [900, 51.2000, 20.3000, 24000, 0, false],
+  [2100, 50.3000, 19.9000, 8000, -1800, false],
+  [2400, 50.1200, 19.8200, 2500, -900, false],
+  [2520, 50.0900, 19.7950, 1200, -800, false],
+  [2640, 50.0790, 19.7860, 0, 0, true],
+];
+
+// Approach into Krakow abandoned at 700 ft, then a second, successful approach
+export const KRK_GO_AROUND: Sample[] = [
+  [0, 50.1500, 19.8500, 2800, -900, false],
+  [60, 50.1200, 19.8200, 1800, -800, false],
+  [120, 50.0950, 19.8000, 700, -700, false],
+  [180, 50.0800, 19.7850, 1400, 1800, false],
+  [300, 50.0500, 19.7500, 3000, 1200, false],
+  [900, 50.1200, 19.8200, 2200, -800, false],
+  [1020, 50.0900, 19.7950, 900, -700, false],
+  [1140, 50.0790, 19.7860, 0, 0, true],
+];
+
+// Departs Warsaw and comes back 20 minutes later
+export const WAW_RETURN: Sample[] = [
+  [0, 52.1650, 20.9600, 0, 0, true],
+  [60, 52.1550, 20.9500, 700, 2000, false],
+  [300, 52.0000, 20.8000, 8000, 1500, false],
+  [900, 51.9500, 20.9000, 9000, -500, false],
+  [1200, 52.1200, 20.9500, 2500, -900, false],
+  [1320, 52.1500, 20.9600, 1000, -800, false],
+  [1440, 52.1650, 20.9650, 0, 0, true],
+];
+
+// Cruising aircraft that stops reporting
+export const CRUISE_THEN_SILENT: Sample[] = [
+  [0, 51.5000, 20.5000, 35000, 0, false],
+  [60, 51.4500, 20.4500, 35000, 0, false],
+];
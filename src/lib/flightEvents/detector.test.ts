@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { isInBounds } from '../geo';
+import { createFlightEventDetector, detectFlightEvents } from './detector';
+import { CRUISE_THEN_SILENT, KRK_GO_AROUND, T0, WAW_RETURN, WAW_TO_KRK, buildTrack, findNearestFixtureAirport } from './__fixtures__/tracks';
+
+const summarize = (events: ReturnType<typeof detectFlightEvents>) =>
+  events.map(event => ({ type: event.type, airport: event.airport, time: event.time - T0 }));
+
+describe('detectFlightEvents', () => {
+  it('reports the takeoff and landing of a normal flight', () => {
+    const events = detectFlightEvents(buildTrack('48ae01', WAW_TO_KRK), findNearestFixtureAirport);
+    expect(summarize(events)).toEqual([
+      { type: 'TAKEOFF', airport: 'WAW', time: 120 },
+      { type: 'LANDING', airport: 'KRK', time: 2640 },
+    ]);
+  });
+
+  it('reports a go-around when an approach turns into a climb', () => {
+    const events = detectFlightEvents(buildTrack('48ae02', KRK_GO_AROUND), findNearestFixtureAirport);
+    expect(summarize(events)).toEqual([
+      { type: 'GO_AROUND', airport: 'KRK', time: 180 },
+      { type: 'LANDING', airport: 'KRK', time: 1140 },
+    ]);
+    expect(events[0].details).toBe('Climbed 700 ft from 700 ft on approach to KRK');
+  });
+
+  it('suspects a diversion when the aircraft returns to its departure airport', () => {
+    const events = detectFlightEvents(buildTrack('48ae03', WAW_RETURN), findNearestFixtureAirport);
+    expect(summarize(events)).toEqual([
+      { type: 'TAKEOFF', airport: 'WAW', time: 60 },
+      { type: 'DIVERSION_SUSPECTED', airport: 'WAW', time: 1200 },
+      { type: 'LANDING', airport: 'WAW', time: 1440 },
+    ]);
+    expect(events[1].details).toBe('Returning to WAW 19 min after takeoff');
+  });
+
+  it('reports a lost signal only for airborne aircraft', () => {
+    const airborne = detectFlightEvents(buildTrack('48ae04', CRUISE_THEN_SILENT), findNearestFixtureAirport, { expireAt: T0 + 600 });
+    expect(summarize(airborne)).toEqual([{ type: 'SIGNAL_LOST', airport: null, time: 60 }]);
+
+    const landed = detectFlightEvents(buildTrack('48ae05', WAW_TO_KRK), findNearestFixtureAirport, { expireAt: T0 + 3600 });
+    expect(landed.map(event => event.type)).not.toContain('SIGNAL_LOST');
+  });
+});
+
+describe('createFlightEventDetector', () => {
+  it('suspects a diversion when approaching somewhere other than the destination', () => {
+    const detector = createFlightEventDetector(findNearestFixtureAirport);
+    detector.setDestination('48ae06', 'gdn');
+    const events = buildTrack('48ae06', WAW_TO_KRK).flatMap(state => detector.process(state));
+
+    expect(summarize(events)).toEqual([
+      { type: 'TAKEOFF', airport: 'WAW', time: 120 },
+      { type: 'DIVERSION_SUSPECTED', airport: 'KRK', time: 2400 },
+      { type: 'LANDING', airport: 'KRK', time: 2640 },
+    ]);
+    expect(events[1].details).toBe('Approaching KRK instead of GDN');
+  });
+
+  it('reports squawk changes, including aircraft first seen squawking an emergency', () => {
+    const detector = createFlightEventDetector(findNearestFixtureAirport);
+    const [first, second] = buildTrack('48ae07', CRUISE_THEN_SILENT, '1000');
+    expect(detector.process(first)).toEqual([]);
+    const [change] = detector.process({ ...second, squawk: '7700' });
+    expect(change).toMatchObject({ type: 'SQUAWK_CHANGE', squawk: '7700', previousSquawk: '1000' });
+
+    const [hijack] = buildTrack('48ae08', CRUISE_THEN_SILENT, '7500');
+    expect(detector.process(hijack)).toMatchObject([{ type: 'SQUAWK_CHANGE', squawk: '7500', previousSquawk: null }]);
+  });
+
+  it('ignores samples that are not newer than the last one', () => {
+    const detector = createFlightEventDetector(findNearestFixtureAirport);
+    const track = buildTrack('48ae09', WAW_TO_KRK);
+    detector.process(track[1]);
+
+    expect(detector.process(track[0])).toEqual([]);
+    expect(detector.process({ ...track[2], last_contact: track[1].last_contact })).toEqual([]);
+    expect(detector.process(track[2]).map(event => event.type)).toEqual(['TAKEOFF']);
+  });
+
+  it('keeps aircraft outside the polled area instead of reporting them lost', () => {
+    const detector = createFlightEventDetector(findNearestFixtureAirport);
+    buildTrack('48ae10', CRUISE_THEN_SILENT).forEach(state => detector.process(state));
+
+    expect(detector.expire(T0 + 600, () => false)).toEqual([]);
+    expect(detector.expire(T0 + 600).map(event => event.type)).toEqual(['SIGNAL_LOST']);
+  });
+
+  it('does not report aircraft that flew out of the polled bounds as lost', () => {
+    // CRUISE_THEN_SILENT ends at 51.45, 20.45 heading south-south-west (track 200)
+    const [lastSample] = buildTrack('48ae11', CRUISE_THEN_SILENT).slice(-1);
+    const deepInside = { lamin: 50.5, lomin: 18.5, lamax: 52.5, lomax: 20.5 };
+    const nearEdge = { lamin: lastSample.latitude - 0.05, lomin: lastSample.longitude - 0.05, lamax: 52.5, lomax: 20.5 };
+    const covers = (bounds: typeof deepInside) => (latitude: number, longitude: number) => isInBounds(latitude, longitude, bounds);
+
+    const leaving = createFlightEventDetector(findNearestFixtureAirport);
+    buildTrack('48ae11', CRUISE_THEN_SILENT).forEach(state => leaving.process(state));
+    expect(leaving.expire(T0 + 600, covers(nearEdge))).toEqual([]);
+
+    const lost = createFlightEventDetector(findNearestFixtureAirport);
+    buildTrack('48ae11', CRUISE_THEN_SILENT).forEach(state => lost.process(state));
+    expect(lost.expire(T0 + 600, covers(deepInside)).map(event => event.type)).toEqual(['SIGNAL_LOST']);
+  });
+});
@@ -0,0 +1,221 @@
+import { FlightState } from '../../types';
+import { projectPosition } from '../deadReckoning';
+import { describeSquawkChange, isEmergencySquawk } from '../squawk';
+import { FlightEvent, FlightEventDetector, FlightEventDetectorOptions, FlightEventType, NearestAirport, NearestAirportLookup } from './types';
+
+export const DEFAULT_FLIGHT_EVENT_DETECTOR_OPTIONS: FlightEventDetectorOptions = {
+  airportRadiusKm: 15,
+  approachAltitudeFt: 3000,
+  approachMinDescentFpm: 300,
+  goAroundClimbFt: 400,
+  goAroundMinClimbFpm: 500,
+  returnToOriginMinMinutes: 5,
+  returnToOriginMaxMinutes: 90,
+  signalLostSeconds: 180,
+};
+
+// Tracks outside every polled area are forgotten after this many signalLostSeconds
+const STALE_TRACK_FACTOR = 10;
+
+const M_TO_FT = 3.28084;
+const MS_TO_FPM = 196.85;
+
+// What the detector remembers about each aircraft between samples
+interface AircraftTrack {
+  last: FlightState;
+  onGround: boolean;
+  takeoffTime: number | null;
+  takeoffAirport: string | null;
+  // Set while the aircraft is low and descending near an airport
+  approach: { airport: string; lowestAltitudeFt: number } | null;
+  diversionReported: boolean;
+  // Last transponder code reported; samples without one don't change it
+  squawk: string | null;
+}
+
+const altitudeFeet = (state: FlightState) => {
+  const altitude = state.baro_altitude ?? state.geo_altitude;
+  return altitude !== null ? altitude * M_TO_FT : null;
+};
+
+// Per-aircraft state machine over consecutive FlightState samples. Airborne /
+// on-ground transitions give TAKEOFF and LANDING; an approach (low, descending,
+// near an airport) that turns into a climb is a GO_AROUND; approaching somewhere
+// other than the expected destination, or back to the departure airport soon
+// after takeoff, is a DIVERSION_SUSPECTED.
+export function createFlightEventDetector(
+  findNearestAirport: NearestAirportLookup,
+  options: FlightEventDetectorOptions = DEFAULT_FLIGHT_EVENT_DETECTOR_OPTIONS
+): FlightEventDetector {
+  const tracks = new Map<string, AircraftTrack>();
+  const destinations = new Map<string, string>();
+
+  const createEvent = (
+    type: FlightEventType,
+    state: FlightState,
+    airport: NearestAirport | null,
+    details: string | null = null,
+    previousSquawk: string | null = null
+  ): FlightEvent => ({
+    id: `${state.icao24}-${type}-${state.last_contact}`,
+    type,
+    icao24: state.icao24,
+    callsign: state.callsign?.trim() || null,
+    time: state.last_contact,
+    latitude: state.latitude,
+    longitude: state.longitude,
+    altitude: state.baro_altitude ?? state.geo_altitude,
+    airport: airport?.code ?? null,
+    airportDistanceKm: airport ? Math.round(airport.distanceKm * 10) / 10 : null,
+    squawk: state.squawk,
+    previousSquawk,
+    details,
+  });
+
+  const nearestTo = (state: FlightState) => findNearestAirport(state.latitude, state.longitude, options.airportRadiusKm);
+
+  const process = (state: FlightState): FlightEvent[] => {
+    const track = tracks.get(state.icao24);
+    if (!track) {
+      tracks.set(state.icao24, {
+        last: state,
+        onGround: state.on_ground,
+        takeoffTime: null,
+        takeoffAirport: null,
+        approach: null,
+        diversionReported: false,
+        squawk: state.squawk,
+      });
+      // An aircraft already squawking an emergency when first seen is reported too
+      return isEmergencySquawk(state.squawk)
+        ? [createEvent('SQUAWK_CHANGE', state, null, describeSquawkChange(null, state.squawk))]
+        : [];
+    }
+    if (state.last_contact <= track.last.last_contact) return [];
+
+    const events: FlightEvent[] = [];
+    const destination = destinations.get(state.icao24) ?? null;
+
+    if (state.squawk && state.squawk !== track.squawk) {
+      events.push(createEvent('SQUAWK_CHANGE', state, null, describeSquawkChange(track.squawk, state.squawk), track.squawk));
+      track.squawk = state.squawk;
+    }
+
+    if (track.onGround && !state.on_ground) {
+      const airport = nearestTo(state);
+      events.push(createEvent('TAKEOFF', state, airport));
+      track.takeoffTime = state.last_contact;
+      track.takeoffAirport = airport?.code ?? null;
+      track.approach = null;
+      track.diversionReported = false;
+    } else if (!track.onGround && state.on_ground) {
+      const airport = nearestTo(state);
+      if (airport && destination && airport.code !== destination && !track.diversionReported) {
+        events.push(createEvent('DIVERSION_SUSPECTED', state, airport, `Landed at ${airport.code} instead of ${destination}`));
+      }
+      events.push(createEvent('LANDING', state, airport));
+      track.takeoffTime = null;
+      track.takeoffAirport = null;
+      track.approach = null;
+      track.diversionReported = false;
+      destinations.delete(state.icao24);
+    } else if (!state.on_ground) {
+      const altitudeFt = altitudeFeet(state);
+      const verticalRateFpm = state.vertical_rate !== null ? state.vertical_rate * MS_TO_FPM : null;
+
+      if (track.approach && altitudeFt !== null) {
+        track.approach.lowestAltitudeFt = Math.min(track.approach.lowestAltitudeFt, altitudeFt);
+        const climbedFt = altitudeFt - track.approach.lowestAltitudeFt;
+
+        if (climbedFt >= options.goAroundClimbFt && verticalRateFpm !== null && verticalRateFpm >= options.goAroundMinClimbFpm) {
+          events.push(createEvent(
+            'GO_AROUND',
+            state,
+            nearestTo(state),
+            `Climbed ${Math.round(climbedFt)} ft from ${Math.round(track.approach.lowestAltitudeFt)} ft on approach to ${track.approach.airport}`
+          ));
+          track.approach = null;
+        } else if (altitudeFt > options.approachAltitudeFt + options.goAroundClimbFt) {
+          // Drifted out of the approach without a go-around climb rate
+          track.approach = null;
+        }
+      } else if (altitudeFt !== null && altitudeFt <= options.approachAltitudeFt && verticalRateFpm !== null && verticalRateFpm <= -options.approachMinDescentFpm) {
+        const airport = nearestTo(state);
+        if (airport) {
+          track.approach = { airport: airport.code, lowestAltitudeFt: altitudeFt };
+
+          if (!track.diversionReported) {
+            const minutesSinceTakeoff = track.takeoffTime !== null ? (state.last_contact - track.takeoffTime) / 60 : null;
+            if (destination && airport.code !== destination) {
+              events.push(createEvent('DIVERSION_SUSPECTED', state, airport, `Approaching ${airport.code} instead of ${destination}`));
+              track.diversionReported = true;
+            } else if (
+              track.takeoffAirport === airport.code &&
+              minutesSinceTakeoff !== null &&
+              minutesSinceTakeoff >= options.returnToOriginMinMinutes &&
+              minutesSinceTakeoff <= options.returnToOriginMaxMinutes
+            ) {
+              events.push(createEvent('DIVERSION_SUSPECTED', state, airport, `Returning to ${airport.code} ${Math.round(minutesSinceTakeoff)} min after takeoff`));
+              track.diversionReported = true;
+            }
+          }
+        }
+      }
+    }
+
+    track.last = state;
+    track.onGround = state.on_ground;
+    return events;
+  };
+
+  // Whether the aircraft would still be covered after flying on for the
+  // signal-lost window at its last speed and track
+  const coversProjected = (state: FlightState, covers: (latitude: number, longitude: number) => boolean) => {
+    if (state.velocity === null || state.true_track === null) return true;
+    const position = projectPosition(state.latitude, state.longitude, state.true_track, state.velocity * options.signalLostSeconds);
+    return covers(position.latitude, position.longitude);
+  };
+
+  const expire = (now: number, covers?: (latitude: number, longitude: number) => boolean): FlightEvent[] => {
+    const events: FlightEvent[] = [];
+    for (const [icao24, track] of tracks) {
+      const silentFor = now - track.last.last_contact;
+      if (silentFor < options.signalLostSeconds) continue;
+
+      // Outside the polled area we can't tell; keep it for a later poll that
+      // covers it. That includes aircraft heading out of it when they went quiet.
+      if (covers && !(covers(track.last.latitude, track.last.longitude) && coversProjected(track.last, covers))) {
+        if (silentFor > options.signalLostSeconds * STALE_TRACK_FACTOR) tracks.delete(icao24);
+        continue;
+      }
+
+      tracks.delete(icao24);
+      // Going quiet on the ground is expected
+      if (track.onGround) continue;
+
+      events.push(createEvent('SIGNAL_LOST', track.last, nearestTo(track.last), `No data for ${Math.round(silentFor)} s`));
+    }
+    return events;
+  };
+
+  const setDestination = (icao24: string, airportCode: string | null) => {
+    if (airportCode) destinations.set(icao24, airportCode.toUpperCase());
+    else destinations.delete(icao24);
+  };
+
+  return { process, expire, setDestination };
+}
+
+// Runs a recorded sequence of states (e.g. a stored track fixture) through a
+// fresh detector, for offline checks. `expireAt` also flushes SIGNAL_LOST.
+export function detectFlightEvents(
+  states: FlightState[],
+  findNearestAirport: NearestAirportLookup,
+  { options = DEFAULT_FLIGHT_EVENT_DETECTOR_OPTIONS, expireAt }: { options?: FlightEventDetectorOptions; expireAt?: number } = {}
+): FlightEvent[] {
+  const detector = createFlightEventDetector(findNearestAirport, options);
+  const ordered = [...states].sort((a, b) => a.last_contact - b.last_contact);
+  const events = ordered.flatMap(state => detector.process(state));
+  if (expireAt !== undefined) events.push(...detector.expire(expireAt));
+  return events;
+}
@@ -0,0 +1,118 @@
+import { BoundingBox, FlightState } from '../../types';
+import { getAirportIndex } from '../airportIndex';
+import { hasPosition, insetBounds, isInBounds } from '../geo';
+import { createFlightEventDetector } from './detector';
+import { fetchStoredFlightEvents, storeFlightEvents } from './store';
+import { enqueueEmergencyAlerts } from '../emergencyAlerts';
+import { FlightEvent, FlightEventDetector, FlightEventFilter, FlightEventListener } from './types';
+
+export type { FlightEvent, FlightEventType, FlightEventFilter, FlightEventListener, FlightEventDetector, NearestAirportLookup } from './types';
+export { createFlightEventDetector, detectFlightEvents, DEFAULT_FLIGHT_EVENT_DETECTOR_OPTIONS } from './detector';
+
+// Events kept in memory per aircraft, newest last
+const MAX_EVENTS_PER_AIRCRAFT = 50;
+// About 10 km; aircraft last seen closer to the edge of a poll may have left it
+const COVERAGE_MARGIN_DEGREES = 0.1;
+
+const eventsByAircraft = new Map<string, FlightEvent[]>();
+const subscriptions = new Set<{ listener: FlightEventListener; filter: FlightEventFilter }>();
+let detectorPromise: Promise<FlightEventDetector | null> | null = null;
+let hasWarnedNoAirports = false;
+
+// Shared detector, created once the airport index has loaded with airports in
+// it. A detector on an empty index would place every takeoff and landing
+// nowhere for the life of the process, so until then nothing is detected.
+function getDetector(): Promise<FlightEventDetector | null> {
+  if (!detectorPromise) {
+    detectorPromise = getAirportIndex().then(index => {
+      if (index.airports.length === 0) {
+        detectorPromise = null;
+        if (!hasWarnedNoAirports) {
+          console.warn('getDetector: Airport index is empty, flight event detection is off');
+          hasWarnedNoAirports = true;
+        }
+        return null;
+      }
+      return createFlightEventDetector((latitude, longitude, radiusKm) => {
+        const nearest = index.findNearest(latitude, longitude, radiusKm);
+        return nearest ? { code: nearest.airport.iata, distanceKm: nearest.distanceKm } : null;
+      });
+    });
+  }
+  return detectorPromise;
+}
+
+const matchesFilter = (event: FlightEvent, filter: FlightEventFilter) =>
+  (!filter.icao24 || filter.icao24.includes(event.icao24)) &&
+  (!filter.types || filter.types.includes(event.type));
+
+function publishFlightEvents(events: FlightEvent[]) {
+  for (const event of events) {
+    const history = eventsByAircraft.get(event.icao24) ?? [];
+    history.push(event);
+    if (history.length > MAX_EVENTS_PER_AIRCRAFT) history.shift();
+    eventsByAircraft.set(event.icao24, history);
+
+    for (const { listener, filter } of subscriptions) {
+      if (!matchesFilter(event, filter)) continue;
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('publishFlightEvents: Listener failed:', error);
+      }
+    }
+  }
+}
+
+// Calls listener for every detected event matching the filter. Returns a
+// function that removes the subscription.
+export function subscribeToFlightEvents(listener: FlightEventListener, filter: FlightEventFilter = {}): () => void {
+  const subscription = { listener, filter };
+  subscriptions.add(subscription);
+  return () => {
+    subscriptions.delete(subscription);
+  };
+}
+
+// Feeds a batch of states (one poll) through the detector, stores and publishes
+// the resulting events and queues alerts for emergency squawks. `bounds` is the
+// area the batch covers, used to tell lost signals from aircraft that just left it.
+export async function ingestFlightStates(
+  states: FlightState[],
+  { bounds, now = Date.now() / 1000 }: { bounds?: BoundingBox; now?: number } = {}
+): Promise<FlightEvent[]> {
+  const detector = await getDetector();
+  if (!detector) return [];
+  const events: FlightEvent[] = [];
+
+  // Events are stored with the position of the sample that raised them
+  for (const state of states.filter(hasPosition)) {
+    events.push(...detector.process(state));
+  }
+  // An aircraft that just left the area was last seen near its edge, so only
+  // the area a margin inside the edge counts as covered
+  const covered = bounds ? insetBounds(bounds, COVERAGE_MARGIN_DEGREES) : null;
+  events.push(...detector.expire(now, bounds && ((latitude, longitude) => covered !== null && isInBounds(latitude, longitude, covered))));
+
+  if (events.length > 0) {
+    console.log(`ingestFlightStates: Detected ${events.length} events:`, events.map(event => `${event.icao24} ${event.type}`).join(', '));
+    publishFlightEvents(events);
+    await storeFlightEvents(events);
+    await enqueueEmergencyAlerts(events);
+  }
+  return events;
+}
+
+// Expected destination (IATA) for an aircraft, used to flag diversions
+export async function setExpectedDestination(icao24: string, airportCode: string | null): Promise<void> {
+  const detector = await getDetector();
+  detector?.setDestination(icao24, airportCode);
+}
+
+// Events for an aircraft, newest first: stored history when Supabase is
+// configured, otherwise what this server instance has seen
+export async function getFlightEvents(icao24: string, limit = MAX_EVENTS_PER_AIRCRAFT): Promise<FlightEvent[]> {
+  const stored = await fetchStoredFlightEvents(icao24, limit);
+  if (stored) return stored;
+  return [...(eventsByAircraft.get(icao24.trim().toLowerCase()) ?? [])].reverse().slice(0, limit);
+}
@@ -0,0 +1,89 @@
+import { createAdminClient } from '../../utils/supabase/admin';
+import { FlightEvent, FlightEventType } from './types';
+
+export const FLIGHT_EVENTS_TABLE = 'flight_events';
+
+export interface FlightEventRow {
+  id: string;
+  icao24: string;
+  type: FlightEventType;
+  callsign: string | null;
+  occurred_at: string;
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  airport: string | null;
+  airport_distance_km: number | null;
+  squawk: string | null;
+  previous_squawk: string | null;
+  details: string | null;
+}
+
+export function flightEventToRow(event: FlightEvent): FlightEventRow {
+  return {
+    id: event.id,
+    icao24: event.icao24,
+    type: event.type,
+    callsign: event.callsign,
+    occurred_at: new Date(event.time * 1000).toISOString(),
+    latitude: event.latitude,
+    longitude: event.longitude,
+    altitude: event.altitude,
+    airport: event.airport,
+    airport_distance_km: event.airportDistanceKm,
+    squawk: event.squawk,
+    previous_squawk: event.previousSquawk,
+    details: event.details,
+  };
+}
+
+export function flightEventRowToEvent(row: FlightEventRow): FlightEvent {
+  return {
+    id: row.id,
+    type: row.type,
+    icao24: row.icao24,
+    callsign: row.callsign,
+    time: Math.floor(new Date(row.occurred_at).getTime() / 1000),
+    latitude: row.latitude,
+    longitude: row.longitude,
+    altitude: row.altitude,
+    airport: row.airport,
+    airportDistanceKm: row.airport_distance_km,
+    squawk: row.squawk,
+    previousSquawk: row.previous_squawk,
+    details: row.details,
+  };
+}
+
+// Persists events; does nothing when the service role isn't configured
+export async function storeFlightEvents(events: FlightEvent[]): Promise<void> {
+  if (events.length === 0) return;
+  const supabase = createAdminClient();
+  if (!supabase) return;
+
+  const { error } = await supabase
+    .from(FLIGHT_EVENTS_TABLE)
+    .upsert(events.map(flightEventToRow), { onConflict: 'id', ignoreDuplicates: true });
+  if (error) {
+    console.error('storeFlightEvents: Failed to store events:', error);
+  }
+}
+
+// Most recent stored events for an aircraft, newest first
+export async function fetchStoredFlightEvents(icao24: string, limit = 50): Promise<FlightEvent[] | null> {
+  const supabase = createAdminClient();
+  if (!supabase) return null;
+
+  const { data, error } = await supabase
+    .from(FLIGHT_EVENTS_TABLE)
+    .select('*')
+    .eq('icao24', icao24.trim().toLowerCase())
+    .order('occurred_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('fetchStoredFlightEvents: Error querying events:', error);
+    return null;
+  }
+  return (data as FlightEventRow[]).map(flightEventRowToEvent);
+}
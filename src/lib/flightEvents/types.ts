@@ -0,0 +1,71 @@
+import { FlightState } from '../../types';
+
+export type FlightEventType = 'TAKEOFF' | 'LANDING' | 'GO_AROUND' | 'DIVERSION_SUSPECTED' | 'SIGNAL_LOST' | 'SQUAWK_CHANGE';
+
+export interface FlightEvent {
+  // Stable per aircraft, type and time, so storing the same event twice is a no-op
+  id: string;
+  type: FlightEventType;
+  icao24: string;
+  callsign: string | null;
+  // Unix seconds of the sample that triggered the event
+  time: number;
+  latitude: number;
+  longitude: number;
+  // Metres, null when unknown
+  altitude: number | null;
+  // IATA code of the nearest airport, if one was close enough
+  airport: string | null;
+  airportDistanceKm: number | null;
+  // Transponder code at the time of the event; for SQUAWK_CHANGE also the
+  // code before it (null when the aircraft was first seen squawking it)
+  squawk: string | null;
+  previousSquawk: string | null;
+  // Short human readable explanation, e.g. "Returned to WAW 25 min after takeoff"
+  details: string | null;
+}
+
+export interface NearestAirport {
+  code: string;
+  distanceKm: number;
+}
+
+// Airport lookup used by the detector; injected so the state machine has no I/O
+export type NearestAirportLookup = (latitude: number, longitude: number, radiusKm: number) => NearestAirport | null;
+
+export interface FlightEventDetectorOptions {
+  // Airports further than this from the aircraft are ignored
+  airportRadiusKm: number;
+  // Below this height near an airport with a descent rate the aircraft is on approach
+  approachAltitudeFt: number;
+  approachMinDescentFpm: number;
+  // Climb needed after the lowest point of an approach to call it a go-around
+  goAroundClimbFt: number;
+  goAroundMinClimbFpm: number;
+  // Approaching the departure airport between these many minutes after takeoff
+  // is a suspected return (sooner is usually just noise from the climb-out)
+  returnToOriginMinMinutes: number;
+  returnToOriginMaxMinutes: number;
+  // Airborne aircraft not heard from for this long raise SIGNAL_LOST
+  signalLostSeconds: number;
+}
+
+export interface FlightEventFilter {
+  icao24?: string[];
+  types?: FlightEventType[];
+}
+
+export type FlightEventListener = (event: FlightEvent) => void;
+
+export interface FlightEventDetector {
+  // Feed one sample; returns the events it triggered. Samples that are not
+  // newer than the previous one for the aircraft are ignored.
+  process(state: FlightState): FlightEvent[];
+  // Raises SIGNAL_LOST for aircraft not heard from since signalLostSeconds
+  // before `now`. When `covers` is given only aircraft whose last position it
+  // contains, and where they would be now at their last speed and track, are
+  // considered, so ones that simply left the polled area don't count.
+  expire(now: number, covers?: (latitude: number, longitude: number) => boolean): FlightEvent[];
+  // Expected destination (IATA) used to spot diversions
+  setDestination(icao24: string, airportCode: string | null): void;
+}
@@ -0,0 +1,17 @@
+import type { FlightFilters } from '../components/ClientMap';
+import { FlightState } from '../types';
+import { ALL_POSITION_SOURCES, matchesPositionSources } from './positionSource';
+
+const FT_TO_M = 0.3048;
+
+// The filters that decide which aircraft are shown, as opposed to how
+export type FlightMatchFilters = Pick<FlightFilters, 'hideOnGround' | 'minAltitude' | 'positionSources'>;
+
+// Whether the map shows this aircraft; also used for watch areas
+export function matchesFlightFilters(flight: FlightState, filters: FlightMatchFilters): boolean {
+  if (filters.hideOnGround && flight.on_ground) return false;
+  if (filters.minAltitude > 0 && (flight.baro_altitude == null || flight.baro_altitude < filters.minAltitude * FT_TO_M)) return false;
+  if (filters.positionSources.length < ALL_POSITION_SOURCES.length &&
+      !matchesPositionSources(flight.position_source, filters.positionSources)) return false;
+  return true;
+}
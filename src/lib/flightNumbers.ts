@@ -0,0 +1,99 @@
+import airlineData from '../data/airline-codes-map.json';
+
+export interface Airline {
+  name: string;
+  iata: string;
+  icao: string;
+}
+
+export interface ParsedFlightNumber {
+  airline: Airline | null;
+  // Designator as typed, IATA ("W6") or ICAO ("WZZ")
+  designator: string;
+  designatorType: 'IATA' | 'ICAO';
+  // Without leading zeros, e.g. "282" for "LO0282"
+  number: string;
+  // Digits as typed, e.g. "0282"
+  rawNumber: string;
+  // Operational suffix, e.g. "A" in "LH1234A"
+  suffix: string;
+}
+
+const airlines = (airlineData as Airline[]).filter(airline => /^[A-Z]{3}$/.test(airline.icao));
+const byIata = new Map<string, Airline>();
+const byIcao = new Map<string, Airline>();
+for (const airline of airlines) {
+  if (airline.iata && !byIata.has(airline.iata)) byIata.set(airline.iata, airline);
+  byIcao.set(airline.icao, airline);
+}
+
+// ICAO designators are three letters, IATA ones two characters with at least
+// one letter; flight numbers have up to four digits and an optional suffix
+const ICAO_FLIGHT_NUMBER = /^([A-Z]{3})(\d{1,4})([A-Z]{0,2})$/;
+const IATA_FLIGHT_NUMBER = /^([A-Z]\d|\d[A-Z]|[A-Z]{2})(\d{1,4})([A-Z]?)$/;
+
+// "lo 282", "LO-282" -> "LO282"
+export const normalizeFlightNumber = (input: string) => input.replace(/[^A-Z0-9]/gi, '').toUpperCase();
+
+export const getAirlineByIcao = (icao: string) => byIcao.get(icao.toUpperCase()) ?? null;
+export const getAirlineByIata = (iata: string) => byIata.get(iata.toUpperCase()) ?? null;
+
+// Splits a flight number or callsign into airline, number and suffix. Known
+// ICAO designators win over IATA ones ("KLM1234" is KLM, not "KL" + "M1234").
+export function parseFlightNumber(input: string): ParsedFlightNumber | null {
+  const normalized = normalizeFlightNumber(input);
+
+  const icaoMatch = normalized.match(ICAO_FLIGHT_NUMBER);
+  const iataMatch = normalized.match(IATA_FLIGHT_NUMBER);
+  const useIcao = icaoMatch && (byIcao.has(icaoMatch[1]) || !iataMatch || !byIata.has(iataMatch[1]));
+  const match = useIcao ? icaoMatch : iataMatch;
+  if (!match) return null;
+
+  const [, designator, rawNumber, suffix] = match;
+  return {
+    airline: useIcao ? byIcao.get(designator) ?? null : byIata.get(designator) ?? null,
+    designator,
+    designatorType: useIcao ? 'ICAO' : 'IATA',
+    number: rawNumber.replace(/^0+(?=\d)/, ''),
+    rawNumber,
+    suffix,
+  };
+}
+
+// Callsigns an aircraft flying this flight may broadcast, most likely first:
+// "W61699" -> ["WZZ1699", "W61699"], "LO0282" -> ["LOT282", "LOT0282", "LO0282"]
+export function flightNumberToCallsigns(input: string): string[] {
+  const normalized = normalizeFlightNumber(input);
+  const parsed = parseFlightNumber(normalized);
+  if (!parsed) return normalized ? [normalized] : [];
+
+  const icao = parsed.designatorType === 'ICAO' ? parsed.designator : parsed.airline?.icao;
+  const candidates: string[] = [];
+  if (icao) {
+    candidates.push(`${icao}${parsed.number}${parsed.suffix}`);
+    candidates.push(`${icao}${parsed.rawNumber}${parsed.suffix}`);
+  }
+  candidates.push(normalized);
+  return [...new Set(candidates)];
+}
+
+// Commercial (IATA) flight number for a callsign, e.g. "WZZ1699" -> "W61699";
+// null when the airline has no known IATA code or the callsign is
+// alphanumeric ("DLH2AB"), which doesn't follow the flight number
+export function callsignToFlightNumber(callsign: string): string | null {
+  const parsed = parseFlightNumber(callsign);
+  if (!parsed || parsed.suffix.length > 1) return null;
+  const iata = parsed.designatorType === 'IATA' ? parsed.designator : parsed.airline?.iata;
+  return iata ? `${iata}${parsed.number}${parsed.suffix}` : null;
+}
+
+// Airlines whose name contains the query (three characters or more) or whose
+// IATA / ICAO designator is the query
+export function findAirlines(query: string): Airline[] {
+  const text = query.trim().toLowerCase();
+  const code = normalizeFlightNumber(query);
+  if (!code) return [];
+  return airlines.filter(airline =>
+    airline.iata === code || airline.icao === code || (text.length >= 3 && airline.name.toLowerCase().includes(text))
+  );
+}
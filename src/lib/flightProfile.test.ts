@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { FlightTrackPoint } from '../types';
+import { buildFlightProfile, detectFlightPhases } from './flightProfile';
+
+const T0 = 1760000000;
+const STEP_SECONDS = 30;
+// About 74 m/s northbound between points
+const STEP_LATITUDE = 0.02;
+
+// A synthetic flight: each leg lasts `minutes` and changes the altitude by
+// `climbMeters`, with points every 30 s. OpenSky tracks carry no speed or
+// vertical rate, so both are left for the profile to derive.
+function buildTrack(legs: { minutes: number; climbMeters: number; onGround?: boolean }[]): FlightTrackPoint[] {
+  const track: FlightTrackPoint[] = [];
+  let altitude = 0;
+  for (const leg of legs) {
+    const steps = (leg.minutes * 60) / STEP_SECONDS;
+    for (let step = 0; step < steps; step++) {
+      const index = track.length;
+      track.push({
+        time: T0 + index * STEP_SECONDS,
+        latitude: 50 + index * STEP_LATITUDE,
+        longitude: 20,
+        baro_altitude: altitude,
+        true_track: 0,
+        on_ground: leg.onGround ?? false,
+        velocity: null,
+        vertical_rate: null,
+      });
+      altitude += leg.climbMeters / steps;
+    }
+  }
+  return track;
+}
+
+const FLIGHT = buildTrack([
+  { minutes: 5, climbMeters: 0, onGround: true },
+  { minutes: 20, climbMeters: 10000 },
+  { minutes: 30, climbMeters: 0 },
+  { minutes: 20, climbMeters: -10000 },
+  { minutes: 5, climbMeters: 0, onGround: true },
+]);
+
+describe('buildFlightProfile', () => {
+  it('converts to chart units and derives missing speeds and rates', () => {
+    const profile = buildFlightProfile(FLIGHT);
+    const climbing = profile[20];
+    expect(climbing.altitudeFt).toBeCloseTo(FLIGHT[20].baro_altitude! * 3.28084, 3);
+    // 10000 m over 20 minutes
+    expect(climbing.verticalRateFpm).toBeCloseTo(1640, -1);
+    expect(climbing.speedKt).toBeCloseTo(144, 0);
+    expect(profile[0].verticalRateFpm).toBe(0);
+  });
+
+  it('prefers the reported speed and vertical rate', () => {
+    const track = FLIGHT.slice(20, 23).map(point => ({ ...point, velocity: 200, vertical_rate: -5 }));
+    expect(buildFlightProfile(track)[1]).toMatchObject({ speedKt: 200 * 1.94384, verticalRateFpm: -5 * 196.85 });
+  });
+
+  it('leaves values unknown when the track does not tell them', () => {
+    const [point] = buildFlightProfile([{ ...FLIGHT[20], baro_altitude: null }]);
+    expect(point).toMatchObject({ altitudeFt: null, speedKt: null, verticalRateFpm: null });
+  });
+});
+
+describe('detectFlightPhases', () => {
+  it('splits a flight into ground, climb, cruise and descent', () => {
+    const segments = detectFlightPhases(FLIGHT);
+    expect(segments.map(segment => segment.phase)).toEqual(['ground', 'climb', 'cruise', 'descent', 'ground']);
+
+    // Phase changes land within the smoothing window of the real ones
+    const boundaries = segments.slice(1).map(segment => (segment.start - T0) / 60);
+    [5, 25, 55, 75].forEach((minute, i) => expect(Math.abs(boundaries[i] - minute)).toBeLessThanOrEqual(1));
+    expect(segments[segments.length - 1].endIndex).toBe(FLIGHT.length - 1);
+  });
+
+  it('folds a short level-off into the climb around it', () => {
+    const stepClimb = (levelMinutes: number) => buildTrack([
+      { minutes: 10, climbMeters: 3000 },
+      { minutes: levelMinutes, climbMeters: 0 },
+      { minutes: 10, climbMeters: 3000 },
+    ]);
+    expect(detectFlightPhases(stepClimb(2.5)).map(segment => segment.phase)).toEqual(['climb']);
+    expect(detectFlightPhases(stepClimb(5)).map(segment => segment.phase)).toEqual(['climb', 'cruise', 'climb']);
+  });
+});
@@ -0,0 +1,125 @@
+import { FlightTrackPoint } from '../types';
+import { distanceMeters } from './geo';
+
+export type FlightPhase = 'ground' | 'climb' | 'cruise' | 'descent';
+
+// One track point in chart units; null where neither the track nor its
+// neighbours tell the value
+export interface FlightProfilePoint {
+  time: number;
+  altitudeFt: number | null;
+  speedKt: number | null;
+  verticalRateFpm: number | null;
+}
+
+export interface FlightPhaseSegment {
+  phase: FlightPhase;
+  // Indexes into the profile, inclusive
+  startIndex: number;
+  endIndex: number;
+  start: number;
+  end: number;
+}
+
+export interface FlightPhaseOptions {
+  // Climb/descent rate needed to leave level flight
+  minVerticalRateFpm: number;
+  // Vertical rate is averaged over this window to ride out turbulence and step climbs
+  smoothingSeconds: number;
+  // Shorter phases are folded into the one before
+  minPhaseSeconds: number;
+}
+
+export const DEFAULT_FLIGHT_PHASE_OPTIONS: FlightPhaseOptions = {
+  minVerticalRateFpm: 300,
+  smoothingSeconds: 120,
+  minPhaseSeconds: 120,
+};
+
+const M_TO_FT = 3.28084;
+const MS_TO_KT = 1.94384;
+const MS_TO_FPM = 196.85;
+
+// Converts a track to chart units. OpenSky tracks carry no speed or vertical
+// rate, so missing values are derived from the neighbouring points.
+export function buildFlightProfile(track: FlightTrackPoint[]): FlightProfilePoint[] {
+  return track.map((point, i) => {
+    const before = track[Math.max(0, i - 1)];
+    const after = track[Math.min(track.length - 1, i + 1)];
+    const elapsed = after.time - before.time;
+
+    let speedKt = point.velocity !== null ? point.velocity * MS_TO_KT : null;
+    if (speedKt === null && elapsed > 0) {
+      speedKt = distanceMeters(before.latitude, before.longitude, after.latitude, after.longitude) / elapsed * MS_TO_KT;
+    }
+
+    let verticalRateFpm = point.vertical_rate !== null ? point.vertical_rate * MS_TO_FPM : null;
+    if (verticalRateFpm === null && elapsed > 0 && before.baro_altitude !== null && after.baro_altitude !== null) {
+      verticalRateFpm = (after.baro_altitude - before.baro_altitude) / elapsed * MS_TO_FPM;
+    }
+    if (point.on_ground) verticalRateFpm = 0;
+
+    return {
+      time: point.time,
+      altitudeFt: point.baro_altitude !== null ? point.baro_altitude * M_TO_FT : null,
+      speedKt,
+      verticalRateFpm,
+    };
+  });
+}
+
+// Splits a flight into ground, climb, cruise (any level flight) and descent
+// by the smoothed vertical rate
+export function detectFlightPhases(
+  track: FlightTrackPoint[],
+  profile: FlightProfilePoint[] = buildFlightProfile(track),
+  options: FlightPhaseOptions = DEFAULT_FLIGHT_PHASE_OPTIONS
+): FlightPhaseSegment[] {
+  const halfWindow = options.smoothingSeconds / 2;
+  const phases = profile.map((point, i): FlightPhase => {
+    if (track[i].on_ground) return 'ground';
+
+    const rates = profile
+      .filter(other => Math.abs(other.time - point.time) <= halfWindow && other.verticalRateFpm !== null)
+      .map(other => other.verticalRateFpm as number);
+    const rate = rates.length > 0 ? rates.reduce((sum, value) => sum + value, 0) / rates.length : 0;
+    if (rate >= options.minVerticalRateFpm) return 'climb';
+    if (rate <= -options.minVerticalRateFpm) return 'descent';
+    return 'cruise';
+  });
+
+  const segments: FlightPhaseSegment[] = [];
+  phases.forEach((phase, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.phase === phase) {
+      last.endIndex = i;
+      last.end = profile[i].time;
+    } else {
+      segments.push({ phase, startIndex: i, endIndex: i, start: profile[i].time, end: profile[i].time });
+    }
+  });
+
+  // Fold blips (a short level-off in a climb) into the previous phase, then
+  // join neighbours that ended up the same
+  const merged: FlightPhaseSegment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    const isBlip = segment.phase !== 'ground' && segment.end - segment.start < options.minPhaseSeconds;
+    if (last && (last.phase === segment.phase || isBlip)) {
+      last.endIndex = segment.endIndex;
+      last.end = segment.end;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+// Index of the profile point closest in time
+export function nearestProfileIndex(profile: FlightProfilePoint[], time: number): number {
+  let best = 0;
+  profile.forEach((point, i) => {
+    if (Math.abs(point.time - time) < Math.abs(profile[best].time - time)) best = i;
+  });
+  return best;
+}
@@ -0,0 +1,49 @@
+import { FlightDataProvider, FlightDataProviderFactory } from './types';
+import { openSkyProvider } from './opensky';
+import { dump1090Provider, sbsProvider, avrProvider, beastProvider } from './receiver';
+import { createMergedProvider } from './merged';
+
+export type { FlightDataProvider } from './types';
+export { mapStateToFlightState } from './opensky';
+export type { OpenSkyStateVector } from './opensky';
+
+const DEFAULT_PROVIDER = 'opensky';
+
+// Registered providers, keyed by the name used in FLIGHT_DATA_PROVIDER
+const providers = new Map<string, FlightDataProviderFactory>([
+  ['opensky', () => openSkyProvider],
+  ['dump1090', () => dump1090Provider],
+  ['sbs', () => sbsProvider],
+  ['avr', () => avrProvider],
+  ['beast', () => beastProvider],
+]);
+
+export function registerFlightDataProvider(name: string, factory: FlightDataProviderFactory) {
+  providers.set(name, factory);
+}
+
+function resolveProvider(name: string): FlightDataProvider | null {
+  const factory = providers.get(name);
+  if (!factory) {
+    console.warn(`getFlightDataProvider: Unknown provider "${name}"`);
+    return null;
+  }
+  return factory();
+}
+
+// FLIGHT_DATA_PROVIDER names one provider ("opensky") or a comma-separated
+// list ("dump1090,opensky") whose results are merged per aircraft.
+export function getFlightDataProvider(name: string = process.env.FLIGHT_DATA_PROVIDER || DEFAULT_PROVIDER): FlightDataProvider {
+  const resolved = name
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(resolveProvider)
+    .filter((provider): provider is FlightDataProvider => provider !== null);
+
+  if (resolved.length === 0) {
+    console.warn(`getFlightDataProvider: No usable provider in "${name}", using "${DEFAULT_PROVIDER}"`);
+    return providers.get(DEFAULT_PROVIDER)!();
+  }
+  return resolved.length === 1 ? resolved[0] : createMergedProvider(resolved);
+}
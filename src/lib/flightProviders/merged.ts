@@ -0,0 +1,74 @@
+import { FlightState, BoundingBox } from '../../types';
+import { FlightDataProvider } from './types';
+
+// Keeps the most recently heard state for each aircraft
+function mergeStates(results: FlightState[][]): FlightState[] {
+  const merged = new Map<string, FlightState>();
+  for (const states of results) {
+    for (const state of states) {
+      const existing = merged.get(state.icao24);
+      if (!existing || state.last_contact > existing.last_contact) {
+        merged.set(state.icao24, state);
+      }
+    }
+  }
+  return Array.from(merged.values());
+}
+
+// Queries several providers side by side, e.g. a local receiver next to
+// OpenSky. A failing provider is logged and skipped as long as one succeeds.
+export function createMergedProvider(providers: FlightDataProvider[]): FlightDataProvider {
+  const collect = async (query: (provider: FlightDataProvider) => Promise<FlightState[]>) => {
+    const results = await Promise.allSettled(providers.map(query));
+    const fulfilled: FlightState[][] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        fulfilled.push(result.value);
+      } else {
+        console.warn(`MergedProvider: ${providers[i].name} failed:`, result.reason);
+      }
+    });
+    if (fulfilled.length === 0) {
+      throw new Error(`All providers failed: ${providers.map(p => p.name).join(', ')}`);
+    }
+    return mergeStates(fulfilled);
+  };
+
+  return {
+    name: providers.map(p => p.name).join(','),
+
+    fetchStates(bounds?: BoundingBox) {
+      return collect(provider => provider.fetchStates(bounds));
+    },
+
+    fetchStatesByIcao24(icao24: string[]) {
+      return collect(provider => provider.fetchStatesByIcao24(icao24));
+    },
+
+    // First provider that has a track wins
+    async fetchTrack(icao24: string) {
+      for (const provider of providers) {
+        try {
+          const track = await provider.fetchTrack(icao24);
+          if (track && track.length > 0) return track;
+        } catch (error) {
+          console.warn(`MergedProvider: ${provider.name} track lookup failed:`, error);
+        }
+      }
+      return null;
+    },
+
+    // Same for past flights
+    async fetchFlights(icao24: string, begin: number, end: number) {
+      for (const provider of providers) {
+        try {
+          const flights = await provider.fetchFlights(icao24, begin, end);
+          if (flights && flights.length > 0) return flights;
+        } catch (error) {
+          console.warn(`MergedProvider: ${provider.name} flights lookup failed:`, error);
+        }
+      }
+      return null;
+    },
+  };
+}
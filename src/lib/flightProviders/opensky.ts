@@ -0,0 +1,168 @@
+import { FlightState, BoundingBox, FlightTrackPoint, AircraftFlight } from '../../types';
+import { FlightDataProvider } from './types';
+import { getOpenSkyAccessToken, invalidateOpenSkyAccessToken, OpenSkyAuthError } from '../openskyAuth';
+import countryCodeMap from '../../data/country-name-to-code.json';
+
+const OPENSKY_API_URL = 'https://opensky-network.org/api';
+
+// The state vector from OpenSky API has a specific structure.
+// See OpenSky API docs for more details.
+export type OpenSkyStateVector = [
+  string, // icao24
+  string | null, // callsign
+  string, // origin_country
+  number | null, // time_position
+  number, // last_contact
+  number | null, // longitude
+  number | null, // latitude
+  number | null, // baro_altitude
+  boolean, // on_ground
+  number | null, // velocity
+  number | null, // true_track
+  number | null, // vertical_rate
+  number[] | null, // sensors
+  number | null, // geo_altitude
+  string | null, // squawk
+  boolean, // spi
+  number, // position_source
+  number, // category
+];
+
+// A waypoint from /tracks/all: time, latitude, longitude, baro_altitude, true_track, on_ground.
+// Velocity and vertical rate are not part of the documented format but are read when present.
+type OpenSkyWaypoint = [number, number, number, number | null, number | null, boolean, (number | null)?, (number | null)?];
+
+// A flight from /flights/aircraft
+type OpenSkyFlight = {
+  icao24: string;
+  firstSeen: number;
+  estDepartureAirport: string | null;
+  lastSeen: number;
+  estArrivalAirport: string | null;
+  callsign: string | null;
+};
+
+// Helper function to map raw state vector to a structured FlightState object
+export function mapStateToFlightState(state: OpenSkyStateVector): FlightState {
+  const [
+    icao24, callsign, origin_country, time_position, last_contact,
+    longitude, latitude, baro_altitude, on_ground, velocity,
+    true_track, vertical_rate, sensors, geo_altitude, squawk,
+    spi, position_source, category
+  ] = state;
+
+  return {
+    icao24: icao24.trim(),
+    callsign: callsign?.trim() || null,
+    origin_country,
+    time_position,
+    last_contact,
+    longitude: longitude as number,
+    latitude: latitude as number,
+    baro_altitude,
+    on_ground,
+    velocity,
+    true_track,
+    vertical_rate,
+    sensors,
+    geo_altitude,
+    squawk,
+    spi,
+    position_source,
+    category,
+    origin_country_code: (countryCodeMap as Record<string, string>)[origin_country] || '',
+  };
+}
+
+// Performs a GET against the OpenSky REST API. Tries an authenticated request
+// first and falls back to an anonymous one (lower rate limits) unless the
+// endpoint requires authentication. Returns null for 404, throws otherwise.
+async function openskyGet<T>(path: string, requireAuth = false): Promise<T | null> {
+  const url = `${OPENSKY_API_URL}${path}`;
+
+  try {
+    const token = await getOpenSkyAccessToken();
+    if (token) {
+      const response = await fetch(url, { headers: { 'Authorization': `Bearer ${token}` } });
+      if (response.ok) return await response.json();
+      if (response.status === 404) return null;
+      if (response.status === 401) invalidateOpenSkyAccessToken();
+      console.log(`OpenSkyProvider: Authenticated request to ${path} failed:`, response.status, response.statusText);
+    } else if (requireAuth) {
+      console.log(`OpenSkyProvider: ${path} requires credentials, none available`);
+      return null;
+    }
+  } catch (error) {
+    if (error instanceof OpenSkyAuthError) {
+      console.error('OpenSkyProvider: Authentication failed:', error.message);
+    } else {
+      console.warn('OpenSkyProvider: Authenticated request failed, falling back to unauthenticated.', error);
+    }
+  }
+
+  if (requireAuth) return null;
+
+  const response = await fetch(url);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`OpenSky request to ${path} failed: ${response.status} ${response.statusText}`);
+  }
+  return await response.json();
+}
+
+export const openSkyProvider: FlightDataProvider = {
+  name: 'opensky',
+
+  async fetchStates(bounds?: BoundingBox): Promise<FlightState[]> {
+    const query = bounds
+      ? `?lamin=${bounds.lamin}&lomin=${bounds.lomin}&lamax=${bounds.lamax}&lomax=${bounds.lomax}`
+      : '';
+    const data = await openskyGet<{ states: OpenSkyStateVector[] | null }>(`/states/all${query}`);
+    return (data?.states || []).map(mapStateToFlightState);
+  },
+
+  async fetchStatesByIcao24(icao24: string[]): Promise<FlightState[]> {
+    if (icao24.length === 0) return [];
+    const query = icao24.map(code => `icao24=${code.trim().toLowerCase()}`).join('&');
+    const data = await openskyGet<{ states: OpenSkyStateVector[] | null }>(`/states/all?${query}`);
+    return (data?.states || []).map(mapStateToFlightState);
+  },
+
+  async fetchTrack(icao24: string): Promise<FlightTrackPoint[] | null> {
+    const data = await openskyGet<{ callsign: string; path: OpenSkyWaypoint[] }>(
+      `/tracks/all?icao24=${icao24.trim().toLowerCase()}&time=0`,
+      true
+    );
+
+    if (!data || !data.path || data.path.length === 0) return null;
+
+    return data.path.map(p => ({
+      time: p[0],
+      latitude: p[1],
+      longitude: p[2],
+      baro_altitude: p[3],
+      true_track: p[4],
+      on_ground: p[5],
+      velocity: p[6] ?? null,
+      vertical_rate: p[7] ?? null,
+      callsign: data.callsign,
+    }));
+  },
+
+  async fetchFlights(icao24: string, begin: number, end: number): Promise<AircraftFlight[] | null> {
+    const data = await openskyGet<OpenSkyFlight[]>(
+      `/flights/aircraft?icao24=${icao24.trim().toLowerCase()}&begin=${Math.floor(begin)}&end=${Math.floor(end)}`
+    );
+    if (!data) return null;
+
+    return data
+      .map(flight => ({
+        callsign: flight.callsign?.trim() || null,
+        firstSeen: flight.firstSeen,
+        lastSeen: flight.lastSeen,
+        departureAirport: flight.estDepartureAirport,
+        arrivalAirport: flight.estArrivalAirport,
+      }))
+      .sort((a, b) => b.firstSeen - a.firstSeen);
+  },
+};
@@ -0,0 +1,138 @@
+import { FlightState, BoundingBox } from '../../types';
+import { FlightDataProvider } from './types';
+import { createAircraftStore } from '../receivers/aircraftStore';
+import { connectSbsFeed } from '../receivers/sbs';
+import { TcpFeedConnection } from '../receivers/tcpFeed';
+import { fetchDump1090AircraftJson, ingestDump1090Json } from '../receivers/dump1090';
+import { connectModeSFeed, createModeSTracker } from '../modes/tracker';
+
+const DEFAULT_SBS_PORT = 30003;
+const DEFAULT_AVR_PORT = 30002;
+const DEFAULT_BEAST_PORT = 30005;
+
+// Receivers keep no history of their own, so tracks and past flights come from elsewhere
+const noTrack = async () => null;
+const noFlights = async () => null;
+
+// --- dump1090 aircraft.json (polled on demand) ---
+
+const dump1090Store = createAircraftStore();
+
+async function refreshDump1090(): Promise<void> {
+  const url = process.env.DUMP1090_URL;
+  if (!url) {
+    throw new Error('DUMP1090_URL is not set');
+  }
+  const data = await fetchDump1090AircraftJson(url);
+  ingestDump1090Json(data, dump1090Store);
+  dump1090Store.prune(data.now);
+}
+
+export const dump1090Provider: FlightDataProvider = {
+  name: 'dump1090',
+
+  async fetchStates(bounds?: BoundingBox): Promise<FlightState[]> {
+    await refreshDump1090();
+    return dump1090Store.getStates(bounds);
+  },
+
+  async fetchStatesByIcao24(icao24: string[]): Promise<FlightState[]> {
+    await refreshDump1090();
+    return icao24
+      .map(code => dump1090Store.getState(code))
+      .filter((state): state is FlightState => state !== null);
+  },
+
+  fetchTrack: noTrack,
+
+  fetchFlights: noFlights,
+};
+
+// --- SBS-1 BaseStation TCP feed (port 30003, kept open in the background) ---
+
+const sbsStore = createAircraftStore();
+let sbsConnection: TcpFeedConnection | null = null;
+
+function ensureSbsConnection() {
+  if (sbsConnection) return;
+  const host = process.env.SBS_HOST;
+  if (!host) {
+    throw new Error('SBS_HOST is not set');
+  }
+  const port = parseInt(process.env.SBS_PORT || '', 10) || DEFAULT_SBS_PORT;
+  sbsConnection = connectSbsFeed(host, port, sbsStore);
+}
+
+export const sbsProvider: FlightDataProvider = {
+  name: 'sbs',
+
+  async fetchStates(bounds?: BoundingBox): Promise<FlightState[]> {
+    ensureSbsConnection();
+    sbsStore.prune();
+    return sbsStore.getStates(bounds);
+  },
+
+  async fetchStatesByIcao24(icao24: string[]): Promise<FlightState[]> {
+    ensureSbsConnection();
+    return sbsStore
+      .getStates()
+      .filter(state => icao24.some(code => code.trim().toLowerCase() === state.icao24));
+  },
+
+  fetchTrack: noTrack,
+
+  fetchFlights: noFlights,
+};
+
+// --- Raw Mode S frames (AVR port 30002 / Beast port 30005), decoded locally ---
+
+const parseCoordinate = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+function createModeSProvider(format: 'avr' | 'beast', defaultPort: number): FlightDataProvider {
+  const envPrefix = format.toUpperCase();
+  const store = createAircraftStore();
+  let connection: TcpFeedConnection | null = null;
+
+  const ensureConnection = () => {
+    if (connection) return;
+    const host = process.env[`${envPrefix}_HOST`];
+    if (!host) {
+      throw new Error(`${envPrefix}_HOST is not set`);
+    }
+    const port = parseInt(process.env[`${envPrefix}_PORT`] || '', 10) || defaultPort;
+    // Surface positions can only be decoded relative to a known reference point
+    const tracker = createModeSTracker(store, {
+      receiverLatitude: parseCoordinate(process.env.RECEIVER_LAT),
+      receiverLongitude: parseCoordinate(process.env.RECEIVER_LON),
+    });
+    connection = connectModeSFeed(host, port, format, tracker);
+  };
+
+  return {
+    name: format,
+
+    async fetchStates(bounds?: BoundingBox): Promise<FlightState[]> {
+      ensureConnection();
+      store.prune();
+      return store.getStates(bounds);
+    },
+
+    async fetchStatesByIcao24(icao24: string[]): Promise<FlightState[]> {
+      ensureConnection();
+      return icao24
+        .map(code => store.getState(code.trim().toLowerCase()))
+        .filter((state): state is FlightState => state !== null);
+    },
+
+    fetchTrack: noTrack,
+
+    fetchFlights: noFlights,
+  };
+}
+
+export const avrProvider = createModeSProvider('avr', DEFAULT_AVR_PORT);
+export const beastProvider = createModeSProvider('beast', DEFAULT_BEAST_PORT);
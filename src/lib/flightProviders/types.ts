@@ -0,0 +1,24 @@
+import { FlightState, BoundingBox, FlightTrackPoint, AircraftFlight } from '../../types';
+
+// A source of live aircraft state vectors. Every provider maps its own wire
+// format to the shared FlightState / FlightTrackPoint types so callers never
+// need to know where the data came from.
+export interface FlightDataProvider {
+  // Identifier used in FLIGHT_DATA_PROVIDER and in logs
+  name: string;
+
+  // All states inside the bounding box, or the whole world when omitted
+  fetchStates(bounds?: BoundingBox): Promise<FlightState[]>;
+
+  // States for specific transponders (hex icao24 codes)
+  fetchStatesByIcao24(icao24: string[]): Promise<FlightState[]>;
+
+  // Recent track for a single aircraft, null when unavailable or unsupported
+  fetchTrack(icao24: string): Promise<FlightTrackPoint[] | null>;
+
+  // Flights of a single aircraft between begin and end (Unix seconds), newest
+  // first; null when unavailable or unsupported
+  fetchFlights(icao24: string, begin: number, end: number): Promise<AircraftFlight[] | null>;
+}
+
+export type FlightDataProviderFactory = () => FlightDataProvider;
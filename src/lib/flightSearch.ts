@@ -0,0 +1,53 @@
+import { FlightState, SearchResult } from '../types';
+import { callsignToFlightNumber, findAirlines, flightNumberToCallsigns, getAirlineByIcao, normalizeFlightNumber } from './flightNumbers';
+
+const M_TO_FT = 3.28084;
+
+// Scores flights against a query; lower is a better match, null means no
+// match. Built once per query since it's run over world-wide state vectors.
+export function createFlightMatcher(query: string): (flight: FlightState) => number | null {
+  const normalized = normalizeFlightNumber(query);
+  // W61699 is also found as WZZ1699
+  const candidates = flightNumberToCallsigns(normalized);
+  const airlinePrefixes = findAirlines(query).map(airline => airline.icao);
+
+  return (flight) => {
+    if (!normalized) return null;
+    const callsign = flight.callsign?.trim().toUpperCase() ?? '';
+    const icao24 = flight.icao24.toUpperCase();
+
+    if (icao24 === normalized || (callsign && candidates.includes(callsign))) return 0;
+    if (callsign && candidates.some(candidate => callsign.startsWith(candidate))) return 1;
+    if (icao24.startsWith(normalized)) return 2;
+    if (callsign && airlinePrefixes.some(prefix => callsign.startsWith(prefix))) return 3;
+    return null;
+  };
+}
+
+export function flightToSearchResult(flight: FlightState): SearchResult {
+  const callsign = flight.callsign?.trim() || null;
+  const flightNumber = callsign ? callsignToFlightNumber(callsign) : null;
+  const airline = callsign ? getAirlineByIcao(callsign.slice(0, 3)) : null;
+  const altitude = flight.on_ground
+    ? 'on ground'
+    : flight.baro_altitude !== null ? `${Math.round(flight.baro_altitude * M_TO_FT).toLocaleString()} ft` : null;
+
+  return {
+    kind: 'flight',
+    id: `flight-${flight.icao24}`,
+    label: callsign || flight.icao24.toUpperCase(),
+    description: [flightNumber !== callsign ? flightNumber : null, airline?.name, flight.icao24, altitude].filter(Boolean).join(' · '),
+    flight,
+  };
+}
+
+// Best matching flights by callsign, flight number, icao24 or airline
+export function searchFlightStates(flights: FlightState[], query: string, limit = 8): SearchResult[] {
+  const score = createFlightMatcher(query);
+  return flights
+    .map(flight => ({ flight, score: score(flight) }))
+    .filter((entry): entry is { flight: FlightState; score: number } => entry.score !== null)
+    .sort((a, b) => a.score - b.score || (a.flight.callsign ?? '').localeCompare(b.flight.callsign ?? ''))
+    .slice(0, limit)
+    .map(({ flight }) => flightToSearchResult(flight));
+}
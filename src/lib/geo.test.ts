@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { containsBounds, insetBounds } from './geo';
+
+const POLAND = { lamin: 49.0, lomin: 14.1, lamax: 54.9, lomax: 24.2 };
+const PACIFIC = { lamin: -30, lomin: 170, lamax: 0, lomax: -170 };
+
+describe('containsBounds', () => {
+  it('checks plain boxes', () => {
+    expect(containsBounds(POLAND, { lamin: 52.0, lomin: 20.8, lamax: 52.3, lomax: 21.1 })).toBe(true);
+    expect(containsBounds(POLAND, { lamin: 52.0, lomin: 13.0, lamax: 52.3, lomax: 15.0 })).toBe(false);
+    expect(containsBounds(POLAND, { lamin: 54.0, lomin: 20.0, lamax: 56.0, lomax: 21.0 })).toBe(false);
+  });
+
+  it('checks boxes across the antimeridian', () => {
+    expect(containsBounds(PACIFIC, { lamin: -20, lomin: 175, lamax: -10, lomax: -175 })).toBe(true);
+    expect(containsBounds(PACIFIC, { lamin: -20, lomin: 172, lamax: -10, lomax: 178 })).toBe(true);
+    expect(containsBounds(PACIFIC, { lamin: -20, lomin: -178, lamax: -10, lomax: -172 })).toBe(true);
+    expect(containsBounds(PACIFIC, { lamin: -20, lomin: 165, lamax: -10, lomax: 175 })).toBe(false);
+    expect(containsBounds(PACIFIC, { lamin: -20, lomin: 20, lamax: -10, lomax: 21 })).toBe(false);
+  });
+
+  it('lets a world-wide box contain anything', () => {
+    expect(containsBounds({ lamin: -90, lomin: -180, lamax: 90, lomax: 180 }, PACIFIC)).toBe(true);
+  });
+});
+
+describe('insetBounds', () => {
+  it('shrinks plain and wrapped boxes', () => {
+    expect(insetBounds(POLAND, 0.1)).toMatchObject({ lamin: 49.1, lamax: 54.8 });
+    const pacific = insetBounds(PACIFIC, 1);
+    expect(pacific?.lomin).toBeCloseTo(171, 9);
+    expect(pacific?.lomax).toBeCloseTo(-171, 9);
+  });
+
+  it('leaves nothing of boxes narrower than the margin', () => {
+    expect(insetBounds({ lamin: 52.0, lomin: 20.0, lamax: 52.1, lomax: 21.0 }, 0.1)).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { BoundingBox, FlightState } from '../types';
+
+export const EARTH_RADIUS_M = 6371000;
+
+export const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+export const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Great-circle distance in metres
+export function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Initial bearing from the first point to the second, degrees clockwise from north (0-360)
+export function bearingDegrees(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dLon = toRadians(lon2 - lon1);
+  const y = Math.sin(dLon) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+// Smallest difference between two headings, 0-180 degrees
+export function headingDifference(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+// Longitude wrapped into -180..180, e.g. for map bounds panned past the antimeridian
+export const normalizeLongitude = (longitude: number) => ((((longitude + 180) % 360) + 360) % 360) - 180;
+
+// A box across the antimeridian as two boxes with lomin <= lomax, for APIs
+// such as OpenSky's that don't accept wrapped boxes
+export function splitAtAntimeridian(bounds: BoundingBox): BoundingBox[] {
+  if (bounds.lomin <= bounds.lomax) return [bounds];
+  return [{ ...bounds, lomax: 180 }, { ...bounds, lomin: -180 }];
+}
+
+// Whether a state carries a position. OpenSky reports null coordinates for
+// aircraft without a recent fix even though FlightState types them as numbers.
+export const hasPosition = (state: Pick<FlightState, 'latitude' | 'longitude'>) =>
+  Number.isFinite(state.latitude) && Number.isFinite(state.longitude);
+
+// Whether a point is inside bounds; lomin > lomax means the box crosses the antimeridian
+export function isInBounds(latitude: number, longitude: number, bounds: BoundingBox): boolean {
+  if (latitude < bounds.lamin || latitude > bounds.lamax) return false;
+  return bounds.lomin <= bounds.lomax
+    ? longitude >= bounds.lomin && longitude <= bounds.lomax
+    : longitude >= bounds.lomin || longitude <= bounds.lomax;
+}
+
+const longitudeSpan = (bounds: BoundingBox) =>
+  bounds.lomin <= bounds.lomax ? bounds.lomax - bounds.lomin : bounds.lomax + 360 - bounds.lomin;
+
+// Whether inner lies entirely within outer; either may cross the antimeridian
+export function containsBounds(outer: BoundingBox, inner: BoundingBox): boolean {
+  if (inner.lamin < outer.lamin || inner.lamax > outer.lamax) return false;
+  if (longitudeSpan(outer) >= 360) return true;
+  const offset = (((inner.lomin - outer.lomin) % 360) + 360) % 360;
+  return offset + longitudeSpan(inner) <= longitudeSpan(outer);
+}
+
+// Bounds shrunk by margin degrees on every side, keeping a wrapped box
+// wrapped; null when nothing is left
+export function insetBounds(bounds: BoundingBox, margin: number): BoundingBox | null {
+  if (bounds.lamax - bounds.lamin <= 2 * margin || longitudeSpan(bounds) <= 2 * margin) return null;
+  return {
+    lamin: bounds.lamin + margin,
+    lamax: bounds.lamax - margin,
+    lomin: normalizeLongitude(bounds.lomin + margin),
+    lomax: normalizeLongitude(bounds.lomax - margin),
+  };
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { FlightState } from '../../types';
+import { createGeofenceEngine } from './engine';
+import { Geofence } from './types';
+
+const T0 = 1760000000;
+
+const CIRCLE: Geofence = {
+  id: 1,
+  userId: 'user-1',
+  name: 'Chopin',
+  shape: { type: 'circle', center: [52.1657, 20.9671], radiusMeters: 10000 },
+  rules: [],
+  enabled: true,
+};
+
+const INSIDE: [number, number] = [52.17, 20.97];
+const OUTSIDE: [number, number] = [52.6, 21.5];
+
+function state(offset: number, position: [number, number] | null, overrides: Partial<FlightState> = {}): FlightState {
+  return {
+    icao24: '48ae01',
+    callsign: 'LOT3921 ',
+    origin_country: 'Poland',
+    origin_country_code: 'PL',
+    time_position: T0 + offset,
+    last_contact: T0 + offset,
+    // OpenSky sends null coordinates for aircraft without a recent fix
+    latitude: position ? position[0] : (null as unknown as number),
+    longitude: position ? position[1] : (null as unknown as number),
+    baro_altitude: 600,
+    on_ground: false,
+    velocity: 120,
+    true_track: 90,
+    vertical_rate: 0,
+    sensors: null,
+    geo_altitude: null,
+    squawk: '2000',
+    spi: false,
+    position_source: 0,
+    category: 0,
+    ...overrides,
+  };
+}
+
+// Feeds one state per poll and lists the events as "TYPE@offset"
+function run(geofences: Geofence[], samples: FlightState[]) {
+  const engine = createGeofenceEngine();
+  return samples.flatMap(sample =>
+    engine.process(geofences, [sample], sample.last_contact).map(event => `${event.type}@${event.time - T0}`)
+  );
+}
+
+describe('createGeofenceEngine', () => {
+  it('reports observed crossings in both directions', () => {
+    expect(run([CIRCLE], [state(0, OUTSIDE), state(60, INSIDE), state(120, INSIDE), state(180, OUTSIDE)]))
+      .toEqual(['ENTER@60', 'EXIT@180']);
+  });
+
+  it('only sets the state of aircraft seen for the first time', () => {
+    expect(run([CIRCLE], [state(0, INSIDE), state(60, INSIDE)])).toEqual([]);
+  });
+
+  it('keeps the state through samples without a position', () => {
+    expect(run([CIRCLE], [state(0, OUTSIDE), state(60, INSIDE), state(120, null), state(180, INSIDE)])).toEqual(['ENTER@60']);
+    expect(run([CIRCLE], [state(0, null), state(60, INSIDE), state(120, OUTSIDE)])).toEqual(['EXIT@120']);
+  });
+
+  it('raises events only for rules listening for the direction and matching the aircraft', () => {
+    const geofence: Geofence = {
+      ...CIRCLE,
+      rules: [
+        { id: 'low', name: 'Low arrivals', triggers: ['ENTER'], conditions: { maxAltitudeFt: 3000 } },
+        { id: 'lot', name: 'LOT departures', triggers: ['EXIT'], conditions: { callsignPrefix: 'LOT' } },
+      ],
+    };
+    const engine = createGeofenceEngine();
+    engine.process([geofence], [state(0, OUTSIDE)], T0);
+    const [enter] = engine.process([geofence], [state(60, INSIDE)], T0 + 60);
+    expect(enter).toMatchObject({ type: 'ENTER', ruleId: 'low', id: `1-low-48ae01-ENTER-${T0 + 60}`, callsign: 'LOT3921' });
+    const [exit] = engine.process([geofence], [state(120, OUTSIDE, { baro_altitude: 3000 })], T0 + 120);
+    expect(exit).toMatchObject({ type: 'EXIT', ruleId: 'lot' });
+  });
+
+  it('follows aircraft across a polygon on the antimeridian', () => {
+    const pacific: Geofence = { ...CIRCLE, id: 2, shape: { type: 'polygon', points: [[-20, 178], [-20, -172], [-10, -172], [-10, 178]] } };
+    expect(run([pacific], [state(0, [-15, 175]), state(60, [-15, 179.9]), state(120, [-15, -179.9]), state(180, [-15, -170])]))
+      .toEqual(['ENTER@60', 'EXIT@180']);
+  });
+
+  it('ignores disabled geofences', () => {
+    expect(run([{ ...CIRCLE, enabled: false }], [state(0, OUTSIDE), state(60, INSIDE)])).toEqual([]);
+  });
+});
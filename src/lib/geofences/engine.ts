@@ -0,0 +1,69 @@
+import { FlightState } from '../../types';
+import { hasPosition, isInBounds } from '../geo';
+import { shapeBounds, shapeContains } from './geometry';
+import { DEFAULT_GEOFENCE_RULE, matchesGeofenceConditions } from './rules';
+import { Geofence, GeofenceEngine, GeofenceEvent, GeofenceEventType, GeofenceRule } from './types';
+
+// Aircraft not seen for this long are forgotten; the next sighting only sets
+// their state again
+const FORGET_AFTER_SECONDS = 30 * 60;
+
+// Inside/outside state per geofence and aircraft, updated from each poll.
+// Crossing a boundary raises an event for every rule of the geofence that
+// listens for that direction and matches the aircraft at that moment.
+export function createGeofenceEngine(): GeofenceEngine {
+  const presence = new Map<string, { inside: boolean; lastSeen: number }>();
+
+  const createEvent = (geofence: Geofence, rule: GeofenceRule, type: GeofenceEventType, state: FlightState): GeofenceEvent => ({
+    id: `${geofence.id}-${rule.id}-${state.icao24}-${type}-${state.last_contact}`,
+    type,
+    geofenceId: geofence.id,
+    geofenceName: geofence.name,
+    userId: geofence.userId,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    icao24: state.icao24,
+    callsign: state.callsign?.trim() || null,
+    time: state.last_contact,
+    latitude: state.latitude,
+    longitude: state.longitude,
+    altitude: state.baro_altitude ?? state.geo_altitude,
+    squawk: state.squawk,
+  });
+
+  const process = (geofences: Geofence[], states: FlightState[], now = Date.now() / 1000): GeofenceEvent[] => {
+    const events: GeofenceEvent[] = [];
+    // A sample without a position says nothing about which side the aircraft
+    // is on, so it keeps its previous state instead of counting as outside
+    const positioned = states.filter(hasPosition);
+
+    for (const geofence of geofences) {
+      if (!geofence.enabled) continue;
+      const bounds = shapeBounds(geofence.shape);
+      const rules = geofence.rules.length > 0 ? geofence.rules : [DEFAULT_GEOFENCE_RULE];
+
+      for (const state of positioned) {
+        const key = `${geofence.id}:${state.icao24}`;
+        const inside = isInBounds(state.latitude, state.longitude, bounds) &&
+          shapeContains(geofence.shape, state.latitude, state.longitude);
+        const previous = presence.get(key);
+        presence.set(key, { inside, lastSeen: now });
+        if (!previous || previous.inside === inside) continue;
+
+        const type: GeofenceEventType = inside ? 'ENTER' : 'EXIT';
+        for (const rule of rules) {
+          if (rule.triggers.includes(type) && matchesGeofenceConditions(state, rule.conditions)) {
+            events.push(createEvent(geofence, rule, type, state));
+          }
+        }
+      }
+    }
+
+    for (const [key, entry] of presence) {
+      if (now - entry.lastSeen > FORGET_AFTER_SECONDS) presence.delete(key);
+    }
+    return events;
+  };
+
+  return { process };
+}
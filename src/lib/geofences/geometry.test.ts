@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { BoundingBox } from '../../types';
+import { isInBounds } from '../geo';
+import { polygonContains, shapeBounds, shapeContains } from './geometry';
+
+// Around Warsaw Chopin
+const WAW_BOX: [number, number][] = [[52.0, 20.8], [52.0, 21.1], [52.3, 21.1], [52.3, 20.8]];
+// Fiji to Samoa, drawn across the antimeridian
+const PACIFIC: [number, number][] = [[-20, 178], [-20, -172], [-10, -172], [-10, 178]];
+
+describe('polygonContains', () => {
+  it('finds points inside and outside a plain polygon', () => {
+    expect(polygonContains(WAW_BOX, 52.1657, 20.9671)).toBe(true);
+    expect(polygonContains(WAW_BOX, 52.1657, 21.2)).toBe(false);
+    expect(polygonContains(WAW_BOX, 50.0777, 19.7848)).toBe(false);
+  });
+
+  it('handles concave polygons', () => {
+    // An L shape missing its north-east quarter
+    const shape: [number, number][] = [[0, 0], [0, 2], [1, 2], [1, 1], [2, 1], [2, 0]];
+    expect(polygonContains(shape, 0.5, 1.5)).toBe(true);
+    expect(polygonContains(shape, 1.5, 0.5)).toBe(true);
+    expect(polygonContains(shape, 1.5, 1.5)).toBe(false);
+  });
+
+  it('takes edges the short way across the antimeridian', () => {
+    expect(polygonContains(PACIFIC, -15, 179.5)).toBe(true);
+    expect(polygonContains(PACIFIC, -15, 180)).toBe(true);
+    expect(polygonContains(PACIFIC, -15, -179.5)).toBe(true);
+    expect(polygonContains(PACIFIC, -15, -175)).toBe(true);
+    expect(polygonContains(PACIFIC, -15, 0)).toBe(false);
+    expect(polygonContains(PACIFIC, -15, 175)).toBe(false);
+    expect(polygonContains(PACIFIC, -15, -170)).toBe(false);
+    expect(polygonContains(PACIFIC, -25, 179.5)).toBe(false);
+  });
+
+  it('gives the same answer whichever side the points are written on', () => {
+    const shifted = PACIFIC.map(([lat, lon]): [number, number] => [lat, lon < 0 ? lon + 360 : lon]);
+    for (const longitude of [179.5, -179.5, -175, 175, -170]) {
+      expect(polygonContains(shifted, -15, longitude)).toBe(polygonContains(PACIFIC, -15, longitude));
+    }
+  });
+
+  it('needs at least three points', () => {
+    expect(polygonContains([[0, 0], [1, 1]], 0.5, 0.5)).toBe(false);
+  });
+});
+
+// Longitudes go through normalizeLongitude, which adds floating point noise
+const expectBounds = (bounds: BoundingBox, expected: BoundingBox) => {
+  for (const key of ['lamin', 'lomin', 'lamax', 'lomax'] as const) expect(bounds[key]).toBeCloseTo(expected[key], 9);
+};
+
+describe('shapeBounds', () => {
+  it('boxes a plain polygon', () => {
+    expectBounds(shapeBounds({ type: 'polygon', points: WAW_BOX }), { lamin: 52.0, lomin: 20.8, lamax: 52.3, lomax: 21.1 });
+  });
+
+  it('wraps the box of a polygon across the antimeridian', () => {
+    const bounds = shapeBounds({ type: 'polygon', points: PACIFIC });
+    expectBounds(bounds, { lamin: -20, lomin: 178, lamax: -10, lomax: -172 });
+    expect(isInBounds(-15, 179.5, bounds)).toBe(true);
+    expect(isInBounds(-15, -175, bounds)).toBe(true);
+    expect(isInBounds(-15, 0, bounds)).toBe(false);
+  });
+
+  it('boxes a circle, wrapping near the antimeridian', () => {
+    const plain = shapeBounds({ type: 'circle', center: [52.1657, 20.9671], radiusMeters: 10000 });
+    expect(plain.lamin).toBeCloseTo(52.0758, 3);
+    expect(plain.lamax).toBeCloseTo(52.2556, 3);
+    expect(plain.lomin).toBeLessThan(20.9671);
+    expect(plain.lomax).toBeGreaterThan(20.9671);
+
+    const wrapped = shapeBounds({ type: 'circle', center: [-17.75, 179.9], radiusMeters: 50000 });
+    expect(wrapped.lomin).toBeGreaterThan(wrapped.lomax);
+    expect(isInBounds(-17.75, -179.9, wrapped)).toBe(true);
+    expect(shapeContains({ type: 'circle', center: [-17.75, 179.9], radiusMeters: 50000 }, -17.75, -179.9)).toBe(true);
+  });
+
+  it('covers every longitude for circles reaching a pole', () => {
+    expect(shapeBounds({ type: 'circle', center: [89.5, 0], radiusMeters: 100000 })).toMatchObject({ lomin: -180, lomax: 180 });
+  });
+});
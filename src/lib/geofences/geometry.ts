@@ -0,0 +1,103 @@
+import { BoundingBox } from '../../types';
+import { EARTH_RADIUS_M, distanceMeters, normalizeLongitude, toDegrees, toRadians } from '../geo';
+import { GeofenceShape } from './types';
+
+const MAX_RADIUS_METERS = 2000 * 1000;
+
+// Shifts polygon longitudes so no edge is longer than 180 degrees, e.g.
+// [178, -178] -> [178, 182]. Edges are taken as the short way round, which is
+// how a polygon drawn across the antimeridian is meant.
+export function unwrapLongitudes(points: [number, number][]): [number, number][] {
+  const unwrapped: [number, number][] = [];
+  for (const [latitude, longitude] of points) {
+    const previous = unwrapped[unwrapped.length - 1];
+    let lon = longitude;
+    if (previous) {
+      while (lon - previous[1] > 180) lon -= 360;
+      while (lon - previous[1] < -180) lon += 360;
+    }
+    unwrapped.push([latitude, lon]);
+  }
+  return unwrapped;
+}
+
+// Even-odd ray casting in plain latitude/longitude, fine for areas up to a few
+// hundred kilometres
+function rayCast(ring: [number, number][], latitude: number, longitude: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [latI, lonI] = ring[i];
+    const [latJ, lonJ] = ring[j];
+    if ((latI > latitude) !== (latJ > latitude) &&
+        longitude < ((lonJ - lonI) * (latitude - latI)) / (latJ - latI) + lonI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function polygonContains(points: [number, number][], latitude: number, longitude: number): boolean {
+  if (points.length < 3) return false;
+  const ring = unwrapLongitudes(points);
+  const longitudes = ring.map(([, lon]) => lon);
+  const minLon = Math.min(...longitudes);
+  const maxLon = Math.max(...longitudes);
+
+  // The unwrapped ring may extend past ±180, so the point is tried in each
+  // copy of the world that overlaps it
+  return [longitude, longitude - 360, longitude + 360].some(lon =>
+    lon >= minLon && lon <= maxLon && rayCast(ring, latitude, lon)
+  );
+}
+
+export function shapeContains(shape: GeofenceShape, latitude: number, longitude: number): boolean {
+  if (shape.type === 'circle') {
+    return distanceMeters(shape.center[0], shape.center[1], latitude, longitude) <= shape.radiusMeters;
+  }
+  return polygonContains(shape.points, latitude, longitude);
+}
+
+// Box around the shape for a cheap first check; lomin > lomax when it
+// crosses the antimeridian
+export function shapeBounds(shape: GeofenceShape): BoundingBox {
+  if (shape.type === 'circle') {
+    const [latitude, longitude] = shape.center;
+    const dLat = toDegrees(shape.radiusMeters / EARTH_RADIUS_M);
+    const lamin = Math.max(-90, latitude - dLat);
+    const lamax = Math.min(90, latitude + dLat);
+    const dLon = toDegrees(shape.radiusMeters / (EARTH_RADIUS_M * Math.cos(toRadians(Math.max(Math.abs(lamin), Math.abs(lamax))))));
+    if (lamin <= -90 || lamax >= 90 || !Number.isFinite(dLon) || dLon >= 180) {
+      return { lamin, lomin: -180, lamax, lomax: 180 };
+    }
+    return { lamin, lomin: normalizeLongitude(longitude - dLon), lamax, lomax: normalizeLongitude(longitude + dLon) };
+  }
+
+  const ring = unwrapLongitudes(shape.points);
+  const latitudes = ring.map(([lat]) => lat);
+  const longitudes = ring.map(([, lon]) => lon);
+  const minLon = Math.min(...longitudes);
+  const maxLon = Math.max(...longitudes);
+  const lamin = Math.min(...latitudes);
+  const lamax = Math.max(...latitudes);
+  if (maxLon - minLon >= 360) return { lamin, lomin: -180, lamax, lomax: 180 };
+  return { lamin, lomin: normalizeLongitude(minLon), lamax, lomax: normalizeLongitude(maxLon) };
+}
+
+const isCoordinate = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 &&
+  typeof value[0] === 'number' && Math.abs(value[0]) <= 90 &&
+  typeof value[1] === 'number' && Number.isFinite(value[1]);
+
+// Checks a shape read from the database or a request
+export function isValidGeofenceShape(shape: unknown): shape is GeofenceShape {
+  if (!shape || typeof shape !== 'object') return false;
+  const candidate = shape as Record<string, unknown>;
+  if (candidate.type === 'circle') {
+    return isCoordinate(candidate.center) &&
+      typeof candidate.radiusMeters === 'number' && candidate.radiusMeters > 0 && candidate.radiusMeters <= MAX_RADIUS_METERS;
+  }
+  if (candidate.type === 'polygon') {
+    return Array.isArray(candidate.points) && candidate.points.length >= 3 && candidate.points.every(isCoordinate);
+  }
+  return false;
+}
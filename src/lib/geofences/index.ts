@@ -0,0 +1,51 @@
+import { FlightState } from '../../types';
+import { createGeofenceEngine } from './engine';
+import { loadEnabledGeofences, storeGeofenceEvents } from './store';
+import { GeofenceEvent, GeofenceEventListener } from './types';
+
+export type { Geofence, GeofenceShape, GeofenceRule, GeofenceConditions, GeofenceEvent, GeofenceEventType, GeofenceEventListener, GeofenceEngine } from './types';
+export { createGeofenceEngine } from './engine';
+export { shapeContains, shapeBounds, polygonContains, isValidGeofenceShape } from './geometry';
+export { GEOFENCES_TABLE, GEOFENCE_EVENTS_TABLE, geofenceFromRow } from './rows';
+export { matchesGeofenceConditions, parseGeofenceRules, describeGeofenceConditions, DEFAULT_GEOFENCE_RULE } from './rules';
+
+const engine = createGeofenceEngine();
+const subscriptions = new Set<{ listener: GeofenceEventListener; geofenceIds?: number[] }>();
+
+// Calls listener for every ENTER / EXIT, optionally only for some geofences.
+// Returns a function that removes the subscription.
+export function subscribeToGeofenceEvents(listener: GeofenceEventListener, geofenceIds?: number[]): () => void {
+  const subscription = { listener, geofenceIds };
+  subscriptions.add(subscription);
+  return () => {
+    subscriptions.delete(subscription);
+  };
+}
+
+function publishGeofenceEvents(events: GeofenceEvent[]) {
+  for (const event of events) {
+    for (const { listener, geofenceIds } of subscriptions) {
+      if (geofenceIds && !geofenceIds.includes(event.geofenceId)) continue;
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('publishGeofenceEvents: Listener failed:', error);
+      }
+    }
+  }
+}
+
+// Runs one poll of flight states through every enabled geofence, then
+// stores and publishes the resulting events
+export async function evaluateGeofences(states: FlightState[], now = Date.now() / 1000): Promise<GeofenceEvent[]> {
+  const geofences = await loadEnabledGeofences();
+  if (geofences.length === 0) return [];
+
+  const events = engine.process(geofences, states, now);
+  if (events.length > 0) {
+    console.log(`evaluateGeofences: ${events.length} events:`, events.map(event => `${event.icao24} ${event.type} ${event.geofenceName}`).join(', '));
+    publishGeofenceEvents(events);
+    await storeGeofenceEvents(events);
+  }
+  return events;
+}
@@ -0,0 +1,64 @@
+import { isValidGeofenceShape } from './geometry';
+import { parseGeofenceRules } from './rules';
+import { Geofence, GeofenceEvent, GeofenceEventType } from './types';
+
+// Table rows, shared by the server-side store and the map panel (which reads
+// the user's own rows through RLS)
+export const GEOFENCES_TABLE = 'geofences';
+export const GEOFENCE_EVENTS_TABLE = 'geofence_events';
+
+export interface GeofenceRow {
+  id: number;
+  user_id: string;
+  name: string;
+  shape: unknown;
+  rules: unknown;
+  enabled: boolean;
+}
+
+export interface GeofenceEventRow {
+  id: string;
+  geofence_id: number;
+  user_id: string;
+  type: GeofenceEventType;
+  rule_id: string;
+  rule_name: string;
+  icao24: string;
+  callsign: string | null;
+  occurred_at: string;
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  squawk: string | null;
+}
+
+// Null for rows whose shape isn't usable
+export function geofenceFromRow(row: GeofenceRow): Geofence | null {
+  if (!isValidGeofenceShape(row.shape)) return null;
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    shape: row.shape,
+    rules: parseGeofenceRules(row.rules),
+    enabled: row.enabled,
+  };
+}
+
+export function geofenceEventToRow(event: GeofenceEvent): GeofenceEventRow {
+  return {
+    id: event.id,
+    geofence_id: event.geofenceId,
+    user_id: event.userId,
+    type: event.type,
+    rule_id: event.ruleId,
+    rule_name: event.ruleName,
+    icao24: event.icao24,
+    callsign: event.callsign,
+    occurred_at: new Date(event.time * 1000).toISOString(),
+    latitude: event.latitude,
+    longitude: event.longitude,
+    altitude: event.altitude,
+    squawk: event.squawk,
+  };
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { parseGeofenceRules } from './rules';
+
+describe('parseGeofenceRules', () => {
+  it('keeps well-formed rules', () => {
+    const [rule] = parseGeofenceRules([
+      { id: 'low_7700', name: '  Emergencies  ', triggers: ['ENTER'], conditions: { squawks: ['7700'], callsignPrefix: ' lot ' } },
+    ]);
+    expect(rule).toMatchObject({ id: 'low_7700', name: 'Emergencies', triggers: ['ENTER'], conditions: { squawks: ['7700'], callsignPrefix: 'LOT' } });
+  });
+
+  it('replaces ids that are too long or not plain identifiers', () => {
+    const rules = parseGeofenceRules([
+      { id: 'x'.repeat(65) },
+      { id: 'x'.repeat(64) },
+      { id: 'rule with spaces' },
+      { id: 42 },
+    ]);
+    expect(rules.map(rule => rule.id)).toEqual(['rule-1', 'x'.repeat(64), 'rule-3', 'rule-4']);
+  });
+
+  it('shortens names to fit the event column', () => {
+    const [long, blank] = parseGeofenceRules([{ name: `${'a'.repeat(79)} tail` }, { name: '   ' }]);
+    expect(long.name).toBe('a'.repeat(79));
+    expect(blank.name).toBe('Rule 2');
+  });
+
+  it('drops entries without any valid trigger', () => {
+    expect(parseGeofenceRules([{ triggers: ['LAND'] }, null, 'rule'])).toEqual([]);
+    expect(parseGeofenceRules({ id: 'not-a-list' })).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import { FlightState } from '../../types';
+import { emitterCategoryToNumber } from '../receivers/emitterCategory';
+import { GeofenceConditions, GeofenceEventType, GeofenceRule } from './types';
+
+const M_TO_FT = 3.28084;
+const EVENT_TYPES: GeofenceEventType[] = ['ENTER', 'EXIT'];
+// geofence_events.rule_id and rule_name are VARCHAR(64) and VARCHAR(80); the
+// rule id also goes into the VARCHAR(128) event id
+const MAX_RULE_ID_LENGTH = 64;
+const MAX_RULE_NAME_LENGTH = 80;
+const RULE_ID_PATTERN = new RegExp(`^[A-Za-z0-9_-]{1,${MAX_RULE_ID_LENGTH}}$`);
+
+// Used for geofences saved without rules: every aircraft, both ways
+export const DEFAULT_GEOFENCE_RULE: GeofenceRule = {
+  id: 'any',
+  name: 'Any aircraft',
+  triggers: ['ENTER', 'EXIT'],
+  conditions: {},
+};
+
+const altitudeFeet = (state: FlightState) => {
+  if (state.on_ground) return 0;
+  const altitude = state.baro_altitude ?? state.geo_altitude;
+  return altitude !== null ? altitude * M_TO_FT : null;
+};
+
+export function matchesGeofenceConditions(state: FlightState, conditions: GeofenceConditions): boolean {
+  if (conditions.minAltitudeFt !== undefined || conditions.maxAltitudeFt !== undefined) {
+    const altitude = altitudeFeet(state);
+    if (altitude === null) return false;
+    if (conditions.minAltitudeFt !== undefined && altitude < conditions.minAltitudeFt) return false;
+    if (conditions.maxAltitudeFt !== undefined && altitude > conditions.maxAltitudeFt) return false;
+  }
+  if (conditions.squawks?.length && (!state.squawk || !conditions.squawks.includes(state.squawk))) return false;
+  if (conditions.categories?.length &&
+      !conditions.categories.some(category => emitterCategoryToNumber(category) === state.category)) return false;
+  if (conditions.onGround !== undefined && state.on_ground !== conditions.onGround) return false;
+  if (conditions.icao24?.length && !conditions.icao24.includes(state.icao24.toLowerCase())) return false;
+  if (conditions.callsignPrefix &&
+      !(state.callsign ?? '').trim().toUpperCase().startsWith(conditions.callsignPrefix.toUpperCase())) return false;
+  return true;
+}
+
+const optionalNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+const stringList = (value: unknown, normalize: (item: string) => string) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(normalize) : undefined;
+
+const ruleId = (value: unknown, index: number) =>
+  typeof value === 'string' && RULE_ID_PATTERN.test(value) ? value : `rule-${index + 1}`;
+
+const ruleName = (value: unknown, index: number) => {
+  const name = typeof value === 'string' ? value.trim().slice(0, MAX_RULE_NAME_LENGTH).trim() : '';
+  return name || `Rule ${index + 1}`;
+};
+
+// Rules as stored in geofences.rules; malformed entries are dropped, and ids
+// and names that would not fit the event columns are replaced or shortened
+export function parseGeofenceRules(value: unknown): GeofenceRule[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry, index): GeofenceRule[] => {
+    if (!entry || typeof entry !== 'object') return [];
+    const rule = entry as Record<string, unknown>;
+    const conditions = (rule.conditions && typeof rule.conditions === 'object' ? rule.conditions : {}) as Record<string, unknown>;
+    const triggers = Array.isArray(rule.triggers)
+      ? EVENT_TYPES.filter(type => (rule.triggers as unknown[]).includes(type))
+      : EVENT_TYPES;
+    if (triggers.length === 0) return [];
+
+    return [{
+      id: ruleId(rule.id, index),
+      name: ruleName(rule.name, index),
+      triggers,
+      conditions: {
+        minAltitudeFt: optionalNumber(conditions.minAltitudeFt),
+        maxAltitudeFt: optionalNumber(conditions.maxAltitudeFt),
+        squawks: stringList(conditions.squawks, item => item.trim()),
+        categories: stringList(conditions.categories, item => item.trim().toUpperCase()),
+        onGround: typeof conditions.onGround === 'boolean' ? conditions.onGround : undefined,
+        icao24: stringList(conditions.icao24, item => item.trim().toLowerCase()),
+        callsignPrefix: typeof conditions.callsignPrefix === 'string' && conditions.callsignPrefix.trim()
+          ? conditions.callsignPrefix.trim().toUpperCase()
+          : undefined,
+      },
+    }];
+  });
+}
+
+// Short description for lists, e.g. "below 3,000 ft · squawk 7700"
+export function describeGeofenceConditions(conditions: GeofenceConditions): string {
+  const parts: string[] = [];
+  if (conditions.minAltitudeFt !== undefined) parts.push(`above ${conditions.minAltitudeFt.toLocaleString('en-US')} ft`);
+  if (conditions.maxAltitudeFt !== undefined) parts.push(`below ${conditions.maxAltitudeFt.toLocaleString('en-US')} ft`);
+  if (conditions.squawks?.length) parts.push(`squawk ${conditions.squawks.join('/')}`);
+  if (conditions.categories?.length) parts.push(`category ${conditions.categories.join('/')}`);
+  if (conditions.onGround !== undefined) parts.push(conditions.onGround ? 'on the ground' : 'airborne');
+  if (conditions.icao24?.length) parts.push(conditions.icao24.join(', '));
+  if (conditions.callsignPrefix) parts.push(`callsign ${conditions.callsignPrefix}*`);
+  return parts.length > 0 ? parts.join(' · ') : 'any aircraft';
+}
@@ -0,0 +1,45 @@
+import { createAdminClient } from '../../utils/supabase/admin';
+import { GEOFENCES_TABLE, GEOFENCE_EVENTS_TABLE, GeofenceRow, geofenceEventToRow, geofenceFromRow } from './rows';
+import { Geofence, GeofenceEvent } from './types';
+
+// Geofences are edited rarely; polls within this window share one query
+const GEOFENCE_CACHE_MS = 60 * 1000;
+
+let cachedGeofences: { geofences: Geofence[]; timestamp: number } | null = null;
+
+// Enabled geofences of all users; empty when the service role isn't configured
+export async function loadEnabledGeofences(now = Date.now()): Promise<Geofence[]> {
+  if (cachedGeofences && now - cachedGeofences.timestamp < GEOFENCE_CACHE_MS) return cachedGeofences.geofences;
+
+  const supabase = createAdminClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from(GEOFENCES_TABLE)
+    .select('id, user_id, name, shape, rules, enabled')
+    .eq('enabled', true);
+  if (error) {
+    console.error('loadEnabledGeofences: Error querying geofences:', error);
+    return cachedGeofences?.geofences ?? [];
+  }
+
+  const geofences = (data as GeofenceRow[])
+    .map(geofenceFromRow)
+    .filter((geofence): geofence is Geofence => geofence !== null);
+  cachedGeofences = { geofences, timestamp: now };
+  return geofences;
+}
+
+// Persists events; does nothing when the service role isn't configured
+export async function storeGeofenceEvents(events: GeofenceEvent[]): Promise<void> {
+  if (events.length === 0) return;
+  const supabase = createAdminClient();
+  if (!supabase) return;
+
+  const { error } = await supabase
+    .from(GEOFENCE_EVENTS_TABLE)
+    .upsert(events.map(geofenceEventToRow), { onConflict: 'id', ignoreDuplicates: true });
+  if (error) {
+    console.error('storeGeofenceEvents: Failed to store events:', error);
+  }
+}
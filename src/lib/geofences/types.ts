@@ -0,0 +1,71 @@
+import { FlightState } from '../../types';
+
+// Coordinates are [latitude, longitude] as Leaflet uses them. Polygon points
+// may be given with longitudes on either side of the antimeridian, e.g. 179
+// followed by -179 is a 2 degree edge, not a 358 degree one.
+export type GeofenceShape =
+  | { type: 'polygon'; points: [number, number][] }
+  | { type: 'circle'; center: [number, number]; radiusMeters: number };
+
+export type GeofenceEventType = 'ENTER' | 'EXIT';
+
+// Which aircraft a rule applies to; every condition that is set must hold
+export interface GeofenceConditions {
+  // Feet, barometric altitude (aircraft on the ground count as 0)
+  minAltitudeFt?: number;
+  maxAltitudeFt?: number;
+  // e.g. ["7700"] or ["7500", "7600", "7700"]
+  squawks?: string[];
+  // ADS-B emitter categories, e.g. ["B1"] for helicopters
+  categories?: string[];
+  onGround?: boolean;
+  icao24?: string[];
+  // Matches the start of the callsign, e.g. "LOT"
+  callsignPrefix?: string;
+}
+
+export interface GeofenceRule {
+  // Stable within the geofence, part of the event id
+  id: string;
+  name: string;
+  triggers: GeofenceEventType[];
+  conditions: GeofenceConditions;
+}
+
+export interface Geofence {
+  id: number;
+  userId: string;
+  name: string;
+  shape: GeofenceShape;
+  rules: GeofenceRule[];
+  enabled: boolean;
+}
+
+export interface GeofenceEvent {
+  // Stable per geofence, rule, aircraft, type and time, so storing it twice is a no-op
+  id: string;
+  type: GeofenceEventType;
+  geofenceId: number;
+  geofenceName: string;
+  userId: string;
+  ruleId: string;
+  ruleName: string;
+  icao24: string;
+  callsign: string | null;
+  // Unix seconds of the sample that crossed the boundary
+  time: number;
+  latitude: number;
+  longitude: number;
+  // Metres, null when unknown
+  altitude: number | null;
+  squawk: string | null;
+}
+
+export type GeofenceEventListener = (event: GeofenceEvent) => void;
+
+export interface GeofenceEngine {
+  // Feed one poll; returns the ENTER / EXIT events it triggered. An aircraft
+  // seen for the first time only sets its inside/outside state, and one that
+  // isn't in the poll keeps it, so only an observed crossing raises an event.
+  process(geofences: Geofence[], states: FlightState[], now?: number): GeofenceEvent[];
+}
@@ -0,0 +1,106 @@
+import type { FlightFilters } from '../components/ClientMap';
+import { MapViewport, PositionSource } from '../types';
+
+// Map state that survives a reload and can be shared as a link, e.g.
+// /?lat=52.2&lon=21&z=8&sel=48ae21&alt=10000
+export interface MapUrlState {
+  // Zoom is optional in the URL; null keeps the map default
+  view: (Omit<MapViewport, 'zoom'> & { zoom: number | null }) | null;
+  selectedIcao24: string | null;
+  // Only the filters present in the URL
+  filters: Partial<FlightFilters>;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 19;
+// ~10 m, plenty for a shared view and keeps links short
+const COORDINATE_DECIMALS = 4;
+
+const POSITION_SOURCE_VALUES = new Set<number>(
+  Object.values(PositionSource).filter((value): value is number => typeof value === 'number')
+);
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const parseFlag = (value: string | null) => (value === '1' ? true : value === '0' ? false : null);
+
+export function parseMapUrlState(params: URLSearchParams): MapUrlState {
+  const latitude = parseNumber(params.get('lat'));
+  const longitude = parseNumber(params.get('lon'));
+  const zoom = parseNumber(params.get('z'));
+  const hasView = latitude !== null && longitude !== null && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+
+  const selected = params.get('sel')?.trim().toLowerCase() ?? null;
+  const filters: Partial<FlightFilters> = {};
+
+  const minAltitude = parseNumber(params.get('alt'));
+  if (minAltitude !== null && minAltitude >= 0) filters.minAltitude = Math.round(minAltitude);
+
+  const hideOnGround = parseFlag(params.get('ground'));
+  if (hideOnGround !== null) filters.hideOnGround = hideOnGround;
+
+  const category = params.get('cat');
+  if (category) filters.category = category;
+
+  const sources = params.get('src');
+  if (sources !== null) {
+    filters.positionSources = sources
+      .split(',')
+      .map(Number)
+      .filter(source => POSITION_SOURCE_VALUES.has(source)) as PositionSource[];
+  }
+
+  const clusterAircraft = parseFlag(params.get('cluster'));
+  if (clusterAircraft !== null) filters.clusterAircraft = clusterAircraft;
+
+  const animateAircraft = parseFlag(params.get('anim'));
+  if (animateAircraft !== null) filters.animateAircraft = animateAircraft;
+
+  return {
+    view: hasView
+      ? { latitude, longitude, zoom: zoom !== null ? Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round(zoom))) : null }
+      : null,
+    selectedIcao24: selected && /^[0-9a-f]{6}$/.test(selected) ? selected : null,
+    filters,
+  };
+}
+
+// Query string for the state, leaving out filters that match the defaults
+export function serializeMapUrlState(state: MapUrlState, defaultFilters: FlightFilters): string {
+  const params = new URLSearchParams();
+
+  if (state.view) {
+    params.set('lat', state.view.latitude.toFixed(COORDINATE_DECIMALS).replace(/\.?0+$/, ''));
+    params.set('lon', state.view.longitude.toFixed(COORDINATE_DECIMALS).replace(/\.?0+$/, ''));
+    if (state.view.zoom !== null) params.set('z', String(state.view.zoom));
+  }
+  if (state.selectedIcao24) params.set('sel', state.selectedIcao24);
+
+  const { filters } = state;
+  if (filters.minAltitude !== undefined && filters.minAltitude !== defaultFilters.minAltitude) {
+    params.set('alt', String(filters.minAltitude));
+  }
+  if (filters.hideOnGround !== undefined && filters.hideOnGround !== defaultFilters.hideOnGround) {
+    params.set('ground', filters.hideOnGround ? '1' : '0');
+  }
+  if (filters.category !== undefined && filters.category !== defaultFilters.category) {
+    params.set('cat', filters.category);
+  }
+  if (filters.positionSources !== undefined &&
+      [...filters.positionSources].sort().join(',') !== [...defaultFilters.positionSources].sort().join(',')) {
+    params.set('src', [...filters.positionSources].sort().join(','));
+  }
+  if (filters.clusterAircraft !== undefined && filters.clusterAircraft !== defaultFilters.clusterAircraft) {
+    params.set('cluster', filters.clusterAircraft ? '1' : '0');
+  }
+  if (filters.animateAircraft !== undefined && filters.animateAircraft !== defaultFilters.animateAircraft) {
+    params.set('anim', filters.animateAircraft ? '1' : '0');
+  }
+
+  // Keep commas readable in src=0,2
+  return params.toString().replace(/%2C/g, ',');
+}
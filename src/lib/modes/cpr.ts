@@ -0,0 +1,88 @@
+// Compact Position Reporting (CPR) decoding for ADS-B position messages.
+// Latitude and longitude arrive as 17-bit fractions of a zone; even and odd
+// frames use different zone sizes, and either a frame pair (global decoding)
+// or a nearby reference position (local decoding) resolves the zone.
+
+const NZ = 15;
+const CPR_MAX = 131072; // 2^17
+
+export interface CprFrame {
+  // Raw 17-bit values
+  lat: number;
+  lon: number;
+  // 0 = even, 1 = odd
+  format: 0 | 1;
+}
+
+// Positive modulo, as required by the CPR equations
+const mod = (x: number, y: number) => x - y * Math.floor(x / y);
+
+// Number of longitude zones at the given latitude
+export function cprNL(lat: number): number {
+  const absLat = Math.abs(lat);
+  if (absLat === 0) return 59;
+  if (absLat === 87) return 2;
+  if (absLat > 87) return 1;
+
+  const a = 1 - Math.cos(Math.PI / (2 * NZ));
+  const b = Math.cos((Math.PI / 180) * absLat) ** 2;
+  return Math.floor((2 * Math.PI) / Math.acos(1 - a / b));
+}
+
+// Global (unambiguous) airborne decoding from an even/odd pair received within
+// ~10 s of each other. The most recent frame determines the result.
+export function decodeCprGlobal(even: CprFrame, odd: CprFrame, latestFormat: 0 | 1): { latitude: number; longitude: number } | null {
+  const latEven = even.lat / CPR_MAX;
+  const lonEven = even.lon / CPR_MAX;
+  const latOdd = odd.lat / CPR_MAX;
+  const lonOdd = odd.lon / CPR_MAX;
+
+  const dLatEven = 360 / (4 * NZ);
+  const dLatOdd = 360 / (4 * NZ - 1);
+
+  const j = Math.floor(59 * latEven - 60 * latOdd + 0.5);
+
+  let latitudeEven = dLatEven * (mod(j, 60) + latEven);
+  let latitudeOdd = dLatOdd * (mod(j, 59) + latOdd);
+  if (latitudeEven >= 270) latitudeEven -= 360;
+  if (latitudeOdd >= 270) latitudeOdd -= 360;
+
+  // Both frames must lie in the same longitude zone band
+  if (cprNL(latitudeEven) !== cprNL(latitudeOdd)) return null;
+
+  const latitude = latestFormat === 0 ? latitudeEven : latitudeOdd;
+  const nl = cprNL(latitude);
+  const ni = Math.max(nl - latestFormat, 1);
+  const m = Math.floor(lonEven * (nl - 1) - lonOdd * nl + 0.5);
+  const lonCpr = latestFormat === 0 ? lonEven : lonOdd;
+
+  let longitude = (360 / ni) * (mod(m, ni) + lonCpr);
+  if (longitude >= 180) longitude -= 360;
+
+  return { latitude, longitude };
+}
+
+// Local decoding from a single frame and a reference position within half a
+// zone (~180 NM airborne, ~45 NM on the surface). Surface positions use a
+// quarter-size grid, hence zoneSpan = 90.
+export function decodeCprLocal(
+  frame: CprFrame,
+  refLatitude: number,
+  refLongitude: number,
+  zoneSpan: 360 | 90 = 360
+): { latitude: number; longitude: number } {
+  const latCpr = frame.lat / CPR_MAX;
+  const lonCpr = frame.lon / CPR_MAX;
+
+  const dLat = zoneSpan / (4 * NZ - frame.format);
+  const j = Math.floor(refLatitude / dLat) + Math.floor(mod(refLatitude, dLat) / dLat - latCpr + 0.5);
+  const latitude = dLat * (j + latCpr);
+
+  const ni = cprNL(latitude) - frame.format;
+  const dLon = ni > 0 ? zoneSpan / ni : zoneSpan;
+  const m = Math.floor(refLongitude / dLon) + Math.floor(mod(refLongitude, dLon) / dLon - lonCpr + 0.5);
+  let longitude = dLon * (m + lonCpr);
+  if (longitude >= 180) longitude -= 360;
+
+  return { latitude, longitude };
+}
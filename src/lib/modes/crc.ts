@@ -0,0 +1,28 @@
+// Mode S parity uses a 24-bit CRC with generator polynomial 0x1FFF409
+const GENERATOR = 0xfff409;
+
+// Remainder of the message bits preceding the 24-bit parity field
+export function modesChecksum(data: Uint8Array): number {
+  let crc = 0;
+  const length = data.length - 3;
+  for (let i = 0; i < length; i++) {
+    crc ^= data[i] << 16;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x800000
+        ? ((crc << 1) ^ GENERATOR) & 0xffffff
+        : (crc << 1) & 0xffffff;
+    }
+  }
+  return crc;
+}
+
+export function readParity(data: Uint8Array): number {
+  const n = data.length;
+  return (data[n - 3] << 16) | (data[n - 2] << 8) | data[n - 1];
+}
+
+// DF17/18 carry plain parity (PI with interrogator ID 0), so a valid frame's
+// checksum equals its parity field
+export function hasValidParity(data: Uint8Array): boolean {
+  return modesChecksum(data) === readParity(data);
+}
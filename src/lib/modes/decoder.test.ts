@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { decodeCprGlobal, decodeCprLocal } from './cpr';
+import { hasValidParity } from './crc';
+import { decodeAltitudeCode, decodeExtendedSquitter, decodeSquawk, DecodedMessage } from './decoder';
+import { parseAvrLine } from './frames';
+
+// Sample frames published in "The 1090 MHz Riddle" (mode-s.org)
+const IDENTIFICATION = '8D4840D6202CC371C32CE0576098';
+const POSITION_EVEN = '8D40621D58C382D690C8AC2863A7';
+const POSITION_ODD = '8D40621D58C386435CC412692AD6';
+const GROUND_VELOCITY = '8D485020994409940838175B284F';
+const AIRSPEED_VELOCITY = '8DA05F219B06B6AF189400CBC33F';
+
+const decode = (hex: string): DecodedMessage | null => {
+  const frame = parseAvrLine(`*${hex};`);
+  return frame ? decodeExtendedSquitter(frame.data) : null;
+};
+
+const narrow = <K extends DecodedMessage['kind']>(message: DecodedMessage | null, kind: K) => {
+  expect(message?.kind).toBe(kind);
+  return message as Extract<DecodedMessage, { kind: K }>;
+};
+
+describe('decodeExtendedSquitter', () => {
+  it('decodes an aircraft identification message', () => {
+    const message = narrow(decode(IDENTIFICATION), 'identification');
+    expect(message).toMatchObject({ icao24: '4840d6', df: 17, typeCode: 4, callsign: 'KLM1023', category: 'A0' });
+  });
+
+  it('decodes airborne position messages', () => {
+    const even = narrow(decode(POSITION_EVEN), 'airbornePosition');
+    const odd = narrow(decode(POSITION_ODD), 'airbornePosition');
+
+    expect(even).toMatchObject({ icao24: '40621d', typeCode: 11, altitudeFt: 38000, altitudeType: 'baro' });
+    expect(even.cpr).toEqual({ format: 0, lat: 93000, lon: 51372 });
+    expect(odd.cpr).toEqual({ format: 1, lat: 74158, lon: 50194 });
+  });
+
+  it('decodes ground speed, track and vertical rate (subtype 1)', () => {
+    const message = narrow(decode(GROUND_VELOCITY), 'velocity');
+    expect(message).toMatchObject({ icao24: '485020', speedType: 'ground', verticalRateFpm: -832 });
+    expect(message.speedKt).toBeCloseTo(159.2, 1);
+    expect(message.track).toBeCloseTo(182.88, 2);
+  });
+
+  it('decodes airspeed and heading (subtype 3)', () => {
+    const message = narrow(decode(AIRSPEED_VELOCITY), 'velocity');
+    expect(message).toMatchObject({ icao24: 'a05f21', speedType: 'airspeed', speedKt: 375, verticalRateFpm: -2304 });
+    expect(message.track).toBeCloseTo(243.98, 2);
+  });
+
+  it('rejects frames with a corrupted bit', () => {
+    const frame = parseAvrLine(`*${IDENTIFICATION};`);
+    if (!frame) throw new Error('sample frame did not parse');
+    frame.data[5] ^= 0x01;
+
+    expect(hasValidParity(frame.data)).toBe(false);
+    expect(decodeExtendedSquitter(frame.data)).toBeNull();
+  });
+
+  it('ignores other downlink formats and short frames', () => {
+    // DF11 all-call reply
+    expect(decode('5D4840D6E8D5BB')).toBeNull();
+    // DF20 Comm-B altitude reply
+    expect(decode('A0001838CA3E51F0A8000047A7E1')).toBeNull();
+  });
+});
+
+describe('CPR position decoding', () => {
+  const even = narrow(decode(POSITION_EVEN), 'airbornePosition').cpr;
+  const odd = narrow(decode(POSITION_ODD), 'airbornePosition').cpr;
+
+  it('resolves the position from an even/odd pair', () => {
+    const position = decodeCprGlobal(even, odd, 0);
+    expect(position?.latitude).toBeCloseTo(52.2572, 4);
+    expect(position?.longitude).toBeCloseTo(3.91937, 4);
+  });
+
+  it('resolves the position from one frame and a nearby reference', () => {
+    const position = decodeCprLocal(even, 52.258, 3.918);
+    expect(position.latitude).toBeCloseTo(52.2572, 4);
+    expect(position.longitude).toBeCloseTo(3.91937, 4);
+  });
+});
+
+describe('altitude and identity codes', () => {
+  it('decodes 25 ft (Q bit set) altitudes', () => {
+    // 38000 ft: N = 1560, Q bit at position 7
+    expect(decodeAltitudeCode(0xc38)).toBe(38000);
+    expect(decodeAltitudeCode(0)).toBeNull();
+  });
+
+  it('decodes the Mode A code bit order', () => {
+    // C1 A1 C2 A2 C4 A4 X B1 D1 B2 D2 B4 D4 for 7700: A = 7, B = 7
+    expect(decodeSquawk(0b0101010101010)).toBe('7700');
+    expect(decodeSquawk(0)).toBe('0000');
+  });
+});
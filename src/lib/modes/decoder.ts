@@ -0,0 +1,267 @@
+import { hasValidParity } from './crc';
+import { CprFrame } from './cpr';
+import { emitterCategoryFromTypeCode } from '../receivers/emitterCategory';
+
+// Decoder for DF17 (ADS-B) and DF18 (non-transponder ADS-B / ADS-R) extended
+// squitters. Bit positions below are 0-based from the first bit of the frame;
+// the 56-bit ME field starts at bit 32 and its type code (TC) is bits 32-36.
+
+interface DecodedBase {
+  icao24: string;
+  df: 17 | 18;
+  typeCode: number;
+}
+
+export interface IdentificationMessage extends DecodedBase {
+  kind: 'identification';
+  callsign: string;
+  // ADS-B emitter category such as "A3", null when the set is reserved
+  category: string | null;
+}
+
+export interface AirbornePositionMessage extends DecodedBase {
+  kind: 'airbornePosition';
+  altitudeFt: number | null;
+  // TC 9-18 report barometric altitude, TC 20-22 GNSS height
+  altitudeType: 'baro' | 'gnss';
+  // Surveillance status: 1 = emergency alert, 2 = temporary alert, 3 = SPI
+  surveillanceStatus: number;
+  cpr: CprFrame;
+}
+
+export interface SurfacePositionMessage extends DecodedBase {
+  kind: 'surfacePosition';
+  groundSpeedKt: number | null;
+  track: number | null;
+  cpr: CprFrame;
+}
+
+export interface VelocityMessage extends DecodedBase {
+  kind: 'velocity';
+  // Ground speed for subtypes 1-2, air speed (IAS/TAS) for 3-4
+  speedKt: number | null;
+  speedType: 'ground' | 'airspeed';
+  // Track over ground for subtypes 1-2, magnetic heading for 3-4
+  track: number | null;
+  verticalRateFpm: number | null;
+}
+
+export interface EmergencyStatusMessage extends DecodedBase {
+  kind: 'emergencyStatus';
+  emergencyState: number;
+  squawk: string | null;
+}
+
+export interface OtherMessage extends DecodedBase {
+  kind: 'other';
+}
+
+export type DecodedMessage =
+  | IdentificationMessage
+  | AirbornePositionMessage
+  | SurfacePositionMessage
+  | VelocityMessage
+  | EmergencyStatusMessage
+  | OtherMessage;
+
+const CALLSIGN_CHARSET = '#ABCDEFGHIJKLMNOPQRSTUVWXYZ##### ###############0123456789######';
+
+// DF18 control field values whose ME uses the ADS-B message formats
+const DF18_ADSB_CONTROL_FIELDS = [0, 1, 6];
+
+export function readBits(data: Uint8Array, start: number, length: number): number {
+  let value = 0;
+  for (let i = start; i < start + length; i++) {
+    const bit = (data[i >> 3] >> (7 - (i & 7))) & 1;
+    value = value * 2 + bit;
+  }
+  return value;
+}
+
+const grayToBinary = (gray: number): number => {
+  let value = gray;
+  value ^= value >> 8;
+  value ^= value >> 4;
+  value ^= value >> 2;
+  value ^= value >> 1;
+  return value;
+};
+
+// Gillham (Gray-coded, 100 ft) altitude, input ordered D2 D4 A1 A2 A4 B1 B2 B4 C1 C2 C4
+function decodeGillham(d2d4a1a2a4b1b2b4: number, c1c2c4: number): number | null {
+  const n500 = grayToBinary(d2d4a1a2a4b1b2b4);
+  let n100 = grayToBinary(c1c2c4);
+  if (n100 === 0 || n100 === 5 || n100 === 6) return null;
+  if (n100 === 7) n100 = 5;
+  if (n500 % 2 === 1) n100 = 6 - n100;
+  return n500 * 500 + n100 * 100 - 1300;
+}
+
+// 12-bit altitude field of airborne position messages:
+// C1 A1 C2 A2 C4 A4 B1 Q B2 D2 B4 D4
+export function decodeAltitudeCode(code: number): number | null {
+  if (code === 0) return null;
+
+  const bit = (n: number) => (code >> (11 - n)) & 1;
+  if (bit(7) === 1) {
+    // Q = 1: 25 ft increments, Q bit removed
+    const n = ((code & 0xfe0) >> 1) | (code & 0x00f);
+    return n * 25 - 1000;
+  }
+
+  const [c1, a1, c2, a2, c4, a4, b1, , b2, d2, b4, d4] = Array.from({ length: 12 }, (_, i) => bit(i));
+  const high = [d2, d4, a1, a2, a4, b1, b2, b4].reduce((acc, b) => acc * 2 + b, 0);
+  const low = [c1, c2, c4].reduce((acc, b) => acc * 2 + b, 0);
+  return decodeGillham(high, low);
+}
+
+// 13-bit identity (Mode A) code: C1 A1 C2 A2 C4 A4 X B1 D1 B2 D2 B4 D4
+export function decodeSquawk(code: number): string {
+  const bit = (n: number) => (code >> (12 - n)) & 1;
+  const a = bit(5) * 4 + bit(3) * 2 + bit(1);
+  const b = bit(11) * 4 + bit(9) * 2 + bit(7);
+  const c = bit(4) * 4 + bit(2) * 2 + bit(0);
+  const d = bit(12) * 4 + bit(10) * 2 + bit(8);
+  return `${a}${b}${c}${d}`;
+}
+
+// Surface movement field to ground speed in knots
+function decodeMovement(movement: number): number | null {
+  if (movement === 0 || movement > 124) return null;
+  if (movement === 1) return 0;
+  if (movement === 124) return 175;
+
+  const movementBounds = [2, 9, 13, 39, 94, 109, 124];
+  const speedBounds = [0.125, 1, 2, 15, 70, 100, 175];
+  const steps = [0.125, 0.25, 0.5, 1, 2, 5];
+  const i = movementBounds.findIndex(bound => bound > movement);
+  return speedBounds[i - 1] + (movement - movementBounds[i - 1]) * steps[i - 1];
+}
+
+function decodeIdentification(data: Uint8Array, base: DecodedBase): IdentificationMessage {
+  let callsign = '';
+  for (let i = 0; i < 8; i++) {
+    callsign += CALLSIGN_CHARSET[readBits(data, 40 + i * 6, 6)];
+  }
+  return {
+    ...base,
+    kind: 'identification',
+    callsign: callsign.replace(/#/g, '').trim(),
+    category: emitterCategoryFromTypeCode(base.typeCode, readBits(data, 37, 3)),
+  };
+}
+
+function decodeAirbornePosition(data: Uint8Array, base: DecodedBase): AirbornePositionMessage {
+  const altitudeCode = readBits(data, 40, 12);
+  const isGnss = base.typeCode >= 20;
+
+  return {
+    ...base,
+    kind: 'airbornePosition',
+    // GNSS height is a plain binary value in metres
+    altitudeFt: isGnss ? (altitudeCode ? altitudeCode * 3.28084 : null) : decodeAltitudeCode(altitudeCode),
+    altitudeType: isGnss ? 'gnss' : 'baro',
+    surveillanceStatus: readBits(data, 37, 2),
+    cpr: {
+      format: readBits(data, 53, 1) as 0 | 1,
+      lat: readBits(data, 54, 17),
+      lon: readBits(data, 71, 17),
+    },
+  };
+}
+
+function decodeSurfacePosition(data: Uint8Array, base: DecodedBase): SurfacePositionMessage {
+  const trackValid = readBits(data, 44, 1) === 1;
+  return {
+    ...base,
+    kind: 'surfacePosition',
+    groundSpeedKt: decodeMovement(readBits(data, 37, 7)),
+    track: trackValid ? (readBits(data, 45, 7) * 360) / 128 : null,
+    cpr: {
+      format: readBits(data, 53, 1) as 0 | 1,
+      lat: readBits(data, 54, 17),
+      lon: readBits(data, 71, 17),
+    },
+  };
+}
+
+function decodeVelocity(data: Uint8Array, base: DecodedBase): VelocityMessage | OtherMessage {
+  const subtype = readBits(data, 37, 3);
+  // Supersonic subtypes use 4 kt resolution
+  const multiplier = subtype === 2 || subtype === 4 ? 4 : 1;
+
+  const verticalRateRaw = readBits(data, 69, 9);
+  const verticalRateFpm = verticalRateRaw === 0
+    ? null
+    : (readBits(data, 68, 1) ? -1 : 1) * (verticalRateRaw - 1) * 64;
+
+  if (subtype === 1 || subtype === 2) {
+    const eastWestRaw = readBits(data, 46, 10);
+    const northSouthRaw = readBits(data, 57, 10);
+    if (eastWestRaw === 0 || northSouthRaw === 0) {
+      return { ...base, kind: 'velocity', speedKt: null, speedType: 'ground', track: null, verticalRateFpm };
+    }
+    const eastWest = (readBits(data, 45, 1) ? -1 : 1) * (eastWestRaw - 1) * multiplier;
+    const northSouth = (readBits(data, 56, 1) ? -1 : 1) * (northSouthRaw - 1) * multiplier;
+    const track = (Math.atan2(eastWest, northSouth) * 180) / Math.PI;
+
+    return {
+      ...base,
+      kind: 'velocity',
+      speedKt: Math.sqrt(eastWest ** 2 + northSouth ** 2),
+      speedType: 'ground',
+      track: (track + 360) % 360,
+      verticalRateFpm,
+    };
+  }
+
+  if (subtype === 3 || subtype === 4) {
+    const headingAvailable = readBits(data, 45, 1) === 1;
+    const airspeedRaw = readBits(data, 57, 10);
+    return {
+      ...base,
+      kind: 'velocity',
+      speedKt: airspeedRaw === 0 ? null : (airspeedRaw - 1) * multiplier,
+      speedType: 'airspeed',
+      track: headingAvailable ? (readBits(data, 46, 10) * 360) / 1024 : null,
+      verticalRateFpm,
+    };
+  }
+
+  return { ...base, kind: 'other' };
+}
+
+function decodeEmergencyStatus(data: Uint8Array, base: DecodedBase): EmergencyStatusMessage | OtherMessage {
+  // Only subtype 1 (emergency / priority status) carries the Mode A code
+  if (readBits(data, 37, 3) !== 1) return { ...base, kind: 'other' };
+  const identity = readBits(data, 43, 13);
+  return {
+    ...base,
+    kind: 'emergencyStatus',
+    emergencyState: readBits(data, 40, 3),
+    squawk: identity === 0 ? null : decodeSquawk(identity),
+  };
+}
+
+// Decodes a 112-bit DF17/18 frame. Returns null for other downlink formats,
+// failed parity or DF18 control fields that don't carry ADS-B messages.
+export function decodeExtendedSquitter(data: Uint8Array): DecodedMessage | null {
+  if (data.length !== 14) return null;
+
+  const df = readBits(data, 0, 5);
+  if (df !== 17 && df !== 18) return null;
+  if (df === 18 && !DF18_ADSB_CONTROL_FIELDS.includes(readBits(data, 5, 3))) return null;
+  if (!hasValidParity(data)) return null;
+
+  const icao24 = readBits(data, 8, 24).toString(16).padStart(6, '0');
+  const typeCode = readBits(data, 32, 5);
+  const base: DecodedBase = { icao24, df, typeCode };
+
+  if (typeCode >= 1 && typeCode <= 4) return decodeIdentification(data, base);
+  if (typeCode >= 5 && typeCode <= 8) return decodeSurfacePosition(data, base);
+  if ((typeCode >= 9 && typeCode <= 18) || (typeCode >= 20 && typeCode <= 22)) return decodeAirbornePosition(data, base);
+  if (typeCode === 19) return decodeVelocity(data, base);
+  if (typeCode === 28) return decodeEmergencyStatus(data, base);
+
+  return { ...base, kind: 'other' };
+}
@@ -0,0 +1,131 @@
+// Raw Mode S frames as delivered by dump1090/readsb network outputs:
+// AVR text on port 30002 and the Beast binary format on port 30005.
+
+export interface RawFrame {
+  // 7 (short) or 14 (long) message bytes; Mode A/C replies are skipped
+  data: Uint8Array;
+  // 12 MHz receiver clock, when the format carries one (Beast, "@" AVR)
+  mlatTimestamp: number | null;
+  // Beast signal level byte (0-255)
+  signal: number | null;
+}
+
+const hexToBytes = (hex: string): Uint8Array | null => {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) return null;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+export const bytesToHex = (data: Uint8Array): string =>
+  Array.from(data, byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+// Parses one AVR line: "*8D4840D6202CC371C32CE0576098;" or, with an MLAT
+// timestamp, "@0123456789AB8D4840D6202CC371C32CE0576098;"
+export function parseAvrLine(line: string): RawFrame | null {
+  const trimmed = line.trim();
+  if (trimmed.length < 2 || !trimmed.endsWith(';')) return null;
+
+  let body = trimmed.substring(1, trimmed.length - 1);
+  let mlatTimestamp: number | null = null;
+
+  if (trimmed[0] === '@') {
+    mlatTimestamp = parseInt(body.substring(0, 12), 16);
+    body = body.substring(12);
+  } else if (trimmed[0] !== '*') {
+    return null;
+  }
+
+  const data = hexToBytes(body);
+  if (!data || (data.length !== 7 && data.length !== 14)) return null;
+
+  return { data, mlatTimestamp, signal: null };
+}
+
+export function parseAvrText(text: string): RawFrame[] {
+  return text
+    .split(/\r?\n/)
+    .map(parseAvrLine)
+    .filter((frame): frame is RawFrame => frame !== null);
+}
+
+const BEAST_ESCAPE = 0x1a;
+// Payload lengths per Beast message type
+const BEAST_PAYLOAD_LENGTH: Record<number, number> = {
+  0x31: 2, // '1' Mode A/C
+  0x32: 7, // '2' Mode S short
+  0x33: 14, // '3' Mode S long
+};
+// 6-byte MLAT timestamp + 1-byte signal level
+const BEAST_HEADER_LENGTH = 7;
+
+// Parses as many complete Beast messages as the buffer holds. Every message is
+// <0x1a> <type> <6-byte timestamp> <signal> <payload>, with literal 0x1a bytes
+// inside the message doubled. `rest` holds an incomplete trailing message to
+// prepend to the next chunk.
+export function parseBeastBuffer(buffer: Uint8Array): { frames: RawFrame[]; rest: Uint8Array } {
+  const frames: RawFrame[] = [];
+  let i = 0;
+
+  while (i < buffer.length) {
+    if (buffer[i] !== BEAST_ESCAPE) {
+      i++;
+      continue;
+    }
+
+    const type = buffer[i + 1];
+    if (type === undefined) break;
+
+    const payloadLength = BEAST_PAYLOAD_LENGTH[type];
+    if (payloadLength === undefined) {
+      // Not a message start (e.g. a status message or resync) - skip the escape
+      i += type === BEAST_ESCAPE ? 2 : 1;
+      continue;
+    }
+
+    // Collect header + payload, un-escaping doubled 0x1a bytes
+    const needed = BEAST_HEADER_LENGTH + payloadLength;
+    const message = new Uint8Array(needed);
+    let j = i + 2;
+    let count = 0;
+    let broken = false;
+    while (count < needed && j < buffer.length) {
+      if (buffer[j] === BEAST_ESCAPE) {
+        if (j + 1 >= buffer.length) break;
+        if (buffer[j + 1] !== BEAST_ESCAPE) {
+          // Unescaped 0x1a means the message was cut short; resync here
+          broken = true;
+          break;
+        }
+        j++;
+      }
+      message[count++] = buffer[j++];
+    }
+
+    if (broken) {
+      i = j;
+      continue;
+    }
+    if (count < needed) {
+      // Incomplete message, wait for more data
+      return { frames, rest: buffer.slice(i) };
+    }
+
+    if (payloadLength !== 2) {
+      let mlatTimestamp = 0;
+      for (let k = 0; k < 6; k++) {
+        mlatTimestamp = mlatTimestamp * 256 + message[k];
+      }
+      frames.push({
+        data: message.slice(BEAST_HEADER_LENGTH),
+        mlatTimestamp,
+        signal: message[6],
+      });
+    }
+    i = j;
+  }
+
+  return { frames, rest: new Uint8Array(0) };
+}
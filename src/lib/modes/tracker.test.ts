@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createAircraftStore } from '../receivers/aircraftStore';
+import { parseAvrLine } from './frames';
+import { createModeSTracker } from './tracker';
+
+// Sample frames published in "The 1090 MHz Riddle" (mode-s.org)
+const POSITION_EVEN = '8D40621D58C382D690C8AC2863A7';
+const POSITION_ODD = '8D40621D58C386435CC412692AD6';
+const GROUND_VELOCITY = '8D485020994409940838175B284F';
+const AIRSPEED_VELOCITY = '8DA05F219B06B6AF189400CBC33F';
+
+const T0 = 1760000000;
+
+const frame = (hex: string) => {
+  const parsed = parseAvrLine(`*${hex};`);
+  if (!parsed) throw new Error(`sample frame ${hex} did not parse`);
+  return parsed.data;
+};
+
+describe('createModeSTracker', () => {
+  it('resolves positions from an even/odd pair', () => {
+    const store = createAircraftStore();
+    const tracker = createModeSTracker(store);
+    tracker.handleFrame(frame(POSITION_EVEN), T0);
+    tracker.handleFrame(frame(POSITION_ODD), T0 + 1);
+
+    const state = store.getState('40621d');
+    expect(state?.latitude).toBeCloseTo(52.2658, 3);
+    expect(state?.baro_altitude).toBeCloseTo(38000 * 0.3048, 1);
+  });
+
+  it('drops CPR state once it is too old to resolve a position', () => {
+    const tracker = createModeSTracker(createAircraftStore());
+    tracker.handleFrame(frame(POSITION_EVEN), T0);
+    tracker.handleFrame(frame(POSITION_ODD), T0 + 1);
+    expect(tracker.size).toBe(1);
+
+    tracker.handleFrame(frame(GROUND_VELOCITY), T0 + 30);
+    expect(tracker.size).toBe(1);
+    tracker.handleFrame(frame(GROUND_VELOCITY), T0 + 62);
+    expect(tracker.size).toBe(0);
+  });
+
+  it('keeps the track over ground but not the magnetic heading', () => {
+    const store = createAircraftStore();
+    const update = vi.spyOn(store, 'update');
+    const tracker = createModeSTracker(store);
+    tracker.handleFrame(frame(GROUND_VELOCITY), T0);
+    tracker.handleFrame(frame(AIRSPEED_VELOCITY), T0);
+
+    const [[, ground], [, airspeed]] = update.mock.calls;
+    expect(ground.true_track).toBeCloseTo(182.88, 2);
+    expect(airspeed).not.toHaveProperty('true_track');
+    expect(airspeed.velocity).toBeCloseTo(375 * 0.514444, 1);
+  });
+});
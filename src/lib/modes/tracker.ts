@@ -0,0 +1,217 @@
+import { PositionSource } from '../../types';
+import { AircraftStore, ReceiverAircraftUpdate } from '../receivers/aircraftStore';
+import { emitterCategoryToNumber } from '../receivers/emitterCategory';
+import { connectTcpFeed, TcpFeedConnection } from '../receivers/tcpFeed';
+import { FT_TO_M, KT_TO_MS, FPM_TO_MS } from '../receivers/units';
+import { CprFrame, decodeCprGlobal, decodeCprLocal } from './cpr';
+import { decodeExtendedSquitter, DecodedMessage } from './decoder';
+import { RawFrame, parseAvrLine, parseAvrText, parseBeastBuffer } from './frames';
+
+// Even and odd frames further apart than this can't be paired for global decoding
+const MAX_CPR_PAIR_AGE_S = 10;
+// A previous fix older than this is no longer trusted as a local reference
+const MAX_REFERENCE_AGE_S = 60;
+// Receiver clock used by Beast and "@" AVR timestamps
+const MLAT_CLOCK_HZ = 12e6;
+
+export interface ModeSTrackerOptions {
+  // Receiver location, used to resolve surface positions (which have no
+  // global decoding without a reference)
+  receiverLatitude?: number;
+  receiverLongitude?: number;
+}
+
+export interface ModeSTracker {
+  // Decodes one raw frame and applies it to the store. timestamp is Unix seconds.
+  handleFrame(data: Uint8Array, timestamp?: number): DecodedMessage | null;
+  // Aircraft whose CPR frames are kept for position decoding
+  readonly size: number;
+}
+
+interface CprState {
+  even?: { cpr: CprFrame; timestamp: number };
+  odd?: { cpr: CprFrame; timestamp: number };
+  lastFix?: { latitude: number; longitude: number; timestamp: number };
+}
+
+// Turns decoded DF17/18 messages into AircraftStore updates, keeping the
+// per-aircraft CPR frames needed to resolve positions.
+export function createModeSTracker(store: AircraftStore, options: ModeSTrackerOptions = {}): ModeSTracker {
+  const cprStates = new Map<string, CprState>();
+  let lastSweep: number | null = null;
+  const hasReceiverPosition = options.receiverLatitude !== undefined && options.receiverLongitude !== undefined;
+
+  const resolveAirbornePosition = (state: CprState, cpr: CprFrame, timestamp: number) => {
+    const other = cpr.format === 0 ? state.odd : state.even;
+    if (other && Math.abs(timestamp - other.timestamp) <= MAX_CPR_PAIR_AGE_S) {
+      const even = cpr.format === 0 ? cpr : other.cpr;
+      const odd = cpr.format === 1 ? cpr : other.cpr;
+      const position = decodeCprGlobal(even, odd, cpr.format);
+      if (position) return position;
+    }
+    if (state.lastFix && timestamp - state.lastFix.timestamp <= MAX_REFERENCE_AGE_S) {
+      return decodeCprLocal(cpr, state.lastFix.latitude, state.lastFix.longitude);
+    }
+    return null;
+  };
+
+  const resolveSurfacePosition = (state: CprState, cpr: CprFrame, timestamp: number) => {
+    if (state.lastFix && timestamp - state.lastFix.timestamp <= MAX_REFERENCE_AGE_S) {
+      return decodeCprLocal(cpr, state.lastFix.latitude, state.lastFix.longitude, 90);
+    }
+    if (hasReceiverPosition) {
+      return decodeCprLocal(cpr, options.receiverLatitude!, options.receiverLongitude!, 90);
+    }
+    return null;
+  };
+
+  const getCprState = (icao24: string): CprState => {
+    let state = cprStates.get(icao24);
+    if (!state) {
+      state = {};
+      cprStates.set(icao24, state);
+    }
+    return state;
+  };
+
+  // Past the reference window nothing kept for an aircraft can resolve a
+  // position any more, so its state is dropped. Runs at most once per window.
+  const sweepCprStates = (now: number) => {
+    if (lastSweep === null) lastSweep = now;
+    if (now - lastSweep < MAX_REFERENCE_AGE_S) return;
+    lastSweep = now;
+    for (const [icao24, state] of cprStates) {
+      const lastHeard = Math.max(state.even?.timestamp ?? -Infinity, state.odd?.timestamp ?? -Infinity, state.lastFix?.timestamp ?? -Infinity);
+      if (now - lastHeard > MAX_REFERENCE_AGE_S) cprStates.delete(icao24);
+    }
+  };
+
+  return {
+    handleFrame(data, timestamp = Date.now() / 1000) {
+      const message = decodeExtendedSquitter(data);
+      if (!message) return null;
+      sweepCprStates(timestamp);
+
+      const update: ReceiverAircraftUpdate = {};
+
+      switch (message.kind) {
+        case 'identification':
+          update.callsign = message.callsign || null;
+          update.category = emitterCategoryToNumber(message.category);
+          break;
+
+        case 'airbornePosition': {
+          update.on_ground = false;
+          if (message.altitudeFt !== null) {
+            if (message.altitudeType === 'baro') update.baro_altitude = message.altitudeFt * FT_TO_M;
+            else update.geo_altitude = message.altitudeFt * FT_TO_M;
+          }
+          update.spi = message.surveillanceStatus === 3;
+
+          const state = getCprState(message.icao24);
+          const position = resolveAirbornePosition(state, message.cpr, timestamp);
+          state[message.cpr.format === 0 ? 'even' : 'odd'] = { cpr: message.cpr, timestamp };
+          if (position) {
+            state.lastFix = { ...position, timestamp };
+            update.latitude = position.latitude;
+            update.longitude = position.longitude;
+            update.position_source = PositionSource.ADSB;
+          }
+          break;
+        }
+
+        case 'surfacePosition': {
+          update.on_ground = true;
+          if (message.groundSpeedKt !== null) update.velocity = message.groundSpeedKt * KT_TO_MS;
+          if (message.track !== null) update.true_track = message.track;
+
+          const state = getCprState(message.icao24);
+          const position = resolveSurfacePosition(state, message.cpr, timestamp);
+          if (position) {
+            state.lastFix = { ...position, timestamp };
+            update.latitude = position.latitude;
+            update.longitude = position.longitude;
+            update.position_source = PositionSource.ADSB;
+          }
+          break;
+        }
+
+        case 'velocity':
+          if (message.speedKt !== null) update.velocity = message.speedKt * KT_TO_MS;
+          // Airspeed subtypes carry the magnetic heading, not the track over ground
+          if (message.track !== null && message.speedType === 'ground') update.true_track = message.track;
+          if (message.verticalRateFpm !== null) update.vertical_rate = message.verticalRateFpm * FPM_TO_MS;
+          break;
+
+        case 'emergencyStatus':
+          if (message.squawk) update.squawk = message.squawk;
+          break;
+
+        default:
+          break;
+      }
+
+      store.update(message.icao24, update, timestamp);
+      return message;
+    },
+
+    get size() {
+      return cprStates.size;
+    },
+  };
+}
+
+// Applies frames whose wall-clock time is unknown (e.g. a recorded capture).
+// With receiver clock timestamps, times are spread relative to the first frame;
+// otherwise every frame gets baseTimestamp.
+export function ingestRawFrames(frames: RawFrame[], tracker: ModeSTracker, baseTimestamp: number = Date.now() / 1000): number {
+  const firstClock = frames.find(frame => frame.mlatTimestamp !== null)?.mlatTimestamp ?? null;
+  let decoded = 0;
+  for (const frame of frames) {
+    const timestamp = firstClock !== null && frame.mlatTimestamp !== null
+      ? baseTimestamp + (frame.mlatTimestamp - firstClock) / MLAT_CLOCK_HZ
+      : baseTimestamp;
+    if (tracker.handleFrame(frame.data, timestamp)) decoded++;
+  }
+  return decoded;
+}
+
+export function ingestAvrText(text: string, tracker: ModeSTracker, baseTimestamp?: number): number {
+  return ingestRawFrames(parseAvrText(text), tracker, baseTimestamp);
+}
+
+export function ingestBeastData(data: Uint8Array, tracker: ModeSTracker, baseTimestamp?: number): number {
+  return ingestRawFrames(parseBeastBuffer(data).frames, tracker, baseTimestamp);
+}
+
+// Keeps a raw AVR (port 30002) or Beast (port 30005) feed open, decoding
+// frames into the tracker as they arrive
+export function connectModeSFeed(host: string, port: number, format: 'avr' | 'beast', tracker: ModeSTracker): TcpFeedConnection {
+  let textBuffer = '';
+  let binaryBuffer: Uint8Array = new Uint8Array(0);
+
+  return connectTcpFeed(format === 'avr' ? 'AVR' : 'Beast', host, port, (chunk) => {
+    if (format === 'avr') {
+      textBuffer += chunk.toString('ascii');
+      const lines = textBuffer.split(/\r?\n/);
+      textBuffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const frame = parseAvrLine(line);
+        if (frame) tracker.handleFrame(frame.data);
+      }
+      return;
+    }
+
+    const combined = new Uint8Array(binaryBuffer.length + chunk.length);
+    combined.set(binaryBuffer);
+    combined.set(chunk, binaryBuffer.length);
+    const { frames, rest } = parseBeastBuffer(combined);
+    binaryBuffer = rest;
+    for (const frame of frames) {
+      tracker.handleFrame(frame.data);
+    }
+  }, () => {
+    textBuffer = '';
+    binaryBuffer = new Uint8Array(0);
+  });
+}
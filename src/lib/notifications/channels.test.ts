@@ -0,0 +1,198 @@
+import { createHmac } from 'crypto';
+import { createServer as createHttpServer, IncomingMessage, Server } from 'http';
+import { AddressInfo, createServer as createTcpServer } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sendEmailNotification, sendWebhookNotification } from './channels';
+import { NotificationMessage } from './types';
+import { assertSafeWebhookUrl } from './webhookUrl';
+
+// The real check refuses the loopback stand-ins below; tests that need to reach
+// them let one call through
+vi.mock('./webhookUrl', async importOriginal => {
+  const actual = await importOriginal<typeof import('./webhookUrl')>();
+  return { ...actual, assertSafeWebhookUrl: vi.fn(actual.assertSafeWebhookUrl) };
+});
+
+const allowNextWebhookUrl = () =>
+  vi.mocked(assertSafeWebhookUrl).mockImplementationOnce(async url => new URL(url));
+
+const MESSAGE: NotificationMessage = {
+  event: 'LANDING',
+  title: 'SP-LRA has landed',
+  body: 'SP-LRA (LOT3921) is on the ground.',
+  url: 'https://flights.example.com/flight/48ae01',
+  item: { id: 7, type: 'REGISTRATION', value: 'SP-LRA' },
+  icao24: '48ae01',
+  callsign: 'LOT3921',
+  time: '2026-10-18T12:00:00.000Z',
+};
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+// Minimal SMTP server: accepts every command and records each message
+function startSmtpStandIn(): Promise<{ port: number; messages: ReceivedMail[]; close: () => void }> {
+  const messages: ReceivedMail[] = [];
+  const server = createTcpServer(socket => {
+    let mail: ReceivedMail = { from: '', to: [], data: '' };
+    let inData = false;
+    let buffer = '';
+    socket.write('220 localhost ESMTP stand-in\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            messages.push(mail);
+            mail = { from: '', to: [], data: '' };
+            socket.write('250 OK queued\r\n');
+          } else {
+            mail.data += `${line}\n`;
+          }
+          continue;
+        }
+        switch (line.slice(0, 4).toUpperCase()) {
+          case 'EHLO':
+          case 'HELO':
+            socket.write('250 localhost\r\n');
+            break;
+          case 'MAIL':
+            mail.from = line;
+            socket.write('250 OK\r\n');
+            break;
+          case 'RCPT':
+            mail.to.push(line);
+            socket.write('250 OK\r\n');
+            break;
+          case 'DATA':
+            inData = true;
+            socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+            break;
+          case 'QUIT':
+            socket.end('221 Bye\r\n');
+            break;
+          default:
+            socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve({
+    port: (server.address() as AddressInfo).port,
+    messages,
+    close: () => server.close(),
+  })));
+}
+
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+// HTTP receiver that records requests and answers with the configured status
+function startWebhookStandIn(): Promise<{ baseUrl: string; requests: ReceivedRequest[]; respondWith: (status: number, headers?: Record<string, string>) => void; close: () => void }> {
+  const requests: ReceivedRequest[] = [];
+  let response = { status: 204, headers: {} as Record<string, string> };
+  const server: Server = createHttpServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      requests.push({ method: req.method ?? '', url: req.url ?? '', headers: req.headers, body });
+      res.writeHead(response.status, response.headers).end();
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve({
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    respondWith: (status, headers = {}) => {
+      response = { status, headers };
+    },
+    close: () => server.close(),
+  })));
+}
+
+describe('sendEmailNotification', () => {
+  let smtp: Awaited<ReturnType<typeof startSmtpStandIn>>;
+
+  beforeAll(async () => {
+    smtp = await startSmtpStandIn();
+    process.env.SMTP_HOST = '127.0.0.1';
+    process.env.SMTP_PORT = String(smtp.port);
+    process.env.SMTP_FROM = 'Flight Tracker <alerts@flights.example.com>';
+  });
+
+  afterAll(() => smtp.close());
+
+  it('sends the message with its link through the SMTP server', async () => {
+    await sendEmailNotification('pilot@example.com', MESSAGE);
+
+    expect(smtp.messages).toHaveLength(1);
+    const [mail] = smtp.messages;
+    expect(mail.from).toContain('alerts@flights.example.com');
+    expect(mail.to).toEqual([expect.stringContaining('pilot@example.com')]);
+    expect(mail.data).toContain('Subject: SP-LRA has landed');
+    expect(mail.data).toContain('SP-LRA (LOT3921) is on the ground.');
+    expect(mail.data).toContain('https://flights.example.com/flight/48ae01');
+  });
+});
+
+describe('sendWebhookNotification', () => {
+  let webhook: Awaited<ReturnType<typeof startWebhookStandIn>>;
+
+  beforeAll(async () => {
+    webhook = await startWebhookStandIn();
+  });
+
+  afterAll(() => webhook.close());
+
+  beforeEach(() => {
+    webhook.requests.length = 0;
+    webhook.respondWith(204);
+  });
+
+  it('posts the signed message as JSON', async () => {
+    allowNextWebhookUrl();
+    await sendWebhookNotification(`${webhook.baseUrl}/hooks/flights`, 's3cret', MESSAGE);
+
+    expect(webhook.requests).toHaveLength(1);
+    const [request] = webhook.requests;
+    expect(request).toMatchObject({ method: 'POST', url: '/hooks/flights' });
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(request.headers['x-flight-tracker-event']).toBe('LANDING');
+    expect(JSON.parse(request.body)).toEqual(MESSAGE);
+    const signature = createHmac('sha256', 's3cret').update(request.body).digest('hex');
+    expect(request.headers['x-flight-tracker-signature']).toBe(`sha256=${signature}`);
+  });
+
+  it('fails on error responses', async () => {
+    allowNextWebhookUrl();
+    webhook.respondWith(500);
+    await expect(sendWebhookNotification(`${webhook.baseUrl}/hooks/flights`, null, MESSAGE)).rejects.toThrow('Webhook responded 500');
+  });
+
+  it('does not follow redirects', async () => {
+    allowNextWebhookUrl();
+    webhook.respondWith(307, { Location: '/internal/admin' });
+
+    await expect(sendWebhookNotification(`${webhook.baseUrl}/hooks/flights`, null, MESSAGE)).rejects.toThrow('redirects are not followed');
+    expect(webhook.requests.map(request => request.url)).toEqual(['/hooks/flights']);
+  });
+
+  it('refuses loopback and plain http targets without sending anything', async () => {
+    const port = new URL(webhook.baseUrl).port;
+
+    await expect(sendWebhookNotification(`${webhook.baseUrl}/hooks/flights`, null, MESSAGE)).rejects.toThrow('must use https');
+    await expect(sendWebhookNotification(`https://127.0.0.1:${port}/hooks/flights`, null, MESSAGE)).rejects.toThrow('public host');
+    await expect(sendWebhookNotification(`https://localhost:${port}/hooks/flights`, null, MESSAGE)).rejects.toThrow('public host');
+    expect(webhook.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,111 @@
+import { createHmac } from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+import webpush, { WebPushError } from 'web-push';
+import { NotificationMessage, PushSubscriptionRow } from './types';
+import { assertSafeWebhookUrl } from './webhookUrl';
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+// Push services keep undelivered messages this long (seconds)
+const PUSH_TTL_S = 60 * 60;
+
+let transporter: Transporter | null = null;
+let vapidConfigured = false;
+
+function getTransporter(): Transporter {
+  if (!transporter) {
+    const host = process.env.SMTP_HOST;
+    if (!host) throw new Error('SMTP_HOST is not set');
+
+    const port = Number(process.env.SMTP_PORT) || 587;
+    transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    });
+  }
+  return transporter;
+}
+
+function configureVapid() {
+  if (vapidConfigured) return;
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) throw new Error('VAPID keys are not set');
+
+  webpush.setVapidDetails(process.env.VAPID_SUBJECT || 'mailto:admin@localhost', publicKey, privateKey);
+  vapidConfigured = true;
+}
+
+export async function sendEmailNotification(to: string, message: NotificationMessage): Promise<void> {
+  const text = message.url ? `${message.body}\n\n${message.url}` : message.body;
+  await getTransporter().sendMail({
+    from: process.env.SMTP_FROM || 'Flight Tracker <no-reply@localhost>',
+    to,
+    subject: message.title,
+    text,
+  });
+}
+
+// Sends to every subscription of the user. Returns the endpoints the push
+// service reported as gone, so they can be removed; throws when no
+// subscription accepted the message for another reason.
+export async function sendPushNotification(subscriptions: PushSubscriptionRow[], message: NotificationMessage): Promise<{ expired: string[] }> {
+  configureVapid();
+  const payload = JSON.stringify({ title: message.title, body: message.body, url: message.url, event: message.event });
+  const expired: string[] = [];
+  const errors: string[] = [];
+  let delivered = 0;
+
+  await Promise.all(subscriptions.map(async subscription => {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        { TTL: PUSH_TTL_S }
+      );
+      delivered++;
+    } catch (error) {
+      if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+        expired.push(subscription.endpoint);
+      } else {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+  }));
+
+  if (delivered === 0 && errors.length > 0) {
+    throw new Error(`Push failed: ${errors.join('; ')}`);
+  }
+  return { expired };
+}
+
+// POSTs the message as JSON. With a secret the body is signed with
+// HMAC-SHA256 in X-Flight-Tracker-Signature ("sha256=<hex>"). The URL is checked
+// again before every send, since its host may resolve elsewhere by now, and
+// redirects are not followed so they can't lead somewhere the check would refuse.
+export async function sendWebhookNotification(url: string, secret: string | null, message: NotificationMessage): Promise<void> {
+  const target = await assertSafeWebhookUrl(url);
+  const body = JSON.stringify(message);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Flight-Tracker-Event': message.event,
+  };
+  if (secret) {
+    headers['X-Flight-Tracker-Signature'] = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    const response = await fetch(target, { method: 'POST', headers, body, signal: controller.signal, redirect: 'manual' });
+    if (response.status >= 300 && response.status < 400) {
+      throw new Error(`Webhook redirected with ${response.status}; redirects are not followed`);
+    }
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
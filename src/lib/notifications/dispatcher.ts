@@ -0,0 +1,255 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { sendEmailNotification, sendPushNotification, sendWebhookNotification } from './channels';
+import { eventForTransition, resolvePreferences } from './preferences';
+import {
+  DispatchResult,
+  NotificationChannelSettings,
+  NotificationDelivery,
+  NotificationEvent,
+  NotificationMessage,
+  NotificationPreference,
+  PushSubscriptionRow,
+  StatusTransition,
+  TrackedItemEvent,
+} from './types';
+
+export const STATUS_HISTORY_TABLE = 'tracked_item_status_history';
+export const DELIVERIES_TABLE = 'notification_deliveries';
+
+// Transitions older than this are not notified about any more (e.g. after downtime)
+const TRANSITION_LOOKBACK_MINUTES = 60;
+// The same event for the same item and channel is sent at most once per window
+const DEDUP_WINDOW_MINUTES = 15;
+const MAX_DELIVERY_ATTEMPTS = 5;
+// Retries back off exponentially from this delay
+const RETRY_BASE_SECONDS = 60;
+// A claimed delivery is left alone by other runs for this long
+const CLAIM_LEASE_SECONDS = 120;
+const DELIVERY_BATCH_SIZE = 100;
+
+type TrackedItemRow = { id: number; user_id: string; type: 'REGISTRATION' | 'FLIGHT_NUMBER'; value: string; notify_on_land: boolean };
+
+export const getBaseUrl = () => process.env.VERCEL_URL
+  ? `https://${process.env.VERCEL_URL}`
+  : process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+
+export function buildNotificationMessage(event: TrackedItemEvent, item: TrackedItemRow, transition: StatusTransition): NotificationMessage {
+  const callsign = transition.callsign?.trim() || null;
+  const label = callsign && callsign !== item.value ? `${item.value} (${callsign})` : item.value;
+  const texts: Record<TrackedItemEvent, { title: string; body: string }> = {
+    TAKEOFF: { title: `${item.value} took off`, body: `${label} is airborne.` },
+    LANDING: { title: `${item.value} has landed`, body: `${label} is on the ground.` },
+    SIGNAL_LOST: { title: `Lost contact with ${item.value}`, body: `${label} stopped reporting its position while airborne.` },
+  };
+
+  return {
+    event,
+    ...texts[event],
+    url: `${getBaseUrl()}/flight/${transition.icao24 ?? encodeURIComponent(item.value)}`,
+    item: { id: item.id, type: item.type, value: item.value },
+    icao24: transition.icao24,
+    callsign,
+    time: transition.recorded_at,
+  };
+}
+
+// itemId is the tracked item, the watch area prefixed with "area" or an
+// emergency prefixed with "squawk"
+export function deliveryDedupKey(itemId: number | string, event: NotificationEvent, channel: string, time: string): string {
+  const bucket = Math.floor(new Date(time).getTime() / (DEDUP_WINDOW_MINUTES * 60 * 1000));
+  return `${itemId}-${event}-${channel}-${bucket}`;
+}
+
+export const retryDelaySeconds = (attempts: number) => RETRY_BASE_SECONDS * 2 ** Math.max(0, attempts - 1);
+
+// Turns recent status transitions into pending deliveries according to each
+// item's preferences. Safe to run repeatedly: existing dedup keys are skipped.
+export async function enqueueNotifications(supabase: SupabaseClient, now = new Date()): Promise<number> {
+  const since = new Date(now.getTime() - TRANSITION_LOOKBACK_MINUTES * 60 * 1000).toISOString();
+  const { data: transitions, error } = await supabase
+    .from(STATUS_HISTORY_TABLE)
+    .select('id, tracked_item_id, user_id, previous_status, status, icao24, callsign, recorded_at')
+    .gte('recorded_at', since)
+    .order('recorded_at', { ascending: true });
+
+  if (error) {
+    console.error('enqueueNotifications: Failed to load transitions:', error);
+    return 0;
+  }
+
+  const notable = (transitions as StatusTransition[])
+    .map(transition => ({ transition, event: eventForTransition(transition.previous_status, transition.status) }))
+    .filter((entry): entry is { transition: StatusTransition; event: TrackedItemEvent } => entry.event !== null);
+  if (notable.length === 0) return 0;
+
+  const itemIds = [...new Set(notable.map(({ transition }) => transition.tracked_item_id))];
+  const [itemsResult, preferencesResult] = await Promise.all([
+    supabase.from('tracked_items').select('id, user_id, type, value, notify_on_land').in('id', itemIds),
+    supabase.from('notification_preferences').select('user_id, tracked_item_id, event, channel, enabled').in('tracked_item_id', itemIds),
+  ]);
+  if (itemsResult.error || preferencesResult.error) {
+    console.error('enqueueNotifications: Failed to load items or preferences:', itemsResult.error ?? preferencesResult.error);
+    return 0;
+  }
+
+  const items = new Map((itemsResult.data as TrackedItemRow[]).map(item => [item.id, item]));
+  const preferencesByItem = new Map<number, NotificationPreference[]>();
+  for (const preference of preferencesResult.data as NotificationPreference[]) {
+    // Only the owner's preferences count, whatever ended up in the table
+    if (preference.user_id !== items.get(preference.tracked_item_id)?.user_id) continue;
+    const list = preferencesByItem.get(preference.tracked_item_id) ?? [];
+    list.push(preference);
+    preferencesByItem.set(preference.tracked_item_id, list);
+  }
+
+  const rows = [];
+  for (const { transition, event } of notable) {
+    const item = items.get(transition.tracked_item_id);
+    // Deleted items and ones with the bell off stay quiet; notifications only
+    // ever go to the item's owner
+    if (!item || !item.notify_on_land || item.user_id !== transition.user_id) continue;
+
+    const message = buildNotificationMessage(event, item, transition);
+    for (const preference of resolvePreferences(preferencesByItem.get(item.id) ?? [])) {
+      if (preference.event !== event) continue;
+      rows.push({
+        dedup_key: deliveryDedupKey(item.id, event, preference.channel, transition.recorded_at),
+        user_id: transition.user_id,
+        tracked_item_id: item.id,
+        history_id: transition.id,
+        event,
+        channel: preference.channel,
+        payload: message,
+      });
+    }
+  }
+  if (rows.length === 0) return 0;
+
+  const { data: inserted, error: insertError } = await supabase
+    .from(DELIVERIES_TABLE)
+    .upsert(rows, { onConflict: 'dedup_key', ignoreDuplicates: true })
+    .select('id');
+  if (insertError) {
+    console.error('enqueueNotifications: Failed to enqueue deliveries:', insertError);
+    return 0;
+  }
+  return inserted?.length ?? 0;
+}
+
+// Per-run lookups of where each user's notifications go
+function createRecipientResolver(supabase: SupabaseClient) {
+  const settings = new Map<string, Promise<NotificationChannelSettings | null>>();
+  const accountEmails = new Map<string, Promise<string | null>>();
+
+  const getSettings = (userId: string) => {
+    if (!settings.has(userId)) {
+      settings.set(userId, Promise.resolve(
+        supabase.from('notification_channels').select('*').eq('user_id', userId).maybeSingle()
+      ).then(({ data }) => data as NotificationChannelSettings | null));
+    }
+    return settings.get(userId)!;
+  };
+
+  const getEmail = async (userId: string) => {
+    const configured = (await getSettings(userId))?.email;
+    if (configured) return configured;
+    if (!accountEmails.has(userId)) {
+      accountEmails.set(userId, supabase.auth.admin.getUserById(userId).then(({ data }) => data.user?.email ?? null));
+    }
+    return accountEmails.get(userId)!;
+  };
+
+  const getPushSubscriptions = async (userId: string) => {
+    const { data } = await supabase.from('push_subscriptions').select('endpoint, p256dh, auth').eq('user_id', userId);
+    return (data ?? []) as PushSubscriptionRow[];
+  };
+
+  return { getSettings, getEmail, getPushSubscriptions };
+}
+
+// Sends one delivery through its channel; throws on failure
+async function deliver(
+  supabase: SupabaseClient,
+  recipients: ReturnType<typeof createRecipientResolver>,
+  delivery: NotificationDelivery
+): Promise<void> {
+  switch (delivery.channel) {
+    case 'email': {
+      const email = await recipients.getEmail(delivery.user_id);
+      if (!email) throw new Error('No email address for user');
+      await sendEmailNotification(email, delivery.payload);
+      return;
+    }
+    case 'push': {
+      const subscriptions = await recipients.getPushSubscriptions(delivery.user_id);
+      if (subscriptions.length === 0) throw new Error('No push subscriptions for user');
+      const { expired } = await sendPushNotification(subscriptions, delivery.payload);
+      if (expired.length > 0) {
+        await supabase.from('push_subscriptions').delete().in('endpoint', expired);
+      }
+      return;
+    }
+    case 'webhook': {
+      const settings = await recipients.getSettings(delivery.user_id);
+      if (!settings?.webhook_url) throw new Error('No webhook URL for user');
+      await sendWebhookNotification(settings.webhook_url, settings.webhook_secret, delivery.payload);
+      return;
+    }
+  }
+}
+
+// Sends pending deliveries that are due, retrying failures with backoff until
+// MAX_DELIVERY_ATTEMPTS. Each delivery is claimed first so overlapping runs
+// don't send it twice.
+export async function deliverPendingNotifications(supabase: SupabaseClient, now = new Date()): Promise<Omit<DispatchResult, 'enqueued'>> {
+  const result = { sent: 0, retrying: 0, failed: 0 };
+  const { data, error } = await supabase
+    .from(DELIVERIES_TABLE)
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now.toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(DELIVERY_BATCH_SIZE);
+
+  if (error) {
+    console.error('deliverPendingNotifications: Failed to load deliveries:', error);
+    return result;
+  }
+
+  const recipients = createRecipientResolver(supabase);
+  for (const delivery of data as NotificationDelivery[]) {
+    const { data: claimed } = await supabase
+      .from(DELIVERIES_TABLE)
+      .update({ next_attempt_at: new Date(now.getTime() + CLAIM_LEASE_SECONDS * 1000).toISOString() })
+      .eq('id', delivery.id)
+      .eq('next_attempt_at', delivery.next_attempt_at)
+      .select('id');
+    if (!claimed || claimed.length === 0) continue;
+
+    const attempts = delivery.attempts + 1;
+    try {
+      await deliver(supabase, recipients, delivery);
+      await supabase
+        .from(DELIVERIES_TABLE)
+        .update({ status: 'sent', attempts, last_error: null, sent_at: new Date().toISOString() })
+        .eq('id', delivery.id);
+      result.sent++;
+    } catch (deliveryError) {
+      const message = deliveryError instanceof Error ? deliveryError.message : String(deliveryError);
+      const giveUp = attempts >= MAX_DELIVERY_ATTEMPTS;
+      console.error(`deliverPendingNotifications: ${delivery.channel} delivery ${delivery.id} failed (attempt ${attempts}):`, message);
+      await supabase
+        .from(DELIVERIES_TABLE)
+        .update({
+          status: giveUp ? 'failed' : 'pending',
+          attempts,
+          last_error: message,
+          next_attempt_at: new Date(now.getTime() + retryDelaySeconds(attempts) * 1000).toISOString(),
+        })
+        .eq('id', delivery.id);
+      if (giveUp) result.failed++;
+      else result.retrying++;
+    }
+  }
+  return result;
+}
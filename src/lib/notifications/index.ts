@@ -0,0 +1,21 @@
+import { createAdminClient } from '../../utils/supabase/admin';
+import { deliverPendingNotifications, enqueueNotifications } from './dispatcher';
+import { DispatchResult } from './types';
+
+export type { NotificationEvent, NotificationChannel, NotificationMessage, NotificationPreference, NotificationChannelSettings, DispatchResult } from './types';
+export { NOTIFICATION_EVENTS, NOTIFICATION_CHANNELS, DEFAULT_NOTIFICATION_PREFERENCES, eventForTransition } from './preferences';
+
+// Queues notifications for recent tracked item status changes and sends
+// everything that is due. Returns null when the service role isn't configured.
+export async function dispatchNotifications(now = new Date()): Promise<DispatchResult | null> {
+  const supabase = createAdminClient();
+  if (!supabase) {
+    console.warn('dispatchNotifications: SUPABASE_SERVICE_ROLE_KEY is not set');
+    return null;
+  }
+
+  const enqueued = await enqueueNotifications(supabase, now);
+  const delivered = await deliverPendingNotifications(supabase, now);
+  console.log(`dispatchNotifications: Enqueued ${enqueued}, sent ${delivered.sent}, retrying ${delivered.retrying}, failed ${delivered.failed}`);
+  return { enqueued, ...delivered };
+}
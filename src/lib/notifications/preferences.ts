@@ -0,0 +1,36 @@
+import { NotificationChannel, NotificationPreference, TrackedItemEvent, TrackedItemStatus } from './types';
+
+export const NOTIFICATION_EVENTS: { value: TrackedItemEvent; label: string }[] = [
+  { value: 'TAKEOFF', label: 'Takeoff' },
+  { value: 'LANDING', label: 'Landing' },
+  { value: 'SIGNAL_LOST', label: 'Signal lost in flight' },
+];
+
+export const NOTIFICATION_CHANNELS: { value: NotificationChannel; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'push', label: 'Push' },
+  { value: 'webhook', label: 'Webhook' },
+];
+
+// Used for items with notifications on but no saved preferences, which is
+// what the old "notify on land" bell meant
+export const DEFAULT_NOTIFICATION_PREFERENCES: Pick<NotificationPreference, 'event' | 'channel'>[] = [
+  { event: 'LANDING', channel: 'email' },
+];
+
+// Event a status change stands for, if any. Appearing or disappearing while on
+// the ground (or being seen for the first time) isn't worth a notification.
+export function eventForTransition(previous: TrackedItemStatus | null, status: TrackedItemStatus): TrackedItemEvent | null {
+  if (previous === 'ON_GROUND' && status === 'AIRBORNE') return 'TAKEOFF';
+  if (previous === 'AIRBORNE' && status === 'ON_GROUND') return 'LANDING';
+  if (previous === 'AIRBORNE' && status === 'NOT_FOUND') return 'SIGNAL_LOST';
+  return null;
+}
+
+// Enabled (event, channel) pairs for one item
+export function resolvePreferences(
+  preferences: NotificationPreference[]
+): Pick<NotificationPreference, 'event' | 'channel'>[] {
+  if (preferences.length === 0) return DEFAULT_NOTIFICATION_PREFERENCES;
+  return preferences.filter(preference => preference.enabled);
+}
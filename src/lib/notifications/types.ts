@@ -0,0 +1,89 @@
+// Status of a tracked item as recorded by the flight-status-checker function
+export type TrackedItemStatus = 'AIRBORNE' | 'ON_GROUND' | 'NOT_FOUND';
+
+// Events of tracked items, chosen per item in notification_preferences
+export type TrackedItemEvent = 'TAKEOFF' | 'LANDING' | 'SIGNAL_LOST';
+
+// AREA_ENTRY comes from watch areas (saved views) and EMERGENCY_SQUAWK from
+// emergency alert subscriptions; both pick their channels themselves
+export type NotificationEvent = TrackedItemEvent | 'AREA_ENTRY' | 'EMERGENCY_SQUAWK';
+
+export type NotificationChannel = 'email' | 'push' | 'webhook';
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed';
+
+// Row of tracked_item_status_history
+export interface StatusTransition {
+  id: number;
+  tracked_item_id: number;
+  user_id: string;
+  previous_status: TrackedItemStatus | null;
+  status: TrackedItemStatus;
+  icao24: string | null;
+  callsign: string | null;
+  recorded_at: string;
+}
+
+export interface NotificationPreference {
+  user_id: string;
+  tracked_item_id: number;
+  event: TrackedItemEvent;
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
+export interface NotificationChannelSettings {
+  user_id: string;
+  email: string | null;
+  webhook_url: string | null;
+  webhook_secret: string | null;
+}
+
+export interface PushSubscriptionRow {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+// What gets sent, whatever the channel
+export interface NotificationMessage {
+  event: NotificationEvent;
+  title: string;
+  body: string;
+  // Absolute link to the aircraft page, by icao24 or else the tracked
+  // registration / flight number; null in payloads queued before that
+  url: string | null;
+  // Tracked item, or the watch area for AREA_ENTRY (value is its name);
+  // null for EMERGENCY_SQUAWK, which isn't about anything the user saved
+  item: { id: number; type: 'REGISTRATION' | 'FLIGHT_NUMBER' | 'WATCH_AREA'; value: string } | null;
+  icao24: string | null;
+  callsign: string | null;
+  // ISO time of the status change
+  time: string;
+}
+
+// Row of notification_deliveries
+export interface NotificationDelivery {
+  id: number;
+  dedup_key: string;
+  user_id: string;
+  // Set for tracked item and watch area notifications respectively
+  tracked_item_id: number | null;
+  saved_view_id: number | null;
+  history_id: number | null;
+  event: NotificationEvent;
+  channel: NotificationChannel;
+  status: DeliveryStatus;
+  attempts: number;
+  last_error: string | null;
+  payload: NotificationMessage;
+  next_attempt_at: string;
+  sent_at: string | null;
+}
+
+export interface DispatchResult {
+  enqueued: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+}
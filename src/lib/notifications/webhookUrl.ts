@@ -0,0 +1,101 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+// Webhook URLs come from users, so the server must not be usable to reach
+// itself or the private network it runs in: only https, and only hosts whose
+// every address is public. Checked when the URL is saved and before each send.
+
+// IPv4 ranges that are not reachable on the public internet, as [base, prefix length]
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, includes the 169.254.169.254 metadata service
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+];
+
+const ipv4ToNumber = (address: string) =>
+  address.split('.').reduce((value, octet) => value * 256 + parseInt(octet, 10), 0);
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4_RANGES.some(([base, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size);
+  });
+}
+
+// Expands an IPv6 address into its eight 16-bit groups
+function ipv6Groups(address: string): number[] {
+  let normalized = address.toLowerCase().split('%')[0];
+  // A trailing dotted IPv4 part (::ffff:10.0.0.1) becomes two groups
+  const dotted = normalized.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[1]);
+    normalized = normalized.slice(0, -dotted[1].length) + `${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+  }
+  const [head, tail] = normalized.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = tail === undefined ? 0 : 8 - headGroups.length - tailGroups.length;
+  return [...headGroups, ...Array(missing).fill('0'), ...tailGroups].map(group => parseInt(group, 16));
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const groups = ipv6Groups(address);
+  const embeddedIpv4 = () => `${groups[6] >> 8}.${groups[6] & 255}.${groups[7] >> 8}.${groups[7] & 255}`;
+
+  if (groups.slice(0, 7).every(group => group === 0) && groups[7] <= 1) return true; // :: and ::1
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses carry an IPv4 address
+  if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) return isBlockedIpv4(embeddedIpv4());
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) return isBlockedIpv4(embeddedIpv4());
+  if ((groups[0] & 0xfe00) === 0xfc00) return true; // unique local, includes fd00:ec2::254
+  if ((groups[0] & 0xffc0) === 0xfe80) return true; // link-local
+  if ((groups[0] & 0xff00) === 0xff00) return true; // multicast
+  if (groups[0] === 0x2001 && groups[1] === 0x0db8) return true; // documentation
+  return false;
+}
+
+// Whether an IP address is loopback, private, link-local or otherwise not public
+export function isBlockedAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isBlockedIpv4(address);
+  if (version === 6) return isBlockedIpv6(address);
+  return true;
+}
+
+// Throws with a user-readable reason when the URL may not be used as a webhook
+export async function assertSafeWebhookUrl(value: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error('Webhook URL is not a valid URL');
+  }
+  if (url.protocol !== 'https:') throw new Error('Webhook URL must use https');
+  if (url.username || url.password) throw new Error('Webhook URL must not contain credentials');
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (host === 'localhost' || host.endsWith('.localhost')) throw new Error('Webhook URL must point to a public host');
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`Webhook host ${host} could not be resolved`);
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw new Error('Webhook URL must point to a public host');
+  }
+  return url;
+}
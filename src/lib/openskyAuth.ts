@@ -0,0 +1,90 @@
+const OPENSKY_TOKEN_URL = 'https://auth.opensky-network.org/auth/realms/opensky-network/protocol/openid-connect/token';
+
+// Refresh this long before the token actually expires so that requests
+// started just before expiry don't go out with a stale token. Short-lived
+// tokens use half their lifetime instead, so they are still reused.
+const EXPIRY_MARGIN_MS = 60 * 1000;
+// Used when the token response doesn't include expires_in
+const DEFAULT_EXPIRES_IN_S = 30 * 60;
+
+export class OpenSkyAuthError extends Error {
+  status: number | null;
+
+  constructor(message: string, status: number | null = null) {
+    super(message);
+    this.name = 'OpenSkyAuthError';
+    this.status = status;
+  }
+}
+
+let cachedToken: { accessToken: string; expiresAt: number } | null = null;
+let pendingRefresh: Promise<string> | null = null;
+
+export function hasOpenSkyCredentials(): boolean {
+  return !!process.env.OPENSKY_CLIENT_ID && !!process.env.OPENSKY_CLIENT_SECRET;
+}
+
+async function requestToken(clientId: string, clientSecret: string): Promise<string> {
+  let tokenResponse: Response;
+  try {
+    tokenResponse = await fetch(OPENSKY_TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        'grant_type': 'client_credentials',
+        'client_id': clientId,
+        'client_secret': clientSecret,
+      }),
+    });
+  } catch (error) {
+    throw new OpenSkyAuthError(`Token endpoint unreachable: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!tokenResponse.ok) {
+    const errorText = await tokenResponse.text();
+    throw new OpenSkyAuthError(
+      `Token request failed: ${tokenResponse.status} ${tokenResponse.statusText} ${errorText}`.trim(),
+      tokenResponse.status
+    );
+  }
+
+  const tokenData = await tokenResponse.json();
+  if (!tokenData.access_token) {
+    throw new OpenSkyAuthError('Token response did not contain an access_token', tokenResponse.status);
+  }
+
+  const expiresIn = typeof tokenData.expires_in === 'number' ? tokenData.expires_in : DEFAULT_EXPIRES_IN_S;
+  cachedToken = {
+    accessToken: tokenData.access_token,
+    expiresAt: Date.now() + expiresIn * 1000 - Math.min(EXPIRY_MARGIN_MS, (expiresIn * 1000) / 2),
+  };
+  console.log(`OpenSkyAuth: Obtained new token, valid for ${expiresIn}s`);
+  return tokenData.access_token;
+}
+
+// Returns a client-credentials access token, reusing the cached one until
+// shortly before it expires. Concurrent callers share a single refresh.
+// Resolves to null when no credentials are configured and throws
+// OpenSkyAuthError when the token endpoint rejects them.
+export async function getOpenSkyAccessToken(): Promise<string | null> {
+  const clientId = process.env.OPENSKY_CLIENT_ID;
+  const clientSecret = process.env.OPENSKY_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) return null;
+
+  if (cachedToken && Date.now() < cachedToken.expiresAt) {
+    return cachedToken.accessToken;
+  }
+
+  if (!pendingRefresh) {
+    pendingRefresh = requestToken(clientId, clientSecret).finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+}
+
+// Drops the cached token, e.g. after the API answered 401 with it
+export function invalidateOpenSkyAccessToken() {
+  cachedToken = null;
+}
@@ -0,0 +1,56 @@
+import { PositionSource } from '../types';
+
+export interface PositionSourceInfo {
+  source: PositionSource;
+  label: string;
+  // One-letter badge shown next to the marker, empty for ADS-B
+  badge: string;
+  color: string;
+  // MLAT and ASTERIX (radar) positions are derived, not reported by the aircraft
+  precise: boolean;
+  description: string;
+}
+
+export const POSITION_SOURCES: PositionSourceInfo[] = [
+  {
+    source: PositionSource.ADSB,
+    label: 'ADS-B',
+    badge: '',
+    color: '#3b82f6',
+    precise: true,
+    description: 'GNSS position broadcast by the aircraft',
+  },
+  {
+    source: PositionSource.MLAT,
+    label: 'MLAT',
+    badge: 'M',
+    color: '#f59e0b',
+    precise: false,
+    description: 'Multilateration from signal arrival times, accurate to a few hundred metres',
+  },
+  {
+    source: PositionSource.ASTERIX,
+    label: 'ASTERIX',
+    badge: 'R',
+    color: '#8b5cf6',
+    precise: false,
+    description: 'Radar track from ATC surveillance data, may lag the aircraft',
+  },
+  {
+    source: PositionSource.FLARM,
+    label: 'FLARM',
+    badge: 'F',
+    color: '#10b981',
+    precise: true,
+    description: 'GNSS position from a FLARM collision-avoidance unit (gliders, light aircraft)',
+  },
+];
+
+export const ALL_POSITION_SOURCES = POSITION_SOURCES.map(info => info.source);
+
+export const getPositionSourceInfo = (source: number | null | undefined): PositionSourceInfo | null =>
+  POSITION_SOURCES.find(info => info.source === source) ?? null;
+
+// Aircraft without a reported source are never hidden by the source filter
+export const matchesPositionSources = (source: number | null | undefined, allowed: PositionSource[]): boolean =>
+  source === null || source === undefined || allowed.includes(source);
@@ -0,0 +1,148 @@
+import { FlightState, BoundingBox, PositionSource } from '../../types';
+import { getCountryForIcao24 } from './icaoCountries';
+
+// Fields a receiver message can contribute to an aircraft's state. Units are
+// the FlightState ones (metres, m/s, degrees) - feed parsers convert before
+// calling update().
+export interface ReceiverAircraftUpdate {
+  callsign?: string | null;
+  latitude?: number;
+  longitude?: number;
+  baro_altitude?: number | null;
+  geo_altitude?: number | null;
+  velocity?: number | null;
+  true_track?: number | null;
+  vertical_rate?: number | null;
+  squawk?: string | null;
+  spi?: boolean;
+  on_ground?: boolean;
+  category?: number;
+  position_source?: PositionSource;
+}
+
+export interface AircraftStore {
+  // Merges a (partial) update for one aircraft. timestamp is in Unix seconds.
+  update(icao24: string, update: ReceiverAircraftUpdate, timestamp?: number): void;
+  // Aircraft with a known position, heard within maxAgeSeconds of `now`
+  getStates(bounds?: BoundingBox, now?: number): FlightState[];
+  getState(icao24: string): FlightState | null;
+  // Drops aircraft not heard from within maxAgeSeconds of `now`
+  prune(now?: number): void;
+  clear(): void;
+  readonly size: number;
+}
+
+interface StoredAircraft {
+  state: Omit<FlightState, 'latitude' | 'longitude'> & { latitude: number | null; longitude: number | null };
+}
+
+const DEFAULT_MAX_AGE_SECONDS = 60;
+
+function isInBounds(state: FlightState, bounds: BoundingBox): boolean {
+  return state.latitude >= bounds.lamin &&
+    state.latitude <= bounds.lamax &&
+    state.longitude >= bounds.lomin &&
+    state.longitude <= bounds.lomax;
+}
+
+// Assembles the partial messages a receiver emits (position, velocity,
+// identification arrive separately) into one FlightState per hex ID.
+export function createAircraftStore(options: { maxAgeSeconds?: number } = {}): AircraftStore {
+  const maxAgeSeconds = options.maxAgeSeconds ?? DEFAULT_MAX_AGE_SECONDS;
+  const aircraft = new Map<string, StoredAircraft>();
+
+  const toFlightState = (entry: StoredAircraft): FlightState | null => {
+    const { latitude, longitude } = entry.state;
+    if (latitude === null || longitude === null) return null;
+    return { ...entry.state, latitude, longitude };
+  };
+
+  const prune = (now: number = Date.now() / 1000) => {
+    for (const [icao24, entry] of aircraft) {
+      if (now - entry.state.last_contact > maxAgeSeconds) {
+        aircraft.delete(icao24);
+      }
+    }
+  };
+
+  return {
+    update(icao24, update, timestamp = Date.now() / 1000) {
+      const key = icao24.trim().toLowerCase();
+      let entry = aircraft.get(key);
+      if (!entry) {
+        const { country, code } = getCountryForIcao24(key);
+        entry = {
+          state: {
+            icao24: key,
+            callsign: null,
+            origin_country: country,
+            origin_country_code: code,
+            time_position: null,
+            last_contact: timestamp,
+            longitude: null,
+            latitude: null,
+            baro_altitude: null,
+            on_ground: false,
+            velocity: null,
+            true_track: null,
+            vertical_rate: null,
+            sensors: null,
+            geo_altitude: null,
+            squawk: null,
+            spi: false,
+            position_source: PositionSource.ADSB,
+            category: 0,
+          },
+        };
+        aircraft.set(key, entry);
+      }
+
+      const state = entry.state;
+      state.last_contact = Math.max(state.last_contact, timestamp);
+
+      if (update.latitude !== undefined && update.longitude !== undefined) {
+        state.latitude = update.latitude;
+        state.longitude = update.longitude;
+        state.time_position = timestamp;
+      }
+      if (update.callsign !== undefined) state.callsign = update.callsign?.trim() || null;
+      if (update.baro_altitude !== undefined) state.baro_altitude = update.baro_altitude;
+      if (update.geo_altitude !== undefined) state.geo_altitude = update.geo_altitude;
+      if (update.velocity !== undefined) state.velocity = update.velocity;
+      if (update.true_track !== undefined) state.true_track = update.true_track;
+      if (update.vertical_rate !== undefined) state.vertical_rate = update.vertical_rate;
+      if (update.squawk !== undefined) state.squawk = update.squawk;
+      if (update.spi !== undefined) state.spi = update.spi;
+      if (update.on_ground !== undefined) state.on_ground = update.on_ground;
+      if (update.category !== undefined) state.category = update.category;
+      if (update.position_source !== undefined) state.position_source = update.position_source;
+    },
+
+    getStates(bounds, now = Date.now() / 1000) {
+      const states: FlightState[] = [];
+      for (const entry of aircraft.values()) {
+        if (now - entry.state.last_contact > maxAgeSeconds) continue;
+        const state = toFlightState(entry);
+        if (state && (!bounds || isInBounds(state, bounds))) {
+          states.push(state);
+        }
+      }
+      return states;
+    },
+
+    getState(icao24) {
+      const entry = aircraft.get(icao24.trim().toLowerCase());
+      return entry ? toFlightState(entry) : null;
+    },
+
+    prune,
+
+    clear() {
+      aircraft.clear();
+    },
+
+    get size() {
+      return aircraft.size;
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { PositionSource } from '../../types';
+import { createAircraftStore } from './aircraftStore';
+import { dump1090AircraftToUpdate, Dump1090AircraftJson, ingestDump1090Json } from './dump1090';
+import { emitterCategoryToNumber } from './emitterCategory';
+import { FT_TO_M, KT_TO_MS, FPM_TO_MS } from './units';
+import recorded from './__fixtures__/aircraft.json';
+
+// A small snapshot in dump1090-fa's format around Warsaw: airborne, positionless,
+// ground, MLAT and TIS-B entries, plus one in the older dump1090-mutability field names
+const AIRCRAFT_JSON = recorded as Dump1090AircraftJson;
+const entry = (hex: string) => AIRCRAFT_JSON.aircraft.find(aircraft => aircraft.hex === hex)!;
+
+describe('dump1090AircraftToUpdate', () => {
+  it('converts dump1090-fa fields to FlightState units', () => {
+    const update = dump1090AircraftToUpdate(entry('48ae01'));
+    expect(update).toMatchObject({
+      callsign: 'LOT3921 ',
+      on_ground: false,
+      true_track: 87.6,
+      squawk: '2354',
+      category: emitterCategoryToNumber('A3'),
+      latitude: 52.312683,
+      longitude: 21.437805,
+      position_source: PositionSource.ADSB,
+    });
+    expect(update.baro_altitude).toBeCloseTo(36000 * FT_TO_M);
+    expect(update.geo_altitude).toBeCloseTo(36525 * FT_TO_M);
+    expect(update.velocity).toBeCloseTo(452.3 * KT_TO_MS);
+    expect(update.vertical_rate).toBeCloseTo(-64 * FPM_TO_MS);
+  });
+
+  it('reads the older dump1090-mutability field names', () => {
+    const update = dump1090AircraftToUpdate(entry('471f8d'));
+    expect(update.baro_altitude).toBeCloseTo(8050 * FT_TO_M);
+    expect(update.velocity).toBeCloseTo(262 * KT_TO_MS);
+    expect(update.vertical_rate).toBeCloseTo(-1280 * FPM_TO_MS);
+  });
+
+  it('marks aircraft on the ground without an altitude', () => {
+    const update = dump1090AircraftToUpdate(entry('48c221'));
+    expect(update.on_ground).toBe(true);
+    expect(update).not.toHaveProperty('baro_altitude');
+  });
+
+  it('takes the position source from the MLAT fields', () => {
+    expect(dump1090AircraftToUpdate(entry('3c6444')).position_source).toBe(PositionSource.MLAT);
+  });
+
+  it('leaves the position out of entries without one', () => {
+    const update = dump1090AircraftToUpdate(entry('4b1805'));
+    expect(update.baro_altitude).toBeCloseTo(21975 * FT_TO_M);
+    expect(update).not.toHaveProperty('latitude');
+    expect(update).not.toHaveProperty('position_source');
+  });
+});
+
+describe('ingestDump1090Json', () => {
+  it('loads every ICAO address and back-dates contacts and positions', () => {
+    const store = createAircraftStore();
+    expect(ingestDump1090Json(AIRCRAFT_JSON, store)).toBe(5);
+    expect(store.size).toBe(5);
+
+    const states = store.getStates(undefined, AIRCRAFT_JSON.now);
+    expect(states.map(state => state.icao24).sort()).toEqual(['3c6444', '471f8d', '48ae01', '48c221']);
+
+    expect(store.getState('48ae01')).toMatchObject({
+      callsign: 'LOT3921',
+      last_contact: AIRCRAFT_JSON.now - 0.3,
+      time_position: AIRCRAFT_JSON.now - 1.4,
+    });
+    // Heard, but kept off the map until a position arrives
+    expect(store.getState('4b1805')).toBeNull();
+  });
+});
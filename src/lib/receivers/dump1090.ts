@@ -0,0 +1,107 @@
+import { PositionSource } from '../../types';
+import { AircraftStore, ReceiverAircraftUpdate } from './aircraftStore';
+import { emitterCategoryToNumber } from './emitterCategory';
+import { FT_TO_M, KT_TO_MS, FPM_TO_MS } from './units';
+
+// One entry of dump1090's aircraft.json. dump1090-fa and readsb use alt_baro /
+// gs / baro_rate, older dump1090-mutability builds use altitude / speed / vert_rate.
+export interface Dump1090Aircraft {
+  hex: string;
+  flight?: string;
+  alt_baro?: number | 'ground';
+  alt_geom?: number;
+  altitude?: number | 'ground';
+  gs?: number;
+  speed?: number;
+  track?: number;
+  baro_rate?: number;
+  geom_rate?: number;
+  vert_rate?: number;
+  squawk?: string;
+  spi?: boolean;
+  category?: string;
+  lat?: number;
+  lon?: number;
+  // Seconds since the last position / any message
+  seen_pos?: number;
+  seen?: number;
+  // Fields derived from MLAT or TIS-B rather than the aircraft's own ADS-B
+  mlat?: string[];
+  tisb?: string[];
+  type?: string;
+}
+
+export interface Dump1090AircraftJson {
+  now: number;
+  aircraft: Dump1090Aircraft[];
+}
+
+function getPositionSource(entry: Dump1090Aircraft): PositionSource {
+  if (entry.mlat?.includes('lat') || entry.type === 'mlat') return PositionSource.MLAT;
+  return PositionSource.ADSB;
+}
+
+export function dump1090AircraftToUpdate(entry: Dump1090Aircraft): ReceiverAircraftUpdate {
+  const update: ReceiverAircraftUpdate = {};
+
+  const altitude = entry.alt_baro ?? entry.altitude;
+  if (altitude === 'ground') {
+    update.on_ground = true;
+  } else if (typeof altitude === 'number') {
+    update.on_ground = false;
+    update.baro_altitude = altitude * FT_TO_M;
+  }
+  if (typeof entry.alt_geom === 'number') update.geo_altitude = entry.alt_geom * FT_TO_M;
+
+  const groundSpeed = entry.gs ?? entry.speed;
+  if (typeof groundSpeed === 'number') update.velocity = groundSpeed * KT_TO_MS;
+  if (typeof entry.track === 'number') update.true_track = entry.track;
+
+  const verticalRate = entry.baro_rate ?? entry.geom_rate ?? entry.vert_rate;
+  if (typeof verticalRate === 'number') update.vertical_rate = verticalRate * FPM_TO_MS;
+
+  if (entry.flight) update.callsign = entry.flight;
+  if (entry.squawk) update.squawk = entry.squawk;
+  if (typeof entry.spi === 'boolean') update.spi = entry.spi;
+  if (entry.category) update.category = emitterCategoryToNumber(entry.category);
+
+  if (typeof entry.lat === 'number' && typeof entry.lon === 'number') {
+    update.latitude = entry.lat;
+    update.longitude = entry.lon;
+    update.position_source = getPositionSource(entry);
+  }
+
+  return update;
+}
+
+// Loads an aircraft.json snapshot (live or recorded) into the store. Updates
+// are back-dated by `seen` / `seen_pos` so stale entries age out correctly.
+export function ingestDump1090Json(data: Dump1090AircraftJson, store: AircraftStore): number {
+  let applied = 0;
+  for (const entry of data.aircraft || []) {
+    if (!entry.hex || entry.hex.startsWith('~')) continue; // "~" marks non-ICAO (TIS-B) addresses
+    const { latitude, longitude, position_source, ...rest } = dump1090AircraftToUpdate(entry);
+    store.update(entry.hex, rest, data.now - (entry.seen ?? 0));
+    if (latitude !== undefined && longitude !== undefined) {
+      store.update(entry.hex, { latitude, longitude, position_source }, data.now - (entry.seen_pos ?? entry.seen ?? 0));
+    }
+    applied++;
+  }
+  return applied;
+}
+
+// Fetches aircraft.json from a running dump1090 (e.g. http://raspberrypi:8080/data/aircraft.json)
+export async function fetchDump1090AircraftJson(url: string): Promise<Dump1090AircraftJson> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 3000); // 3 second timeout
+
+  try {
+    const response = await fetch(url, { signal: controller.signal, cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`dump1090 request failed: ${response.status} ${response.statusText}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,29 @@
+// Converts an ADS-B emitter category (set A-D plus code 0-7, e.g. "A3") to
+// the numeric category used by OpenSky and FlightState.category:
+// 0 = no information, 1 = no ADS-B category info, 2-8 = A1-A7,
+// 9-15 = B1-B7, 16-20 = C1-C5.
+export function emitterCategoryToNumber(category: string | null | undefined): number {
+  if (!category || category.length !== 2) return 0;
+
+  const set = category[0].toUpperCase();
+  const code = parseInt(category[1], 10);
+  if (Number.isNaN(code) || code === 0) return 1;
+
+  switch (set) {
+    case 'A':
+      return code <= 7 ? 1 + code : 0;
+    case 'B':
+      return code <= 7 ? 8 + code : 0;
+    case 'C':
+      return code <= 5 ? 15 + code : 0;
+    default:
+      return 0;
+  }
+}
+
+// DF17/18 identification messages encode the category set in the type code
+// (4 = A, 3 = B, 2 = C, 1 = D) and the category itself in the CA field
+export function emitterCategoryFromTypeCode(typeCode: number, code: number): string | null {
+  const set = ({ 4: 'A', 3: 'B', 2: 'C', 1: 'D' } as Record<number, string>)[typeCode];
+  return set ? `${set}${code}` : null;
+}
@@ -0,0 +1,62 @@
+// ICAO 24-bit address blocks allocated to states (ICAO Annex 10, Vol. III).
+// Only the larger allocations are listed; addresses outside them resolve to
+// an empty country, the same as OpenSky does for unknown registrations.
+const ICAO_ADDRESS_BLOCKS: { start: number; end: number; country: string; code: string }[] = [
+  { start: 0x008000, end: 0x00ffff, country: 'South Africa', code: 'za' },
+  { start: 0x010000, end: 0x017fff, country: 'Egypt', code: 'eg' },
+  { start: 0x06a000, end: 0x06a3ff, country: 'Qatar', code: 'qa' },
+  { start: 0x0d0000, end: 0x0d7fff, country: 'Mexico', code: 'mx' },
+  { start: 0x100000, end: 0x1fffff, country: 'Russian Federation', code: 'ru' },
+  { start: 0x300000, end: 0x33ffff, country: 'Italy', code: 'it' },
+  { start: 0x340000, end: 0x37ffff, country: 'Spain', code: 'es' },
+  { start: 0x380000, end: 0x3bffff, country: 'France', code: 'fr' },
+  { start: 0x3c0000, end: 0x3fffff, country: 'Germany', code: 'de' },
+  { start: 0x400000, end: 0x43ffff, country: 'United Kingdom', code: 'gb' },
+  { start: 0x440000, end: 0x447fff, country: 'Austria', code: 'at' },
+  { start: 0x448000, end: 0x44ffff, country: 'Belgium', code: 'be' },
+  { start: 0x458000, end: 0x45ffff, country: 'Denmark', code: 'dk' },
+  { start: 0x460000, end: 0x467fff, country: 'Finland', code: 'fi' },
+  { start: 0x468000, end: 0x46ffff, country: 'Greece', code: 'gr' },
+  { start: 0x470000, end: 0x477fff, country: 'Hungary', code: 'hu' },
+  { start: 0x478000, end: 0x47ffff, country: 'Norway', code: 'no' },
+  { start: 0x480000, end: 0x487fff, country: 'Netherlands', code: 'nl' },
+  { start: 0x488000, end: 0x48ffff, country: 'Poland', code: 'pl' },
+  { start: 0x490000, end: 0x497fff, country: 'Portugal', code: 'pt' },
+  { start: 0x498000, end: 0x49ffff, country: 'Czech Republic', code: 'cz' },
+  { start: 0x4a0000, end: 0x4a7fff, country: 'Romania', code: 'ro' },
+  { start: 0x4a8000, end: 0x4affff, country: 'Sweden', code: 'se' },
+  { start: 0x4b0000, end: 0x4b7fff, country: 'Switzerland', code: 'ch' },
+  { start: 0x4b8000, end: 0x4bffff, country: 'Turkey', code: 'tr' },
+  { start: 0x4ca000, end: 0x4cafff, country: 'Ireland', code: 'ie' },
+  { start: 0x4cc000, end: 0x4ccfff, country: 'Iceland', code: 'is' },
+  { start: 0x4d0000, end: 0x4d03ff, country: 'Luxembourg', code: 'lu' },
+  { start: 0x4d2000, end: 0x4d23ff, country: 'Malta', code: 'mt' },
+  { start: 0x502c00, end: 0x502fff, country: 'Latvia', code: 'lv' },
+  { start: 0x503c00, end: 0x503fff, country: 'Lithuania', code: 'lt' },
+  { start: 0x505c00, end: 0x505fff, country: 'Slovakia', code: 'sk' },
+  { start: 0x508000, end: 0x50ffff, country: 'Ukraine', code: 'ua' },
+  { start: 0x511000, end: 0x5113ff, country: 'Estonia', code: 'ee' },
+  { start: 0x710000, end: 0x717fff, country: 'Saudi Arabia', code: 'sa' },
+  { start: 0x718000, end: 0x71ffff, country: 'Republic of Korea', code: 'kr' },
+  { start: 0x738000, end: 0x73ffff, country: 'Israel', code: 'il' },
+  { start: 0x768000, end: 0x76ffff, country: 'Singapore', code: 'sg' },
+  { start: 0x780000, end: 0x7bffff, country: 'China', code: 'cn' },
+  { start: 0x7c0000, end: 0x7fffff, country: 'Australia', code: 'au' },
+  { start: 0x800000, end: 0x83ffff, country: 'India', code: 'in' },
+  { start: 0x840000, end: 0x87ffff, country: 'Japan', code: 'jp' },
+  { start: 0x896000, end: 0x896fff, country: 'United Arab Emirates', code: 'ae' },
+  { start: 0xa00000, end: 0xafffff, country: 'United States', code: 'us' },
+  { start: 0xc00000, end: 0xc3ffff, country: 'Canada', code: 'ca' },
+  { start: 0xc80000, end: 0xc87fff, country: 'New Zealand', code: 'nz' },
+  { start: 0xe00000, end: 0xe3ffff, country: 'Argentina', code: 'ar' },
+  { start: 0xe40000, end: 0xe7ffff, country: 'Brazil', code: 'br' },
+];
+
+export function getCountryForIcao24(icao24: string): { country: string; code: string } {
+  const address = parseInt(icao24, 16);
+  if (!Number.isNaN(address)) {
+    const block = ICAO_ADDRESS_BLOCKS.find(b => address >= b.start && address <= b.end);
+    if (block) return { country: block.country, code: block.code };
+  }
+  return { country: '', code: '' };
+}
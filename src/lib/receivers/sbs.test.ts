@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { PositionSource } from '../../types';
+import { createAircraftStore } from './aircraftStore';
+import { parseSbsLine, sbsMessageToUpdate, ingestSbsText } from './sbs';
+import { FT_TO_M, KT_TO_MS, FPM_TO_MS } from './units';
+
+const MSG_1 = 'MSG,1,1,1,4840D6,1,2024/05/01,12:00:00.000,2024/05/01,12:00:00.000,KLM1023 ,,,,,,,,,,,0';
+const MSG_3 = 'MSG,3,1,1,4840D6,1,2024/05/01,12:00:01.000,2024/05/01,12:00:01.000,,38000,,,52.2575,3.9192,,,0,0,0,0';
+const MSG_4 = 'MSG,4,1,1,4840D6,1,2024/05/01,12:00:02.000,2024/05/01,12:00:02.000,,,451,87.5,,,-1088,,,,,0';
+
+describe('parseSbsLine', () => {
+  it('reads the callsign from an identification message (MSG,1)', () => {
+    const message = parseSbsLine(MSG_1);
+    expect(message).toMatchObject({ transmissionType: 1, icao24: '4840d6', callsign: 'KLM1023' });
+    expect(message?.latitude).toBeNull();
+    expect(message?.altitudeFt).toBeNull();
+  });
+
+  it('reads altitude, position and flags from an airborne position message (MSG,3)', () => {
+    expect(parseSbsLine(MSG_3)).toMatchObject({
+      transmissionType: 3,
+      icao24: '4840d6',
+      callsign: null,
+      altitudeFt: 38000,
+      latitude: 52.2575,
+      longitude: 3.9192,
+      alert: false,
+      emergency: false,
+      spi: false,
+      onGround: false,
+    });
+  });
+
+  it('reads speed, track and vertical rate from an airborne velocity message (MSG,4)', () => {
+    expect(parseSbsLine(MSG_4)).toMatchObject({
+      transmissionType: 4,
+      groundSpeedKt: 451,
+      track: 87.5,
+      verticalRateFpm: -1088,
+      latitude: null,
+      longitude: null,
+    });
+  });
+
+  it('reads "-1" flags as true', () => {
+    const message = parseSbsLine('MSG,3,1,1,4840D6,1,2024/05/01,12:00:01.000,2024/05/01,12:00:01.000,,0,,,52.3,4.7,,,0,-1,0,-1');
+    expect(message?.emergency).toBe(true);
+    expect(message?.onGround).toBe(true);
+  });
+
+  it.each([
+    ['an empty line', ''],
+    ['a session message', 'SEL,,496,2286,4CA4E5,27215,2010/02/19,18:06:07.710,2010/02/19,18:06:07.710,RYR1427'],
+    ['a clock message', 'CLK,,,,,,2024/05/01,12:00:00.000,2024/05/01,12:00:00.000'],
+    ['a truncated line', 'MSG,3,1,1,4840D6,1'],
+    ['a non-hex icao24', 'MSG,3,1,1,ZZZZZZ,1,2024/05/01,12:00:01.000,2024/05/01,12:00:01.000,,38000,,,52.2575,3.9192,,,0,0,0,0'],
+    ['a missing transmission type', 'MSG,,1,1,4840D6,1,2024/05/01,12:00:01.000,2024/05/01,12:00:01.000,,38000,,,52.2575,3.9192,,,0,0,0,0'],
+    ['random text', 'hello, world'],
+  ])('ignores %s', (_, line) => {
+    expect(parseSbsLine(line)).toBeNull();
+  });
+
+  it('treats unparseable numbers as missing', () => {
+    const message = parseSbsLine('MSG,3,1,1,4840D6,1,2024/05/01,12:00:01.000,2024/05/01,12:00:01.000,,abc,,,52.2575,xyz,,,0,0,0,0');
+    expect(message?.altitudeFt).toBeNull();
+    expect(message?.latitude).toBe(52.2575);
+    expect(message?.longitude).toBeNull();
+  });
+});
+
+describe('sbsMessageToUpdate', () => {
+  it('converts to FlightState units and only sets a position when both coordinates are known', () => {
+    const update = sbsMessageToUpdate(parseSbsLine(MSG_3)!, PositionSource.MLAT);
+    expect(update.baro_altitude).toBeCloseTo(38000 * FT_TO_M);
+    expect(update).toMatchObject({ latitude: 52.2575, longitude: 3.9192, position_source: PositionSource.MLAT });
+
+    const velocity = sbsMessageToUpdate(parseSbsLine(MSG_4)!);
+    expect(velocity.velocity).toBeCloseTo(451 * KT_TO_MS);
+    expect(velocity.vertical_rate).toBeCloseTo(-1088 * FPM_TO_MS);
+    expect(velocity.latitude).toBeUndefined();
+  });
+});
+
+describe('ingestSbsText', () => {
+  it('assembles messages for one aircraft into a single state and skips malformed lines', () => {
+    const store = createAircraftStore();
+    const applied = ingestSbsText([MSG_1, 'garbage', MSG_3, MSG_4, ''].join('\r\n'), store, { useReceiveTime: true });
+
+    expect(applied).toBe(3);
+    const state = store.getState('4840d6');
+    expect(state).toMatchObject({ callsign: 'KLM1023', latitude: 52.2575, longitude: 3.9192, true_track: 87.5, on_ground: false });
+  });
+});
@@ -0,0 +1,136 @@
+import { PositionSource } from '../../types';
+import { AircraftStore, ReceiverAircraftUpdate } from './aircraftStore';
+import { connectTcpFeed, TcpFeedConnection } from './tcpFeed';
+import { FT_TO_M, KT_TO_MS, FPM_TO_MS } from './units';
+
+// One line of the BaseStation text protocol (dump1090 port 30003), e.g.
+// MSG,3,1,1,4840D6,1,2024/05/01,12:00:00.000,2024/05/01,12:00:00.000,,38000,,,52.2575,3.9192,,,0,0,0,0
+export interface SbsMessage {
+  transmissionType: number;
+  icao24: string;
+  timestamp: number | null;
+  callsign: string | null;
+  altitudeFt: number | null;
+  groundSpeedKt: number | null;
+  track: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  verticalRateFpm: number | null;
+  squawk: string | null;
+  alert: boolean | null;
+  emergency: boolean | null;
+  spi: boolean | null;
+  onGround: boolean | null;
+}
+
+const parseNumber = (value: string | undefined): number | null => {
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Flags are "-1" (or "1") for true and "0" for false; empty means not present
+const parseFlag = (value: string | undefined): boolean | null => {
+  if (value === undefined || value.trim() === '') return null;
+  return value.trim() !== '0';
+};
+
+const parseTimestamp = (date: string | undefined, time: string | undefined): number | null => {
+  if (!date || !time) return null;
+  // BaseStation writes receiver local time as "YYYY/MM/DD" "HH:MM:SS.mmm"
+  const parsed = new Date(`${date.trim()} ${time.trim()}`).getTime();
+  return Number.isNaN(parsed) ? null : parsed / 1000;
+};
+
+export function parseSbsLine(line: string): SbsMessage | null {
+  const fields = line.trim().split(',');
+  // Only MSG lines carry aircraft data (SEL, ID, AIR, STA and CLK are session bookkeeping)
+  if (fields[0] !== 'MSG' || fields.length < 11) return null;
+
+  const transmissionType = parseInt(fields[1], 10);
+  const icao24 = fields[4]?.trim().toLowerCase();
+  if (Number.isNaN(transmissionType) || !icao24 || !/^[0-9a-f]{6}$/.test(icao24)) return null;
+
+  return {
+    transmissionType,
+    icao24,
+    timestamp: parseTimestamp(fields[6], fields[7]),
+    callsign: fields[10]?.trim() || null,
+    altitudeFt: parseNumber(fields[11]),
+    groundSpeedKt: parseNumber(fields[12]),
+    track: parseNumber(fields[13]),
+    latitude: parseNumber(fields[14]),
+    longitude: parseNumber(fields[15]),
+    verticalRateFpm: parseNumber(fields[16]),
+    squawk: fields[17]?.trim() || null,
+    alert: parseFlag(fields[18]),
+    emergency: parseFlag(fields[19]),
+    spi: parseFlag(fields[20]),
+    onGround: parseFlag(fields[21]),
+  };
+}
+
+export function sbsMessageToUpdate(message: SbsMessage, positionSource: PositionSource = PositionSource.ADSB): ReceiverAircraftUpdate {
+  const update: ReceiverAircraftUpdate = {};
+
+  if (message.callsign) update.callsign = message.callsign;
+  if (message.altitudeFt !== null) update.baro_altitude = message.altitudeFt * FT_TO_M;
+  if (message.groundSpeedKt !== null) update.velocity = message.groundSpeedKt * KT_TO_MS;
+  if (message.track !== null) update.true_track = message.track;
+  if (message.verticalRateFpm !== null) update.vertical_rate = message.verticalRateFpm * FPM_TO_MS;
+  if (message.squawk) update.squawk = message.squawk;
+  if (message.spi !== null) update.spi = message.spi;
+  if (message.onGround !== null) update.on_ground = message.onGround;
+  if (message.latitude !== null && message.longitude !== null) {
+    update.latitude = message.latitude;
+    update.longitude = message.longitude;
+    update.position_source = positionSource;
+  }
+
+  return update;
+}
+
+export interface SbsIngestOptions {
+  // Source recorded for positions from this feed (mlat-client also speaks SBS)
+  positionSource?: PositionSource;
+  // Use the receive time instead of the timestamp inside each message
+  useReceiveTime?: boolean;
+}
+
+export function applySbsMessage(store: AircraftStore, message: SbsMessage, options: SbsIngestOptions = {}) {
+  const timestamp = options.useReceiveTime || message.timestamp === null
+    ? Date.now() / 1000
+    : message.timestamp;
+  store.update(message.icao24, sbsMessageToUpdate(message, options.positionSource), timestamp);
+}
+
+// Feeds a block of BaseStation text (e.g. a recorded capture) into the store.
+// Returns the number of messages applied.
+export function ingestSbsText(text: string, store: AircraftStore, options: SbsIngestOptions = {}): number {
+  let applied = 0;
+  for (const line of text.split(/\r?\n/)) {
+    const message = parseSbsLine(line);
+    if (message) {
+      applySbsMessage(store, message, options);
+      applied++;
+    }
+  }
+  return applied;
+}
+
+// Keeps a BaseStation TCP feed open, feeding every message into the store
+export function connectSbsFeed(host: string, port: number, store: AircraftStore, options: SbsIngestOptions = {}): TcpFeedConnection {
+  let buffer = '';
+
+  return connectTcpFeed('SBS', host, port, (chunk) => {
+    buffer += chunk.toString('utf8');
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const message = parseSbsLine(line);
+      if (message) applySbsMessage(store, message, { ...options, useReceiveTime: true });
+    }
+  }, () => {
+    buffer = '';
+  });
+}
@@ -0,0 +1,49 @@
+import net from 'net';
+
+export interface TcpFeedConnection {
+  close(): void;
+}
+
+const RECONNECT_DELAY_MS = 5000;
+
+// Keeps a TCP connection to a receiver output port open, handing every chunk
+// to onData and reconnecting after errors until close() is called. onConnect
+// runs on every (re)connect so callers can reset partial-message buffers.
+export function connectTcpFeed(
+  label: string,
+  host: string,
+  port: number,
+  onData: (chunk: Buffer) => void,
+  onConnect?: () => void
+): TcpFeedConnection {
+  let socket: net.Socket | null = null;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  const connect = () => {
+    socket = net.createConnection({ host, port });
+
+    socket.on('connect', () => {
+      console.log(`${label}: Connected to ${host}:${port}`);
+      onConnect?.();
+    });
+    socket.on('data', onData);
+    socket.on('error', (error) => console.warn(`${label}: Connection to ${host}:${port} failed:`, error.message));
+    socket.on('close', () => {
+      socket = null;
+      if (!closed) {
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    });
+  };
+
+  connect();
+
+  return {
+    close() {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.destroy();
+    },
+  };
+}
@@ -0,0 +1,4 @@
+// Receivers report aviation units; FlightState uses metres and m/s
+export const FT_TO_M = 0.3048;
+export const KT_TO_MS = 0.514444;
+export const FPM_TO_MS = 0.00508;
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { looksLikeRegistration, resolveRegistrations } from './registrationResolver';
+
+// Only the OpenSky path is exercised: there is no aircraft_metadata table
+vi.mock('../utils/supabase/admin', () => ({ createAdminClient: () => null }));
+vi.mock('./openskyAuth', () => ({ getOpenSkyAccessToken: async () => null }));
+
+const HOUR_MS = 60 * 60 * 1000;
+const T0 = Date.parse('2026-10-18T12:00:00Z');
+
+const KNOWN: Record<string, string> = { SPLRA: '48ae01', SPLRB: '48ae02', DAIBL: '3c6444' };
+
+const searchedRegistration = (url: string) => new URL(url).searchParams.get('q') ?? '';
+
+const openSkyAnswer = (registration: string) => {
+  const icao24 = KNOWN[registration.replace(/[^A-Z0-9]/gi, '').toUpperCase()];
+  return Response.json(icao24 ? [{ icao24, registration }] : []);
+};
+
+describe('resolveRegistrations', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('resolves through OpenSky and caches hits and misses', async () => {
+    fetchMock.mockImplementation(async url => openSkyAnswer(searchedRegistration(String(url))));
+
+    const first = await resolveRegistrations(['SP-LRA', 'sp lrb', 'N0PE'], T0);
+    expect(first).toEqual(new Map([['SPLRA', '48ae01'], ['SPLRB', '48ae02']]));
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    const second = await resolveRegistrations(['SPLRA', 'N0PE'], T0 + HOUR_MS / 2);
+    expect(second).toEqual(new Map([['SPLRA', '48ae01']]));
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    // Misses are asked again after an hour, hits are kept for a day
+    await resolveRegistrations(['SPLRA', 'N0PE'], T0 + 2 * HOUR_MS);
+    expect(fetchMock.mock.calls.map(([url]) => searchedRegistration(String(url)))).toEqual(['SP-LRA', 'sp lrb', 'N0PE', 'N0PE']);
+  });
+
+  it('does not cache failed lookups', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 503 }));
+    fetchMock.mockRejectedValueOnce(new Error('socket hang up'));
+    expect(await resolveRegistrations(['D-AIBL'], T0)).toEqual(new Map());
+    expect(await resolveRegistrations(['D-AIBL'], T0)).toEqual(new Map());
+
+    fetchMock.mockImplementation(async url => openSkyAnswer(searchedRegistration(String(url))));
+    expect(await resolveRegistrations(['D-AIBL'], T0)).toEqual(new Map([['DAIBL', '3c6444']]));
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('runs a bounded number of lookups side by side', async () => {
+    let active = 0;
+    let mostActive = 0;
+    fetchMock.mockImplementation(async () => {
+      mostActive = Math.max(mostActive, ++active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return Response.json([]);
+    });
+
+    const registrations = Array.from({ length: 30 }, (_, index) => `SP-X${String(index).padStart(2, '0')}`);
+    await resolveRegistrations(registrations, T0);
+
+    expect(fetchMock).toHaveBeenCalledTimes(20);
+    expect(mostActive).toBe(4);
+  });
+});
+
+describe('looksLikeRegistration', () => {
+  it.each(['SP-LRD', 'd-aibl', '9H-AEK', 'B-1234', ' G-EUPT ', 'N12345', 'N123AB'])('accepts %s', value => {
+    expect(looksLikeRegistration(value)).toBe(true);
+  });
+
+  it.each(['SP', 'SP-L', 'SP-LR', 'SPLRD', 'N1', 'LOT3921', 'SP-LRD%'])('rejects %s', value => {
+    expect(looksLikeRegistration(value)).toBe(false);
+  });
+});
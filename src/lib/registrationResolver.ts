@@ -0,0 +1,165 @@
+import { createAdminClient } from '../utils/supabase/admin';
+import { getOpenSkyAccessToken } from './openskyAuth';
+
+// Registrations rarely move to another transponder; misses are retried sooner
+// in case the databases catch up
+const RESOLVED_TTL_MS = 24 * 60 * 60 * 1000;
+const UNRESOLVED_TTL_MS = 60 * 60 * 1000;
+const OPENSKY_TIMEOUT_MS = 3000;
+// A few OpenSky lookups run side by side, which keeps a cold page under a few
+// seconds without bursting past its rate limit
+const MAX_OPENSKY_LOOKUPS = 20;
+const OPENSKY_CONCURRENCY = 4;
+const MAX_CACHED_REGISTRATIONS = 5000;
+
+// Least recently used entries are evicted first; Map keeps insertion order, so
+// reads move an entry to the end
+const cache = new Map<string, { icao24: string | null; expiresAt: number }>();
+
+function readCache(normalized: string, now: number) {
+  const cached = cache.get(normalized);
+  if (!cached) return undefined;
+  cache.delete(normalized);
+  if (cached.expiresAt <= now) return undefined;
+  cache.set(normalized, cached);
+  return cached;
+}
+
+function writeCache(normalized: string, icao24: string | null, now: number) {
+  cache.delete(normalized);
+  cache.set(normalized, { icao24, expiresAt: now + (icao24 ? RESOLVED_TTL_MS : UNRESOLVED_TTL_MS) });
+  while (cache.size > MAX_CACHED_REGISTRATIONS) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+// "SP-LRD", "sp lrd" and "SPLRD" are the same aircraft
+export const normalizeRegistration = (registration: string) => registration.replace(/[^A-Z0-9]/gi, '').toUpperCase();
+
+export const isIcao24 = (value: string) => /^[0-9a-f]{6}$/i.test(value);
+
+// A whole registration rather than the start of one: a one or two character
+// country prefix with its dash ("SP-LRD", "D-AIBL", "9H-AEK") or a US N-number
+export const looksLikeRegistration = (value: string) =>
+  /^[A-Z0-9]{1,2}-[A-Z0-9]{3,5}$/i.test(value.trim()) || /^N[1-9][0-9]{1,4}[A-Z]{0,2}$/i.test(value.trim());
+
+// Spellings to look for in aircraft_metadata, which stores registrations with
+// their dash ("SP-LRD", "D-AIBL", "N12345"). The dash position depends on the
+// country prefix, so both one and two letter prefixes are tried.
+function registrationVariants(registration: string): string[] {
+  const normalized = normalizeRegistration(registration);
+  return [...new Set([
+    registration.trim().toUpperCase(),
+    normalized,
+    `${normalized.slice(0, 1)}-${normalized.slice(1)}`,
+    `${normalized.slice(0, 2)}-${normalized.slice(2)}`,
+  ])];
+}
+
+async function lookupInMetadataTable(registrations: string[]): Promise<Map<string, string>> {
+  const found = new Map<string, string>();
+  const supabase = createAdminClient();
+  if (!supabase || registrations.length === 0) return found;
+
+  const { data, error } = await supabase
+    .from('aircraft_metadata')
+    .select('icao24, registration')
+    .in('registration', registrations.flatMap(registrationVariants));
+
+  if (error) {
+    console.error('lookupInMetadataTable: Error querying aircraft_metadata:', error);
+    return found;
+  }
+
+  for (const row of data ?? []) {
+    if (row.icao24 && row.registration && isIcao24(row.icao24)) {
+      found.set(normalizeRegistration(row.registration), row.icao24.toLowerCase());
+    }
+  }
+  return found;
+}
+
+// OpenSky's aircraft database search, the same data the metadata endpoint
+// serves by icao24. Resolves to null when OpenSky does not know the
+// registration and to undefined when it could not be asked (error, timeout).
+async function lookupInOpenSky(registration: string): Promise<string | null | undefined> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), OPENSKY_TIMEOUT_MS);
+  try {
+    const token = await getOpenSkyAccessToken().catch(() => null);
+    const response = await fetch(
+      `https://opensky-network.org/api/metadata/aircraft/list?n=10&p=1&q=${encodeURIComponent(registration.trim())}`,
+      { signal: controller.signal, headers: token ? { 'Authorization': `Bearer ${token}` } : undefined }
+    );
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      console.log(`lookupInOpenSky: HTTP ${response.status} for ${registration}`);
+      return undefined;
+    }
+
+    const data = await response.json();
+    const aircraft: { icao24?: string; registration?: string }[] = Array.isArray(data) ? data : data?.content ?? [];
+    const normalized = normalizeRegistration(registration);
+    const match = aircraft.find(entry =>
+      entry.registration && entry.icao24 && normalizeRegistration(entry.registration) === normalized && isIcao24(entry.icao24)
+    );
+    return match ? match.icao24!.toLowerCase() : null;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      console.error(`lookupInOpenSky: Timeout for ${registration}`);
+    } else {
+      console.error('lookupInOpenSky: Error:', error);
+    }
+    return undefined;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Maps registrations to icao24 hex codes through aircraft_metadata, then the
+// OpenSky aircraft database, caching answers (including misses, but not failed
+// lookups). The result is keyed by normalized registration and only contains
+// the ones that resolved.
+export async function resolveRegistrations(registrations: string[], now = Date.now()): Promise<Map<string, string>> {
+  const resolved = new Map<string, string>();
+  const pending = new Map<string, string>();
+
+  for (const registration of registrations) {
+    const normalized = normalizeRegistration(registration);
+    if (!normalized) continue;
+
+    const cached = readCache(normalized, now);
+    if (cached) {
+      if (cached.icao24) resolved.set(normalized, cached.icao24);
+    } else {
+      pending.set(normalized, registration);
+    }
+  }
+  if (pending.size === 0) return resolved;
+
+  const remember = (normalized: string, icao24: string | null) => {
+    writeCache(normalized, icao24, now);
+    if (icao24) resolved.set(normalized, icao24);
+    pending.delete(normalized);
+  };
+
+  const fromTable = await lookupInMetadataTable([...pending.values()]);
+  for (const [normalized, icao24] of fromTable) {
+    if (pending.has(normalized)) remember(normalized, icao24);
+  }
+
+  const queue = [...pending].slice(0, MAX_OPENSKY_LOOKUPS);
+  const lookUpQueued = async () => {
+    for (let next = queue.shift(); next; next = queue.shift()) {
+      const [normalized, registration] = next;
+      const icao24 = await lookupInOpenSky(registration);
+      if (icao24 !== undefined) remember(normalized, icao24);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(OPENSKY_CONCURRENCY, queue.length) }, lookUpQueued));
+
+  if (pending.size > 0) {
+    console.log(`resolveRegistrations: ${pending.size} registrations left for a later request`);
+  }
+  return resolved;
+}
@@ -0,0 +1,116 @@
+import { FlightState, FlightTrackPoint } from '../types';
+
+// Recorded states per aircraft, each list sorted by time_position
+export interface ReplayTimeline {
+  start: number;
+  end: number;
+  aircraft: Map<string, FlightState[]>;
+}
+
+// Samples further apart than this aren't interpolated across; the aircraft is
+// hidden in between (it left the area or the recorder missed it)
+const MAX_INTERPOLATION_GAP_SECONDS = 5 * 60;
+// How long an aircraft stays on the map after its last sample
+const HOLD_AFTER_LAST_SAMPLE_SECONDS = 60;
+
+const sampleTime = (state: FlightState) => state.time_position ?? state.last_contact;
+
+export function buildReplayTimeline(snapshots: FlightState[], start: number, end: number): ReplayTimeline {
+  const aircraft = new Map<string, FlightState[]>();
+  for (const state of snapshots) {
+    const samples = aircraft.get(state.icao24);
+    if (samples) samples.push(state);
+    else aircraft.set(state.icao24, [state]);
+  }
+  aircraft.forEach(samples => samples.sort((a, b) => sampleTime(a) - sampleTime(b)));
+  return { start, end, aircraft };
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const lerpNullable = (a: number | null, b: number | null, t: number): number | null =>
+  a !== null && b !== null ? lerp(a, b, t) : (t < 0.5 ? a : b);
+
+// Interpolates headings and longitudes along the shorter way round
+export const lerpAngle = (a: number, b: number, t: number): number => {
+  const delta = ((b - a + 540) % 360) - 180;
+  return a + delta * t;
+};
+
+const normalizeLongitude = (lon: number) => ((lon + 540) % 360) - 180;
+
+export function interpolateFlightState(before: FlightState, after: FlightState, time: number): FlightState {
+  const span = sampleTime(after) - sampleTime(before);
+  const t = span > 0 ? Math.min(1, Math.max(0, (time - sampleTime(before)) / span)) : 1;
+  const base = t < 0.5 ? before : after;
+
+  return {
+    ...base,
+    time_position: time,
+    last_contact: time,
+    latitude: lerp(before.latitude, after.latitude, t),
+    longitude: normalizeLongitude(lerpAngle(before.longitude, after.longitude, t)),
+    baro_altitude: lerpNullable(before.baro_altitude, after.baro_altitude, t),
+    geo_altitude: lerpNullable(before.geo_altitude, after.geo_altitude, t),
+    velocity: lerpNullable(before.velocity, after.velocity, t),
+    vertical_rate: lerpNullable(before.vertical_rate, after.vertical_rate, t),
+    true_track: before.true_track !== null && after.true_track !== null
+      ? (lerpAngle(before.true_track, after.true_track, t) + 360) % 360
+      : base.true_track,
+  };
+}
+
+// Finds the last sample at or before time (binary search)
+function findSampleIndex(samples: FlightState[], time: number): number {
+  let low = 0;
+  let high = samples.length - 1;
+  let result = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (sampleTime(samples[mid]) <= time) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return result;
+}
+
+// Positions of every aircraft at the given time (Unix seconds)
+export function getReplayFrame(timeline: ReplayTimeline, time: number): FlightState[] {
+  const frame: FlightState[] = [];
+
+  timeline.aircraft.forEach(samples => {
+    const index = findSampleIndex(samples, time);
+    if (index < 0) return;
+
+    const before = samples[index];
+    const after = samples[index + 1];
+    if (after && sampleTime(after) - sampleTime(before) <= MAX_INTERPOLATION_GAP_SECONDS) {
+      frame.push(interpolateFlightState(before, after, time));
+    } else if (time - sampleTime(before) <= HOLD_AFTER_LAST_SAMPLE_SECONDS) {
+      frame.push(before);
+    }
+  });
+
+  return frame;
+}
+
+// Recorded path of one aircraft up to the given time, for the selected track
+export function getReplayTrack(timeline: ReplayTimeline, icao24: string, time: number): FlightTrackPoint[] {
+  const samples = timeline.aircraft.get(icao24) ?? [];
+  return samples
+    .filter(state => sampleTime(state) <= time)
+    .map(state => ({
+      time: sampleTime(state),
+      latitude: state.latitude,
+      longitude: state.longitude,
+      baro_altitude: state.baro_altitude,
+      true_track: state.true_track,
+      on_ground: state.on_ground,
+      velocity: state.velocity,
+      vertical_rate: state.vertical_rate,
+      callsign: state.callsign ?? undefined,
+    }));
+}
@@ -0,0 +1,74 @@
+import type { FlightFilters } from '../components/ClientMap';
+import { AirportFilterType, BoundingBox, MapViewport } from '../types';
+import { normalizeLongitude } from './geo';
+import { NotificationChannel } from './notifications/types';
+
+export const SAVED_VIEWS_TABLE = 'saved_views';
+
+// A named map view; with isWatchArea set, aircraft matching its flight filters
+// that enter its bounds alert the owner through watchChannels
+export interface SavedView {
+  id: number;
+  name: string;
+  bounds: BoundingBox;
+  zoom: number;
+  flightFilters: Partial<FlightFilters>;
+  airportFilter: AirportFilterType | null;
+  isWatchArea: boolean;
+  watchChannels: NotificationChannel[];
+}
+
+// Row of saved_views
+export interface SavedViewRow {
+  id: number;
+  user_id: string;
+  name: string;
+  lamin: number;
+  lomin: number;
+  lamax: number;
+  lomax: number;
+  zoom: number;
+  flight_filters: Partial<FlightFilters>;
+  airport_filter: Partial<AirportFilterType>;
+  is_watch_area: boolean;
+  watch_channels: NotificationChannel[];
+}
+
+export const SAVED_VIEW_COLUMNS = 'id, user_id, name, lamin, lomin, lamax, lomax, zoom, flight_filters, airport_filter, is_watch_area, watch_channels';
+
+export function savedViewFromRow(row: SavedViewRow): SavedView {
+  const airportFilter = row.airport_filter;
+  return {
+    id: row.id,
+    name: row.name,
+    bounds: { lamin: row.lamin, lomin: row.lomin, lamax: row.lamax, lomax: row.lomax },
+    zoom: row.zoom,
+    flightFilters: row.flight_filters ?? {},
+    airportFilter: airportFilter?.sizes && airportFilter.types && airportFilter.continents
+      ? { sizes: airportFilter.sizes, types: airportFilter.types, continents: airportFilter.continents }
+      : null,
+    isWatchArea: row.is_watch_area,
+    watchChannels: row.watch_channels ?? [],
+  };
+}
+
+// Map bounds as stored: Leaflet reports longitudes past ±180 once the map is
+// panned across the antimeridian, saved views keep them within range (a view
+// crossing it has lomin > lomax)
+export function normalizeViewBounds(bounds: BoundingBox): BoundingBox {
+  const lamin = Math.max(-90, bounds.lamin);
+  const lamax = Math.min(90, bounds.lamax);
+  if (bounds.lomax - bounds.lomin >= 360) return { lamin, lomin: -180, lamax, lomax: 180 };
+  return { lamin, lomin: normalizeLongitude(bounds.lomin), lamax, lomax: normalizeLongitude(bounds.lomax) };
+}
+
+// Center and zoom to show a saved view
+export function savedViewViewport(view: SavedView): MapViewport {
+  const { lamin, lomin, lamax, lomax } = view.bounds;
+  const lonSpan = lomin <= lomax ? lomax - lomin : lomax + 360 - lomin;
+  return {
+    latitude: (lamin + lamax) / 2,
+    longitude: normalizeLongitude(lomin + lonSpan / 2),
+    zoom: view.zoom,
+  };
+}
@@ -0,0 +1,141 @@
+import { Airport, AirportSize, FlightState, SearchResult } from '../types';
+import { getFlightDataProvider } from './flightProviders';
+import { getAirportIndex } from './airportIndex';
+import { createAdminClient } from '../utils/supabase/admin';
+import { flightToSearchResult, searchFlightStates } from './flightSearch';
+import { looksLikeRegistration, normalizeRegistration, resolveRegistrations } from './registrationResolver';
+
+// World-wide states are large; searches within this window share one download
+const WORLD_STATES_CACHE_MS = 60 * 1000;
+const MIN_QUERY_LENGTH = 2;
+const MAX_FLIGHT_RESULTS = 8;
+const MAX_AIRCRAFT_RESULTS = 5;
+const MAX_AIRPORT_RESULTS = 5;
+
+const AIRPORT_SIZE_RANK: Record<AirportSize, number> = { large: 0, medium: 1, small: 2 };
+
+let worldStates: { states: FlightState[]; timestamp: number } | null = null;
+let pendingWorldStates: Promise<FlightState[]> | null = null;
+
+// Every aircraft the provider currently reports, shared with the emergency
+// list. A download costs several provider credits, so callers that poll pass a
+// longer maxAgeMs.
+export async function getWorldStates(maxAgeMs = WORLD_STATES_CACHE_MS): Promise<FlightState[]> {
+  if (worldStates && Date.now() - worldStates.timestamp < maxAgeMs) return worldStates.states;
+  if (!pendingWorldStates) {
+    pendingWorldStates = getFlightDataProvider().fetchStates()
+      .then(states => {
+        worldStates = { states, timestamp: Date.now() };
+        return states;
+      })
+      .catch(error => {
+        console.error('getWorldStates: Failed to fetch states:', error);
+        return worldStates?.states ?? [];
+      })
+      .finally(() => {
+        pendingWorldStates = null;
+      });
+  }
+  return pendingWorldStates;
+}
+
+// The last world-wide download if it is younger than maxAgeMs, without
+// fetching a new one; empty otherwise
+export function peekWorldStates(maxAgeMs: number): FlightState[] {
+  return worldStates && Date.now() - worldStates.timestamp < maxAgeMs ? worldStates.states : [];
+}
+
+// Query text is matched literally, not as LIKE wildcards
+const escapeLikePattern = (text: string) => text.replace(/[\\%_]/g, '\\$&');
+
+// Registrations starting with the query, plus an exact match resolved through
+// aircraft_metadata / OpenSky once the query is a whole registration, so partial
+// queries typed on the way there don't each cost an OpenSky lookup. Aircraft
+// that are airborne right now become flights.
+async function searchRegistrations(query: string, states: FlightState[]): Promise<SearchResult[]> {
+  const normalized = normalizeRegistration(query);
+  const found = new Map<string, { registration: string; model: string | null }>();
+
+  const supabase = createAdminClient();
+  if (supabase) {
+    const { data, error } = await supabase
+      .from('aircraft_metadata')
+      .select('icao24, registration, model')
+      .ilike('registration', `${escapeLikePattern(query.trim())}%`)
+      .limit(MAX_AIRCRAFT_RESULTS);
+    if (error) {
+      console.error('searchRegistrations: Error querying aircraft_metadata:', error);
+    }
+    for (const row of data ?? []) {
+      if (row.icao24 && row.registration) found.set(row.icao24.toLowerCase(), { registration: row.registration, model: row.model });
+    }
+  }
+
+  if (looksLikeRegistration(query)) {
+    const exact = (await resolveRegistrations([query])).get(normalized);
+    if (exact && !found.has(exact)) found.set(exact, { registration: query.trim().toUpperCase(), model: null });
+  }
+
+  const statesByIcao24 = new Map(states.map(state => [state.icao24.toLowerCase(), state]));
+  return [...found].map(([icao24, { registration, model }]): SearchResult => {
+    const state = statesByIcao24.get(icao24);
+    if (state) {
+      const result = flightToSearchResult(state);
+      return { ...result, label: `${registration} · ${result.label}` };
+    }
+    return {
+      kind: 'aircraft',
+      id: `aircraft-${icao24}`,
+      label: registration,
+      description: [model, icao24, 'not reporting now'].filter(Boolean).join(' · '),
+      icao24,
+    };
+  });
+}
+
+function searchAirports(airports: Airport[], query: string): SearchResult[] {
+  const code = query.trim().toUpperCase();
+  const text = query.trim().toLowerCase();
+
+  return airports
+    .map(airport => ({
+      airport,
+      score: airport.iata === code ? 0
+        : airport.iata.startsWith(code) ? 1
+        : text.length >= 3 && airport.name.toLowerCase().includes(text) ? 2
+        : null,
+    }))
+    .filter((entry): entry is { airport: Airport; score: number } => entry.score !== null)
+    .sort((a, b) =>
+      a.score - b.score ||
+      (a.airport.size ? AIRPORT_SIZE_RANK[a.airport.size] : 3) - (b.airport.size ? AIRPORT_SIZE_RANK[b.airport.size] : 3)
+    )
+    .slice(0, MAX_AIRPORT_RESULTS)
+    .map(({ airport }) => ({
+      kind: 'airport',
+      id: `airport-${airport.id}`,
+      label: `${airport.iata} · ${airport.name}`,
+      description: [airport.country, airport.size ? `${airport.size} ${airport.type}` : airport.type].join(' · '),
+      airport,
+    }));
+}
+
+// Flights world-wide (callsign, flight number, icao24, airline), known
+// aircraft by registration and airports by IATA code or name. An exact
+// airport code comes first, then flights, aircraft and other airports.
+export async function searchEverything(query: string): Promise<SearchResult[]> {
+  if (query.trim().length < MIN_QUERY_LENGTH) return [];
+
+  const states = await getWorldStates();
+  const [index, aircraft] = await Promise.all([getAirportIndex(), searchRegistrations(query, states)]);
+  const flights = searchFlightStates(states, query, MAX_FLIGHT_RESULTS);
+  const airports = searchAirports(index.airports, query);
+
+  const exactAirport = airports.filter(result => result.kind === 'airport' && result.airport.iata === query.trim().toUpperCase());
+  const seen = new Set<string>();
+  return [...exactAirport, ...flights, ...aircraft, ...airports].filter(result => {
+    if (seen.has(result.id)) return false;
+    seen.add(result.id);
+    return true;
+  });
+}
@@ -0,0 +1,382 @@
+import { FlightState, BoundingBox, FlightTrackPoint } from '../types';
+import { getFlightDataProvider } from './flightProviders';
+import { getCountryForIcao24 } from './receivers/icaoCountries';
+import { createAdminClient } from '../utils/supabase/admin';
+import { ingestFlightStates } from './flightEvents';
+import { checkWatchAreas } from './watchAreas';
+import { hasPosition } from './geo';
+import { EMERGENCY_SQUAWKS, isEmergencySquawk } from './squawk';
+
+export const SNAPSHOT_TABLE = 'flight_state_snapshots';
+
+export interface SnapshotRegion {
+  name: string;
+  bounds: BoundingBox;
+}
+
+export interface FlightStateSnapshotRow {
+  icao24: string;
+  recorded_at: string;
+  region: string | null;
+  callsign: string | null;
+  origin_country: string | null;
+  latitude: number;
+  longitude: number;
+  baro_altitude: number | null;
+  geo_altitude: number | null;
+  velocity: number | null;
+  true_track: number | null;
+  vertical_rate: number | null;
+  on_ground: boolean;
+  squawk: string | null;
+  spi: boolean;
+  position_source: number | null;
+  category: number | null;
+}
+
+// Used when SNAPSHOT_REGIONS isn't set: Poland, where the map opens by default
+const DEFAULT_REGIONS: SnapshotRegion[] = [
+  { name: 'poland', bounds: { lamin: 49.0, lomin: 14.1, lamax: 54.9, lomax: 24.2 } },
+];
+
+const INSERT_BATCH_SIZE = 500;
+// A gap longer than this between snapshots starts a new flight
+const TRACK_MAX_GAP_SECONDS = 30 * 60;
+const TRACK_LOOKBACK_HOURS = 24;
+// PostgREST returns at most this many rows per request
+const QUERY_PAGE_SIZE = 1000;
+const MAX_REPLAY_ROWS = 50000;
+// Replays are fetched in this many time slices, each capped at an equal share
+// of MAX_REPLAY_ROWS, so busy periods are thinned instead of cutting off the rest
+const REPLAY_SLICES = 12;
+
+export interface SnapshotReplay {
+  states: FlightState[];
+  // Some slices hit their row cap and are missing samples
+  truncated: boolean;
+}
+
+// SNAPSHOT_REGIONS is a JSON array, e.g.
+// [{"name":"poland","lamin":49,"lomin":14.1,"lamax":54.9,"lomax":24.2}]
+export function getSnapshotRegions(): SnapshotRegion[] {
+  const raw = process.env.SNAPSHOT_REGIONS;
+  if (!raw) return DEFAULT_REGIONS;
+
+  try {
+    const parsed = JSON.parse(raw) as Array<{ name?: string } & Partial<BoundingBox>>;
+    const regions = parsed
+      .filter(region => [region.lamin, region.lomin, region.lamax, region.lomax].every(value => typeof value === 'number'))
+      .map((region, index) => ({
+        name: region.name || `region-${index + 1}`,
+        bounds: { lamin: region.lamin!, lomin: region.lomin!, lamax: region.lamax!, lomax: region.lomax! },
+      }));
+    if (regions.length === 0) {
+      console.warn('getSnapshotRegions: SNAPSHOT_REGIONS has no valid regions, using defaults');
+      return DEFAULT_REGIONS;
+    }
+    return regions;
+  } catch (error) {
+    console.error('getSnapshotRegions: Invalid SNAPSHOT_REGIONS JSON:', error);
+    return DEFAULT_REGIONS;
+  }
+}
+
+export function flightStateToSnapshotRow(state: FlightState, region: string | null): FlightStateSnapshotRow {
+  const positionTime = state.time_position ?? state.last_contact;
+  return {
+    icao24: state.icao24,
+    recorded_at: new Date(positionTime * 1000).toISOString(),
+    region,
+    callsign: state.callsign?.trim() || null,
+    origin_country: state.origin_country || null,
+    latitude: state.latitude,
+    longitude: state.longitude,
+    baro_altitude: state.baro_altitude,
+    geo_altitude: state.geo_altitude,
+    velocity: state.velocity,
+    true_track: state.true_track,
+    vertical_rate: state.vertical_rate,
+    on_ground: state.on_ground,
+    squawk: state.squawk,
+    spi: state.spi,
+    position_source: state.position_source,
+    category: state.category,
+  };
+}
+
+export function snapshotRowToTrackPoint(row: FlightStateSnapshotRow): FlightTrackPoint {
+  return {
+    time: Math.floor(new Date(row.recorded_at).getTime() / 1000),
+    latitude: row.latitude,
+    longitude: row.longitude,
+    baro_altitude: row.baro_altitude,
+    true_track: row.true_track,
+    on_ground: row.on_ground,
+    velocity: row.velocity,
+    vertical_rate: row.vertical_rate,
+    callsign: row.callsign ?? undefined,
+  };
+}
+
+export function snapshotRowToFlightState(row: FlightStateSnapshotRow): FlightState {
+  const time = Math.floor(new Date(row.recorded_at).getTime() / 1000);
+  const country = getCountryForIcao24(row.icao24);
+  return {
+    icao24: row.icao24,
+    callsign: row.callsign,
+    origin_country: row.origin_country || country.country,
+    origin_country_code: country.code,
+    time_position: time,
+    last_contact: time,
+    longitude: row.longitude,
+    latitude: row.latitude,
+    baro_altitude: row.baro_altitude,
+    on_ground: row.on_ground,
+    velocity: row.velocity,
+    true_track: row.true_track,
+    vertical_rate: row.vertical_rate,
+    sensors: null,
+    geo_altitude: row.geo_altitude,
+    squawk: row.squawk,
+    spi: row.spi,
+    position_source: row.position_source ?? 0,
+    category: row.category ?? 0,
+  };
+}
+
+// Fetches every configured region once and stores the positions. Aircraft seen
+// in several regions are written once, under the first region. Watch areas are
+// checked against the same states, so they only see traffic inside the regions.
+export async function recordFlightSnapshots(
+  regions: SnapshotRegion[] = getSnapshotRegions()
+): Promise<{ recorded: number; failedRegions: string[]; areaEntries: number }> {
+  const supabase = createAdminClient();
+  if (!supabase) {
+    throw new Error('Supabase service role is not configured');
+  }
+
+  const provider = getFlightDataProvider();
+  const rows = new Map<string, FlightStateSnapshotRow>();
+  const failedRegions: string[] = [];
+
+  for (const region of regions) {
+    try {
+      // Snapshots, events and watch areas all need a position
+      const states = (await provider.fetchStates(region.bounds)).filter(hasPosition);
+      await ingestFlightStates(states, { bounds: region.bounds });
+      for (const state of states) {
+        if (!rows.has(state.icao24)) {
+          rows.set(state.icao24, flightStateToSnapshotRow(state, region.name));
+        }
+      }
+    } catch (error) {
+      console.error(`recordFlightSnapshots: Failed to fetch region ${region.name}:`, error);
+      failedRegions.push(region.name);
+    }
+  }
+
+  const allRows = Array.from(rows.values());
+  for (let i = 0; i < allRows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from(SNAPSHOT_TABLE)
+      .upsert(allRows.slice(i, i + INSERT_BATCH_SIZE), { onConflict: 'icao24,recorded_at', ignoreDuplicates: true });
+    if (error) {
+      throw new Error(`Failed to store snapshots: ${error.message}`);
+    }
+  }
+
+  const areaEntries = await checkWatchAreas(Array.from(rows.values()).map(snapshotRowToFlightState));
+
+  console.log(`recordFlightSnapshots: Stored ${allRows.length} states from ${regions.length - failedRegions.length}/${regions.length} regions`);
+  return { recorded: allRows.length, failedRegions, areaEntries };
+}
+
+// Runs the retention policy in the database. SNAPSHOT_RETENTION_DAYS (default 30)
+// bounds total history; rows older than SNAPSHOT_DOWNSAMPLE_AFTER_HOURS (default 24)
+// are thinned to one per SNAPSHOT_DOWNSAMPLE_SECONDS (default 60) per aircraft.
+export async function applySnapshotRetention(): Promise<number> {
+  const supabase = createAdminClient();
+  if (!supabase) {
+    throw new Error('Supabase service role is not configured');
+  }
+
+  const { data, error } = await supabase.rpc('apply_flight_state_snapshot_retention', {
+    retention_days: parseInt(process.env.SNAPSHOT_RETENTION_DAYS || '', 10) || 30,
+    downsample_after_hours: parseInt(process.env.SNAPSHOT_DOWNSAMPLE_AFTER_HOURS || '', 10) || 24,
+    bucket_seconds: parseInt(process.env.SNAPSHOT_DOWNSAMPLE_SECONDS || '', 10) || 60,
+  });
+  if (error) {
+    throw new Error(`Snapshot retention failed: ${error.message}`);
+  }
+
+  console.log(`applySnapshotRetention: Removed ${data} rows`);
+  return data as number;
+}
+
+// Builds the most recent flight of an aircraft from recorded snapshots, for
+// when the provider has no track (OpenSky only keeps the current flight).
+export async function fetchSnapshotTrack(icao24: string): Promise<FlightTrackPoint[] | null> {
+  const supabase = createAdminClient();
+  if (!supabase) return null;
+
+  const since = new Date(Date.now() - TRACK_LOOKBACK_HOURS * 3600 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from(SNAPSHOT_TABLE)
+    .select('*')
+    .eq('icao24', icao24.trim().toLowerCase())
+    .gte('recorded_at', since)
+    .order('recorded_at', { ascending: true });
+
+  if (error) {
+    console.error('fetchSnapshotTrack: Error querying snapshots:', error);
+    return null;
+  }
+  if (!data || data.length === 0) return null;
+
+  const points = (data as FlightStateSnapshotRow[]).map(snapshotRowToTrackPoint);
+  let start = points.length - 1;
+  while (start > 0 && points[start].time - points[start - 1].time <= TRACK_MAX_GAP_SECONDS) {
+    start--;
+  }
+  return points.slice(start);
+}
+
+// Most recent recorded state of an aircraft, however old; shown on its page
+// while it isn't reporting
+export async function fetchLastSnapshotState(icao24: string): Promise<FlightState | null> {
+  const supabase = createAdminClient();
+  if (!supabase) return null;
+
+  const { data, error } = await supabase
+    .from(SNAPSHOT_TABLE)
+    .select('*')
+    .eq('icao24', icao24.trim().toLowerCase())
+    .order('recorded_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('fetchLastSnapshotState: Error querying snapshots:', error);
+    return null;
+  }
+  return data ? snapshotRowToFlightState(data as FlightStateSnapshotRow) : null;
+}
+
+// Aircraft that most recently broadcast one of the callsigns, optionally only
+// within the last maxAgeSeconds, or null
+export async function findSnapshotIcao24ByCallsign(callsigns: string[], maxAgeSeconds?: number): Promise<string | null> {
+  const supabase = createAdminClient();
+  if (!supabase || callsigns.length === 0) return null;
+
+  let query = supabase
+    .from(SNAPSHOT_TABLE)
+    .select('icao24')
+    .in('callsign', callsigns);
+  if (maxAgeSeconds !== undefined) {
+    query = query.gte('recorded_at', new Date(Date.now() - maxAgeSeconds * 1000).toISOString());
+  }
+  const { data, error } = await query
+    .order('recorded_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('findSnapshotIcao24ByCallsign: Error querying snapshots:', error);
+    return null;
+  }
+  return data?.icao24 ?? null;
+}
+
+// Aircraft whose latest state recorded in the last maxAgeSeconds carries an
+// emergency squawk. Costs no provider credits, but only covers the snapshot regions.
+export async function fetchRecentEmergencySnapshots(maxAgeSeconds: number): Promise<FlightState[]> {
+  const supabase = createAdminClient();
+  if (!supabase) return [];
+  const since = new Date(Date.now() - maxAgeSeconds * 1000).toISOString();
+
+  const { data: squawking, error } = await supabase
+    .from(SNAPSHOT_TABLE)
+    .select('icao24')
+    .in('squawk', EMERGENCY_SQUAWKS.map(info => info.code))
+    .gte('recorded_at', since)
+    .limit(QUERY_PAGE_SIZE);
+  if (error) {
+    console.error('fetchRecentEmergencySnapshots: Error querying snapshots:', error);
+    return [];
+  }
+  const icao24s = [...new Set((squawking ?? []).map(row => row.icao24 as string))];
+  if (icao24s.length === 0) return [];
+
+  // An aircraft that has since gone back to a normal code no longer counts
+  const { data, error: latestError } = await supabase
+    .from(SNAPSHOT_TABLE)
+    .select('*')
+    .in('icao24', icao24s)
+    .gte('recorded_at', since)
+    .order('recorded_at', { ascending: false })
+    .limit(QUERY_PAGE_SIZE);
+  if (latestError) {
+    console.error('fetchRecentEmergencySnapshots: Error querying snapshots:', latestError);
+    return [];
+  }
+  const latest = new Map<string, FlightStateSnapshotRow>();
+  for (const row of (data ?? []) as FlightStateSnapshotRow[]) {
+    if (!latest.has(row.icao24)) latest.set(row.icao24, row);
+  }
+  return [...latest.values()].filter(row => isEmergencySquawk(row.squawk)).map(snapshotRowToFlightState);
+}
+
+// Recorded states inside bounds between from and to (Unix seconds), oldest first.
+// Windows longer than an hour are thinned server-side so replays stay light.
+export async function fetchSnapshotsInBounds(bounds: BoundingBox, from: number, to: number): Promise<SnapshotReplay> {
+  const supabase = createAdminClient();
+  if (!supabase) return { states: [], truncated: false };
+
+  const windowHours = (to - from) / 3600;
+  const bucketSeconds = windowHours <= 1 ? 0 : windowHours <= 3 ? 15 : windowHours <= 6 ? 30 : 60;
+  const sliceSeconds = Math.ceil((to - from) / REPLAY_SLICES);
+  const sliceLimit = Math.floor(MAX_REPLAY_ROWS / REPLAY_SLICES);
+  const rows: FlightStateSnapshotRow[] = [];
+  let truncated = false;
+
+  for (let sliceStart = from; sliceStart <= to; sliceStart += sliceSeconds) {
+    // Snapshot times are whole seconds, so ending a second early keeps slices apart
+    const sliceEnd = Math.min(to, sliceStart + sliceSeconds - 1);
+    const slice: FlightStateSnapshotRow[] = [];
+
+    while (slice.length < sliceLimit) {
+      const { data, error } = await supabase
+        .rpc('get_flight_state_snapshots_in_bounds', {
+          lamin: bounds.lamin,
+          lomin: bounds.lomin,
+          lamax: bounds.lamax,
+          lomax: bounds.lomax,
+          from_time: new Date(sliceStart * 1000).toISOString(),
+          to_time: new Date(sliceEnd * 1000).toISOString(),
+          bucket_seconds: bucketSeconds,
+        })
+        .range(slice.length, Math.min(slice.length + QUERY_PAGE_SIZE, sliceLimit) - 1);
+
+      if (error) {
+        console.error('fetchSnapshotsInBounds: Error querying snapshots:', error);
+        break;
+      }
+      slice.push(...(data as FlightStateSnapshotRow[]));
+      if (data.length < QUERY_PAGE_SIZE) break;
+    }
+
+    if (slice.length >= sliceLimit) truncated = true;
+    rows.push(...slice);
+  }
+
+  if (truncated) {
+    console.warn(`fetchSnapshotsInBounds: Some slices hit the ${sliceLimit} row cap`);
+  }
+
+  return {
+    states: rows
+      .map(snapshotRowToFlightState)
+      .sort((a, b) => (a.time_position ?? 0) - (b.time_position ?? 0)),
+    truncated,
+  };
+}
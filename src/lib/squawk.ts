@@ -0,0 +1,44 @@
+import { FlightState } from '../types';
+import { NotificationChannel } from './notifications/types';
+
+export type EmergencySquawk = '7500' | '7600' | '7700';
+
+export const EMERGENCY_SUBSCRIPTIONS_TABLE = 'emergency_alert_subscriptions';
+
+// Row of emergency_alert_subscriptions
+export interface EmergencyAlertSubscription {
+  user_id: string;
+  squawks: EmergencySquawk[];
+  channels: NotificationChannel[];
+  enabled: boolean;
+}
+
+export const EMERGENCY_SQUAWKS: { code: EmergencySquawk; label: string; color: string }[] = [
+  { code: '7500', label: 'Unlawful interference', color: '#7c2d12' },
+  { code: '7600', label: 'Radio failure', color: '#d97706' },
+  { code: '7700', label: 'General emergency', color: '#dc2626' },
+];
+
+// Colour of the SPI ("ident") highlight, set briefly when ATC asks the pilot to squawk ident
+export const SPI_COLOR = '#2563eb';
+
+export const isEmergencySquawk = (squawk: string | null | undefined): squawk is EmergencySquawk =>
+  squawk === '7500' || squawk === '7600' || squawk === '7700';
+
+export const getEmergencySquawkInfo = (squawk: string | null | undefined) =>
+  EMERGENCY_SQUAWKS.find(info => info.code === squawk) ?? null;
+
+// What to highlight an aircraft for, emergencies first
+export function getSquawkAlert(flight: Pick<FlightState, 'squawk' | 'spi'>): { kind: 'emergency' | 'spi'; label: string; color: string } | null {
+  const emergency = getEmergencySquawkInfo(flight.squawk);
+  if (emergency) return { kind: 'emergency', label: `${emergency.code} ${emergency.label}`, color: emergency.color };
+  if (flight.spi) return { kind: 'spi', label: 'Ident (SPI)', color: SPI_COLOR };
+  return null;
+}
+
+// e.g. "Squawk 2000 → 7700 (General emergency)"
+export function describeSquawkChange(previous: string | null, squawk: string): string {
+  const emergency = getEmergencySquawkInfo(squawk);
+  const change = previous ? `Squawk ${previous} → ${squawk}` : `Squawking ${squawk}`;
+  return emergency ? `${change} (${emergency.label})` : change;
+}
@@ -0,0 +1,133 @@
+import { FlightState } from '../types';
+import { createAdminClient } from '../utils/supabase/admin';
+import { isInBounds } from './geo';
+import { FlightMatchFilters, matchesFlightFilters } from './flightFilters';
+import { ALL_POSITION_SOURCES } from './positionSource';
+import { SAVED_VIEWS_TABLE, SAVED_VIEW_COLUMNS, SavedView, SavedViewRow, savedViewFromRow } from './savedViews';
+import { DELIVERIES_TABLE, deliveryDedupKey, getBaseUrl } from './notifications/dispatcher';
+import { NotificationMessage } from './notifications/types';
+
+export const WATCH_AREA_AIRCRAFT_TABLE = 'watch_area_aircraft';
+
+// An aircraft not seen inside an area for this long has left it; seeing it
+// again afterwards is a new entry
+const WATCH_AREA_EXIT_MINUTES = 10;
+
+// Filters a view saved without them falls back to, as on the map
+const DEFAULT_WATCH_FILTERS: FlightMatchFilters = {
+  hideOnGround: true,
+  minAltitude: 0,
+  positionSources: ALL_POSITION_SOURCES,
+};
+
+type WatchArea = SavedView & { userId: string };
+
+const FT_PER_M = 3.28084;
+
+export function buildAreaEntryMessage(area: WatchArea, flight: FlightState, time: string): NotificationMessage {
+  const callsign = flight.callsign?.trim() || null;
+  const label = callsign ?? flight.icao24;
+  const altitude = flight.on_ground
+    ? 'on the ground'
+    : flight.baro_altitude != null ? `at ${Math.round(flight.baro_altitude * FT_PER_M).toLocaleString('en-US')} ft` : null;
+
+  return {
+    event: 'AREA_ENTRY',
+    title: `${label} entered ${area.name}`,
+    body: [`${label} (${flight.icao24}) entered watch area ${area.name}`, altitude].filter(Boolean).join(' ') + '.',
+    url: `${getBaseUrl()}/flight/${flight.icao24}`,
+    item: { id: area.id, type: 'WATCH_AREA', value: area.name },
+    icao24: flight.icao24,
+    callsign,
+    time,
+  };
+}
+
+// Aircraft of a poll that are inside the area and match its flight filters
+export function findAircraftInArea(area: SavedView, states: FlightState[]): FlightState[] {
+  const filters = { ...DEFAULT_WATCH_FILTERS, ...area.flightFilters };
+  return states.filter(state =>
+    isInBounds(state.latitude, state.longitude, area.bounds) && matchesFlightFilters(state, filters)
+  );
+}
+
+// Compares one poll of flight states with the aircraft last seen inside each
+// watch area and queues an AREA_ENTRY notification for every new arrival.
+// Returns the number of entries, 0 when Supabase isn't configured.
+export async function checkWatchAreas(states: FlightState[], now = new Date()): Promise<number> {
+  const supabase = createAdminClient();
+  if (!supabase) return 0;
+
+  const { data, error } = await supabase
+    .from(SAVED_VIEWS_TABLE)
+    .select(SAVED_VIEW_COLUMNS)
+    .eq('is_watch_area', true);
+  if (error) {
+    console.error('checkWatchAreas: Failed to load watch areas:', error);
+    return 0;
+  }
+
+  const areas: WatchArea[] = (data as SavedViewRow[]).map(row => ({ ...savedViewFromRow(row), userId: row.user_id }));
+  if (areas.length === 0) return 0;
+
+  const staleBefore = new Date(now.getTime() - WATCH_AREA_EXIT_MINUTES * 60 * 1000).toISOString();
+  const { data: presentRows, error: presentError } = await supabase
+    .from(WATCH_AREA_AIRCRAFT_TABLE)
+    .select('saved_view_id, icao24')
+    .in('saved_view_id', areas.map(area => area.id))
+    .gte('last_seen_at', staleBefore);
+  if (presentError) {
+    console.error('checkWatchAreas: Failed to load aircraft inside watch areas:', presentError);
+    return 0;
+  }
+  const present = new Set((presentRows ?? []).map(row => `${row.saved_view_id}:${row.icao24}`));
+
+  const time = now.toISOString();
+  const seen = [];
+  const deliveries = [];
+  let entries = 0;
+  for (const area of areas) {
+    for (const flight of findAircraftInArea(area, states)) {
+      seen.push({ saved_view_id: area.id, icao24: flight.icao24, last_seen_at: time });
+      if (present.has(`${area.id}:${flight.icao24}`)) continue;
+
+      entries++;
+      const message = buildAreaEntryMessage(area, flight, time);
+      for (const channel of area.watchChannels) {
+        deliveries.push({
+          dedup_key: deliveryDedupKey(`area${area.id}-${flight.icao24}`, 'AREA_ENTRY', channel, time),
+          user_id: area.userId,
+          saved_view_id: area.id,
+          event: 'AREA_ENTRY',
+          channel,
+          payload: message,
+        });
+      }
+    }
+  }
+
+  // Aircraft that left count as new entries next time
+  await supabase.from(WATCH_AREA_AIRCRAFT_TABLE).delete().lt('last_seen_at', staleBefore);
+  if (seen.length > 0) {
+    const { error: seenError } = await supabase
+      .from(WATCH_AREA_AIRCRAFT_TABLE)
+      .upsert(seen, { onConflict: 'saved_view_id,icao24' });
+    if (seenError) {
+      console.error('checkWatchAreas: Failed to store aircraft inside watch areas:', seenError);
+      return 0;
+    }
+  }
+  if (deliveries.length > 0) {
+    const { error: insertError } = await supabase
+      .from(DELIVERIES_TABLE)
+      .upsert(deliveries, { onConflict: 'dedup_key', ignoreDuplicates: true });
+    if (insertError) {
+      console.error('checkWatchAreas: Failed to enqueue notifications:', insertError);
+    }
+  }
+
+  if (entries > 0) {
+    console.log(`checkWatchAreas: ${entries} aircraft entered ${areas.length} watch areas`);
+  }
+  return entries;
+}
@@ -20,6 +20,14 @@ export interface FlightState {
   category: number;
 }
 
+// Origin of a state vector's position, as reported in FlightState.position_source
+export enum PositionSource {
+  ADSB = 0,
+  ASTERIX = 1,
+  MLAT = 2,
+  FLARM = 3,
+}
+
 export interface BoundingBox {
   lamin: number;
   lomin: number;
@@ -27,18 +35,33 @@ export interface BoundingBox {
   lomax: number;
 }
 
+export type AirportSize = 'large' | 'medium' | 'small';
+
+export type AirportKind = 'airport' | 'heliport' | 'seaplane';
+
+export type Continent = 'AF' | 'AN' | 'AS' | 'EU' | 'NA' | 'OC' | 'SA';
+
 export interface Airport {
-  icao: string;
-  iata: string | null;
+  // Unique key; the IATA code, suffixed when the source lists a code twice
+  id: string;
+  iata: string;
   name: string;
-  city: string;
-  state: string;
+  // ISO 3166-1 alpha-2 country code
   country: string;
+  continent: Continent;
+  type: AirportKind;
+  // Only set for type 'airport'
+  size: AirportSize | null;
   lat: number;
   lon: number;
 }
 
-export type AirportFilterType = 'all' | 'main';
+// Empty lists match everything
+export interface AirportFilterType {
+  sizes: AirportSize[];
+  types: AirportKind[];
+  continents: Continent[];
+}
 
 export interface FlightTrackPoint {
   time: number;
@@ -52,6 +75,17 @@ export interface FlightTrackPoint {
   callsign?: string;
 }
 
+// One flight of an aircraft, from takeoff (or first contact) to landing
+export interface AircraftFlight {
+  callsign: string | null;
+  // Unix seconds
+  firstSeen: number;
+  lastSeen: number;
+  // Estimated ICAO airport codes, null when unknown
+  departureAirport: string | null;
+  arrivalAirport: string | null;
+}
+
 export interface FlightRouteInfo {
   departureAirport: string | null;
   arrivalAirport: string | null;
@@ -68,3 +102,26 @@ export interface AircraftMetadata {
   engineType?: string | null;
   photoUrl?: string | null;
 }
+
+// Entry in the map search autocomplete
+export type SearchResult =
+  | { kind: 'flight'; id: string; label: string; description: string; flight: FlightState }
+  // Known aircraft (e.g. by registration) that isn't reporting a position right now
+  | { kind: 'aircraft'; id: string; label: string; description: string; icao24: string }
+  | { kind: 'airport'; id: string; label: string; description: string; airport: Airport };
+
+// Where the map should fly to; a new object triggers a new flight
+export interface MapFocusTarget {
+  latitude: number;
+  longitude: number;
+  zoom?: number;
+  // Airport whose popup is opened once its marker is on the map
+  airportId?: string;
+}
+
+// Visible map center and zoom level
+export interface MapViewport {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+}
@@ -0,0 +1,88 @@
+-- Create flight_state_snapshots table: our own position history, recorded
+-- periodically from the flight data provider for the configured regions
+CREATE TABLE IF NOT EXISTS flight_state_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    icao24 VARCHAR(6) NOT NULL,
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    region VARCHAR(100),
+    callsign VARCHAR(20),
+    origin_country VARCHAR(100),
+    latitude DOUBLE PRECISION NOT NULL,
+    longitude DOUBLE PRECISION NOT NULL,
+    baro_altitude REAL,
+    geo_altitude REAL,
+    velocity REAL,
+    true_track REAL,
+    vertical_rate REAL,
+    on_ground BOOLEAN DEFAULT false,
+    squawk VARCHAR(4),
+    spi BOOLEAN DEFAULT false,
+    position_source SMALLINT,
+    category SMALLINT,
+    -- Set once the row has been through downsampling
+    downsampled BOOLEAN DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per aircraft per position timestamp, so overlapping regions and
+-- repeated polls of an unchanged state don't duplicate history
+CREATE UNIQUE INDEX IF NOT EXISTS idx_flight_state_snapshots_icao24_recorded_at ON flight_state_snapshots(icao24, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_flight_state_snapshots_recorded_at ON flight_state_snapshots(recorded_at);
+CREATE INDEX IF NOT EXISTS idx_flight_state_snapshots_pending_downsample ON flight_state_snapshots(recorded_at) WHERE downsampled = false;
+
+-- Snapshots are written with the service role key only
+ALTER TABLE flight_state_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Flight state snapshots are readable by everyone"
+    ON flight_state_snapshots FOR SELECT
+    USING (true);
+
+-- Retention: deletes everything older than retention_days, and thins rows older
+-- than downsample_after_hours to one per aircraft per bucket_seconds.
+-- Returns the number of deleted rows.
+CREATE OR REPLACE FUNCTION apply_flight_state_snapshot_retention(
+    retention_days INTEGER DEFAULT 30,
+    downsample_after_hours INTEGER DEFAULT 24,
+    bucket_seconds INTEGER DEFAULT 60
+)
+RETURNS INTEGER AS $$
+DECLARE
+    downsample_cutoff TIMESTAMP WITH TIME ZONE := NOW() - make_interval(hours => downsample_after_hours);
+    window_start TIMESTAMP WITH TIME ZONE;
+    expired_count INTEGER;
+    thinned_count INTEGER;
+BEGIN
+    DELETE FROM flight_state_snapshots
+    WHERE recorded_at < NOW() - make_interval(days => retention_days);
+    GET DIAGNOSTICS expired_count = ROW_COUNT;
+
+    SELECT MIN(recorded_at) INTO window_start
+    FROM flight_state_snapshots
+    WHERE downsampled = false AND recorded_at < downsample_cutoff;
+
+    IF window_start IS NULL THEN
+        RETURN expired_count;
+    END IF;
+
+    -- Already downsampled rows take part in ranking so a bucket split across
+    -- two runs still keeps a single row
+    DELETE FROM flight_state_snapshots s
+    USING (
+        SELECT id, ROW_NUMBER() OVER (
+            PARTITION BY icao24, FLOOR(EXTRACT(EPOCH FROM recorded_at) / bucket_seconds)
+            ORDER BY downsampled DESC, recorded_at
+        ) AS bucket_rank
+        FROM flight_state_snapshots
+        WHERE recorded_at >= window_start - make_interval(secs => bucket_seconds)
+          AND recorded_at < downsample_cutoff
+    ) ranked
+    WHERE s.id = ranked.id AND ranked.bucket_rank > 1;
+    GET DIAGNOSTICS thinned_count = ROW_COUNT;
+
+    UPDATE flight_state_snapshots
+    SET downsampled = true
+    WHERE downsampled = false AND recorded_at < downsample_cutoff;
+
+    RETURN expired_count + thinned_count;
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,28 @@
+-- Snapshots inside a bounding box and time window, for replaying the map.
+-- With bucket_seconds > 0 only the first snapshot per aircraft per bucket is
+-- returned, which keeps long windows at a manageable size. Rows come in time
+-- order, so a caller that stops paging early loses the end of the window rather
+-- than whole aircraft.
+CREATE OR REPLACE FUNCTION get_flight_state_snapshots_in_bounds(
+    lamin DOUBLE PRECISION,
+    lomin DOUBLE PRECISION,
+    lamax DOUBLE PRECISION,
+    lomax DOUBLE PRECISION,
+    from_time TIMESTAMP WITH TIME ZONE,
+    to_time TIMESTAMP WITH TIME ZONE,
+    bucket_seconds INTEGER DEFAULT 0
+)
+RETURNS SETOF flight_state_snapshots AS $$
+    SELECT DISTINCT ON (bucket, s.icao24) s.*
+    FROM flight_state_snapshots s,
+        LATERAL (
+            SELECT CASE
+                WHEN bucket_seconds > 0 THEN FLOOR(EXTRACT(EPOCH FROM s.recorded_at) / bucket_seconds)
+                ELSE EXTRACT(EPOCH FROM s.recorded_at)
+            END AS bucket
+        ) b
+    WHERE s.recorded_at BETWEEN from_time AND to_time
+      AND s.latitude BETWEEN lamin AND lamax
+      AND s.longitude BETWEEN lomin AND lomax
+    ORDER BY bucket, s.icao24, s.recorded_at;
+$$ language 'sql' STABLE;
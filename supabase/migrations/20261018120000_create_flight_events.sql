@@ -0,0 +1,27 @@
+-- Create flight_events table: takeoffs, landings and other events detected
+-- from consecutive flight states, kept per aircraft
+CREATE TABLE IF NOT EXISTS flight_events (
+    -- "<icao24>-<type>-<unix time>", so re-detecting the same event is a no-op
+    id VARCHAR(64) PRIMARY KEY,
+    icao24 VARCHAR(6) NOT NULL,
+    type VARCHAR(32) NOT NULL CHECK (type IN ('TAKEOFF', 'LANDING', 'GO_AROUND', 'DIVERSION_SUSPECTED', 'SIGNAL_LOST')),
+    callsign VARCHAR(20),
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    latitude DOUBLE PRECISION NOT NULL,
+    longitude DOUBLE PRECISION NOT NULL,
+    altitude REAL,
+    airport VARCHAR(4),
+    airport_distance_km REAL,
+    details TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_flight_events_icao24_occurred_at ON flight_events(icao24, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_flight_events_occurred_at ON flight_events(occurred_at);
+
+-- Events are written with the service role key only
+ALTER TABLE flight_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Flight events are readable by everyone"
+    ON flight_events FOR SELECT
+    USING (true);
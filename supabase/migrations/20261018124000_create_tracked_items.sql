@@ -0,0 +1,24 @@
+-- Registrations and flight numbers users follow on the tracking page; the
+-- flight-status-checker function records their status changes
+-- (20261018125000) and notifications link to them (20261018130000)
+
+CREATE TABLE IF NOT EXISTS tracked_items (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    type VARCHAR(16) NOT NULL CHECK (type IN ('REGISTRATION', 'FLIGHT_NUMBER')),
+    value VARCHAR(20) NOT NULL,
+    notify_on_land BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- Adding the same item twice fails with 23505, which AircraftTracker reports
+    UNIQUE (user_id, type, value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tracked_items_notify_on_land ON tracked_items(notify_on_land) WHERE notify_on_land;
+
+-- Users only see and change their own items
+ALTER TABLE tracked_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their tracked items"
+    ON tracked_items FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,24 @@
+-- Status changes recorded for tracked items (20261018124000) by the
+-- flight-status-checker function
+
+-- Newest row per item is the current status
+CREATE TABLE IF NOT EXISTS tracked_item_status_history (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    tracked_item_id BIGINT NOT NULL REFERENCES tracked_items(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    previous_status VARCHAR(16) CHECK (previous_status IN ('AIRBORNE', 'ON_GROUND', 'NOT_FOUND')),
+    status VARCHAR(16) NOT NULL CHECK (status IN ('AIRBORNE', 'ON_GROUND', 'NOT_FOUND')),
+    icao24 VARCHAR(6),
+    callsign VARCHAR(20),
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tracked_item_status_history_item ON tracked_item_status_history(tracked_item_id, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tracked_item_status_history_recorded_at ON tracked_item_status_history(recorded_at);
+
+-- Users can read their own rows; rows are written with the service role key only
+ALTER TABLE tracked_item_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their tracked item status history"
+    ON tracked_item_status_history FOR SELECT
+    USING (auth.uid() = user_id);
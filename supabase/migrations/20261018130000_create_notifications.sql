@@ -0,0 +1,91 @@
+-- Notification settings and delivery log for tracked items. Status changes
+-- recorded by the flight-status-checker function are turned into deliveries
+-- (one per item, event and channel) by /api/notifications/dispatch.
+
+-- Which events a tracked item notifies about, and through which channels
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    tracked_item_id BIGINT NOT NULL,
+    event VARCHAR(32) NOT NULL CHECK (event IN ('TAKEOFF', 'LANDING', 'SIGNAL_LOST')),
+    channel VARCHAR(16) NOT NULL CHECK (channel IN ('email', 'push', 'webhook')),
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    UNIQUE (tracked_item_id, event, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_preferences_user_id ON notification_preferences(user_id);
+
+-- Per-user channel configuration; email falls back to the account address
+CREATE TABLE IF NOT EXISTS notification_channels (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    email TEXT,
+    -- The app also refuses hosts that resolve to private addresses
+    webhook_url TEXT CHECK (webhook_url IS NULL OR webhook_url LIKE 'https://%'),
+    -- Used to sign webhook bodies (X-Flight-Tracker-Signature)
+    webhook_secret TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Web Push subscriptions, one per browser
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    endpoint TEXT NOT NULL UNIQUE,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+
+-- One row per notification and channel; doubles as the delivery log
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    -- "<item>-<event>-<channel>-<time bucket>", so repeated transitions within
+    -- the dedup window produce a single notification
+    dedup_key VARCHAR(128) NOT NULL UNIQUE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    tracked_item_id BIGINT NOT NULL,
+    history_id BIGINT,
+    event VARCHAR(32) NOT NULL CHECK (event IN ('TAKEOFF', 'LANDING', 'SIGNAL_LOST')),
+    channel VARCHAR(16) NOT NULL CHECK (channel IN ('email', 'push', 'webhook')),
+    status VARCHAR(16) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    payload JSONB NOT NULL,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_pending ON notification_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user_id ON notification_deliveries(user_id, created_at DESC);
+
+-- Users manage their own settings; deliveries are written with the service role key only
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_channels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Preferences may only be attached to the user's own tracked items
+CREATE POLICY "Users manage their notification preferences"
+    ON notification_preferences FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM tracked_items t WHERE t.id = tracked_item_id AND t.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users manage their notification channels"
+    ON notification_channels FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users manage their push subscriptions"
+    ON push_subscriptions FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can read their notification deliveries"
+    ON notification_deliveries FOR SELECT
+    USING (auth.uid() = user_id);
@@ -0,0 +1,54 @@
+-- Tables behind the account page: user profiles, plus the links from
+-- notifications to tracked items (20261018124000) and their status history
+-- (20261018125000)
+
+-- One profile per auth user, created on sign-up
+CREATE TABLE IF NOT EXISTS profiles (
+    id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    full_name TEXT,
+    avatar_url TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+    INSERT INTO public.profiles (id, full_name, avatar_url)
+    VALUES (NEW.id, NEW.raw_user_meta_data->>'full_name', NEW.raw_user_meta_data->>'avatar_url')
+    ON CONFLICT (id) DO NOTHING;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- Notification settings and deliveries go away with their item
+ALTER TABLE notification_preferences
+    ADD CONSTRAINT notification_preferences_tracked_item_id_fkey
+    FOREIGN KEY (tracked_item_id) REFERENCES tracked_items(id) ON DELETE CASCADE;
+
+ALTER TABLE notification_deliveries
+    ADD CONSTRAINT notification_deliveries_tracked_item_id_fkey
+    FOREIGN KEY (tracked_item_id) REFERENCES tracked_items(id) ON DELETE CASCADE;
+
+ALTER TABLE notification_deliveries
+    ADD CONSTRAINT notification_deliveries_history_id_fkey
+    FOREIGN KEY (history_id) REFERENCES tracked_item_status_history(id) ON DELETE SET NULL;
+
+-- Users only see their own profile
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their profile"
+    ON profiles FOR SELECT
+    USING (auth.uid() = id);
+
+CREATE POLICY "Users can update their profile"
+    ON profiles FOR UPDATE
+    USING (auth.uid() = id)
+    WITH CHECK (auth.uid() = id);
@@ -0,0 +1,58 @@
+-- Named map views saved by users, switched between from the main map. A view
+-- marked as a watch area alerts its owner when an aircraft matching its flight
+-- filters enters its bounding box (evaluated by /api/snapshots).
+
+CREATE TABLE IF NOT EXISTS saved_views (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    name VARCHAR(80) NOT NULL,
+    lamin DOUBLE PRECISION NOT NULL CHECK (lamin BETWEEN -90 AND 90),
+    lomin DOUBLE PRECISION NOT NULL CHECK (lomin BETWEEN -180 AND 180),
+    lamax DOUBLE PRECISION NOT NULL CHECK (lamax BETWEEN -90 AND 90),
+    lomax DOUBLE PRECISION NOT NULL CHECK (lomax BETWEEN -180 AND 180),
+    zoom SMALLINT NOT NULL,
+    -- FlightFilters and AirportFilterType as used by the map
+    flight_filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    airport_filter JSONB NOT NULL DEFAULT '{}'::jsonb,
+    is_watch_area BOOLEAN NOT NULL DEFAULT FALSE,
+    -- Channels an area entry is sent through
+    watch_channels TEXT[] NOT NULL DEFAULT ARRAY['push']::TEXT[]
+        CHECK (watch_channels <@ ARRAY['email', 'push', 'webhook']::TEXT[]),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (lamin < lamax),
+    UNIQUE (user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_views_watch_area ON saved_views(is_watch_area) WHERE is_watch_area;
+
+-- Aircraft currently inside each watch area, so an entry is only alerted once
+-- per visit. Rows not seen for a while are removed and the next sighting
+-- counts as a new entry.
+CREATE TABLE IF NOT EXISTS watch_area_aircraft (
+    saved_view_id BIGINT NOT NULL REFERENCES saved_views(id) ON DELETE CASCADE,
+    icao24 VARCHAR(6) NOT NULL,
+    entered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (saved_view_id, icao24)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watch_area_aircraft_last_seen_at ON watch_area_aircraft(last_seen_at);
+
+-- Area entries go through the same delivery queue as tracked item events
+ALTER TABLE notification_deliveries ALTER COLUMN tracked_item_id DROP NOT NULL;
+ALTER TABLE notification_deliveries
+    ADD COLUMN IF NOT EXISTS saved_view_id BIGINT REFERENCES saved_views(id) ON DELETE CASCADE;
+ALTER TABLE notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_event_check;
+ALTER TABLE notification_deliveries
+    ADD CONSTRAINT notification_deliveries_event_check
+    CHECK (event IN ('TAKEOFF', 'LANDING', 'SIGNAL_LOST', 'AREA_ENTRY'));
+
+-- Users manage their own views; presence is written with the service role key only
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+ALTER TABLE watch_area_aircraft ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their saved views"
+    ON saved_views FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,54 @@
+-- Geofences drawn by users on the map (polygons or circles) with rules for
+-- which aircraft raise an event on entry or exit. Rules are evaluated by the
+-- app against every flight state poll; the events are stored in geofence_events.
+
+CREATE TABLE IF NOT EXISTS geofences (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    name VARCHAR(80) NOT NULL,
+    -- {"type":"polygon","points":[[lat,lon],...]} or
+    -- {"type":"circle","center":[lat,lon],"radiusMeters":5000}
+    shape JSONB NOT NULL CHECK (shape->>'type' IN ('polygon', 'circle')),
+    -- [{"id","name","triggers":["ENTER","EXIT"],"conditions":{...}}], see src/lib/geofences/types.ts
+    rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_geofences_user_id ON geofences(user_id);
+CREATE INDEX IF NOT EXISTS idx_geofences_enabled ON geofences(enabled) WHERE enabled;
+
+CREATE TABLE IF NOT EXISTS geofence_events (
+    -- "<geofence>-<rule>-<icao24>-<type>-<unix time>", so storing the same event twice is a no-op
+    id VARCHAR(128) PRIMARY KEY,
+    geofence_id BIGINT NOT NULL REFERENCES geofences(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    type VARCHAR(8) NOT NULL CHECK (type IN ('ENTER', 'EXIT')),
+    rule_id VARCHAR(64) NOT NULL,
+    rule_name VARCHAR(80) NOT NULL,
+    icao24 VARCHAR(6) NOT NULL,
+    callsign VARCHAR(20),
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    latitude DOUBLE PRECISION NOT NULL,
+    longitude DOUBLE PRECISION NOT NULL,
+    altitude REAL,
+    squawk VARCHAR(4),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_geofence_events_geofence_id ON geofence_events(geofence_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_geofence_events_user_id ON geofence_events(user_id, occurred_at DESC);
+
+-- Users manage their geofences; events are written with the service role key only
+ALTER TABLE geofences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE geofence_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their geofences"
+    ON geofences FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can read their geofence events"
+    ON geofence_events FOR SELECT
+    USING (auth.uid() = user_id);
@@ -0,0 +1,37 @@
+-- Squawk changes are kept as flight events (SQUAWK_CHANGE) with the codes
+-- before and after, and users can subscribe to alerts for emergency codes
+-- (7500 unlawful interference, 7600 radio failure, 7700 general emergency).
+
+ALTER TABLE flight_events ADD COLUMN IF NOT EXISTS squawk VARCHAR(4);
+ALTER TABLE flight_events ADD COLUMN IF NOT EXISTS previous_squawk VARCHAR(4);
+ALTER TABLE flight_events DROP CONSTRAINT IF EXISTS flight_events_type_check;
+ALTER TABLE flight_events
+    ADD CONSTRAINT flight_events_type_check
+    CHECK (type IN ('TAKEOFF', 'LANDING', 'GO_AROUND', 'DIVERSION_SUSPECTED', 'SIGNAL_LOST', 'SQUAWK_CHANGE'));
+
+CREATE INDEX IF NOT EXISTS idx_flight_events_squawk_changes ON flight_events(icao24, occurred_at DESC) WHERE type = 'SQUAWK_CHANGE';
+
+-- One subscription per user: which emergency codes, through which channels
+CREATE TABLE IF NOT EXISTS emergency_alert_subscriptions (
+    user_id UUID PRIMARY KEY DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    squawks TEXT[] NOT NULL DEFAULT ARRAY['7500', '7600', '7700']::TEXT[]
+        CHECK (squawks <@ ARRAY['7500', '7600', '7700']::TEXT[]),
+    channels TEXT[] NOT NULL DEFAULT ARRAY['push']::TEXT[]
+        CHECK (channels <@ ARRAY['email', 'push', 'webhook']::TEXT[]),
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_emergency_alert_subscriptions_enabled ON emergency_alert_subscriptions(enabled) WHERE enabled;
+
+ALTER TABLE notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_event_check;
+ALTER TABLE notification_deliveries
+    ADD CONSTRAINT notification_deliveries_event_check
+    CHECK (event IN ('TAKEOFF', 'LANDING', 'SIGNAL_LOST', 'AREA_ENTRY', 'EMERGENCY_SQUAWK'));
+
+ALTER TABLE emergency_alert_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their emergency alert subscription"
+    ON emergency_alert_subscriptions FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,5 @@
+-- Aircraft pages (/flight/<callsign>) look up the latest aircraft that
+-- broadcast a callsign when it isn't airborne right now.
+CREATE INDEX IF NOT EXISTS idx_flight_state_snapshots_callsign_recorded_at
+    ON flight_state_snapshots(callsign, recorded_at DESC)
+    WHERE callsign IS NOT NULL;